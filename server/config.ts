@@ -0,0 +1,75 @@
+const HUGGINGFACE_MODELS_URL = 'https://api-inference.huggingface.co/models/';
+
+export interface ProxyConfig {
+  host: string;
+  port: number;
+  // Sent upstream as a bearer token; never returned to clients
+  apiToken: string;
+  // Model ids are appended to this, as with the Hugging Face API
+  backendUrl: string;
+  defaultModel: string;
+  // Browser origins allowed to call the proxy; '*' allows any
+  allowedOrigins: string[];
+  // Model ids clients may request; null allows any
+  allowedModels: string[] | null;
+  // Texts per client per minute, batch items counted one by one
+  textsPerMinute: number;
+  maxBatchSize: number;
+  maxInputChars: number;
+  // Spacing between upstream requests, which are sent one at a time
+  upstreamIntervalMs: number;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const list = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const positiveInt = (env: NodeJS.ProcessEnv, name: string, fallback: number): number => {
+  const value = env[name];
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new ConfigError(`${name} must be a non-negative integer, got "${value}".`);
+  }
+  return parsed;
+};
+
+/**
+ * Reads the proxy settings from the environment. The API token is only
+ * optional when the backend is not the Hugging Face API, e.g. the stub
+ * model server.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ProxyConfig => {
+  const backendUrl = (env.MODEL_BACKEND_URL || HUGGINGFACE_MODELS_URL).replace(/\/*$/, '/');
+  if (!/^https?:\/\//.test(backendUrl)) {
+    throw new ConfigError(`MODEL_BACKEND_URL must be an http(s) URL, got "${backendUrl}".`);
+  }
+
+  const apiToken = env.HF_API_TOKEN?.trim() ?? '';
+  if (!apiToken && backendUrl === HUGGINGFACE_MODELS_URL) {
+    throw new ConfigError('HF_API_TOKEN is not set. The proxy needs it to call the Hugging Face API.');
+  }
+
+  const allowedModels = list(env.PROXY_ALLOWED_MODELS);
+  return {
+    host: env.PROXY_HOST || '127.0.0.1',
+    port: positiveInt(env, 'PROXY_PORT', 8787),
+    apiToken,
+    backendUrl,
+    defaultModel: env.PROXY_DEFAULT_MODEL || 'cardiffnlp/twitter-roberta-base-sentiment-latest',
+    allowedOrigins: env.PROXY_ALLOWED_ORIGINS !== undefined
+      ? list(env.PROXY_ALLOWED_ORIGINS)
+      : ['http://localhost:5173', 'http://127.0.0.1:5173', 'http://localhost:4173', 'http://127.0.0.1:4173'],
+    allowedModels: allowedModels.length > 0 ? allowedModels : null,
+    textsPerMinute: Math.max(1, positiveInt(env, 'PROXY_TEXTS_PER_MINUTE', 120)),
+    maxBatchSize: Math.max(1, positiveInt(env, 'PROXY_MAX_BATCH_SIZE', 32)),
+    maxInputChars: Math.max(1, positiveInt(env, 'PROXY_MAX_INPUT_CHARS', 2000)),
+    upstreamIntervalMs: positiveInt(env, 'PROXY_UPSTREAM_INTERVAL_MS', 250)
+  };
+};
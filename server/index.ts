@@ -0,0 +1,174 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { ConfigError, loadConfig, ProxyConfig } from './config.js';
+import { RateLimiter } from './rateLimiter.js';
+import { ModelBackend, RequestAbortedError } from './modelBackend.js';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MODEL_ID = /^[\w.-]+(\/[\w.-]+)?$/;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+interface AnalyzeRequest {
+  inputs: string | string[];
+  model: string;
+  parameters?: Record<string, unknown>;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large.');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON.');
+  }
+};
+
+// Checks a body against what the endpoint accepts and fills in the default model
+const parseAnalyzeRequest = (body: unknown, batch: boolean, config: ProxyConfig): AnalyzeRequest => {
+  if (!isPlainObject(body)) throw new HttpError(400, 'Request body must be a JSON object.');
+  const { inputs, model = config.defaultModel, parameters } = body;
+
+  if (batch) {
+    if (!Array.isArray(inputs) || inputs.length === 0 || !inputs.every(input => typeof input === 'string')) {
+      throw new HttpError(400, '"inputs" must be a non-empty array of strings.');
+    }
+    if (inputs.length > config.maxBatchSize) {
+      throw new HttpError(413, `Batches are limited to ${config.maxBatchSize} texts.`);
+    }
+  } else if (typeof inputs !== 'string' || inputs.length === 0) {
+    throw new HttpError(400, '"inputs" must be a non-empty string.');
+  }
+  const texts: string[] = Array.isArray(inputs) ? inputs : [inputs];
+  if (texts.some(text => text.length > config.maxInputChars)) {
+    throw new HttpError(413, `Texts are limited to ${config.maxInputChars} characters.`);
+  }
+
+  if (typeof model !== 'string' || !MODEL_ID.test(model)) {
+    throw new HttpError(400, '"model" must be a model id such as "owner/name".');
+  }
+  if (config.allowedModels && !config.allowedModels.includes(model)) {
+    throw new HttpError(403, `Model "${model}" is not allowed on this proxy.`);
+  }
+  if (parameters !== undefined && !isPlainObject(parameters)) {
+    throw new HttpError(400, '"parameters" must be an object.');
+  }
+
+  return { inputs, model, parameters };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+/**
+ * Answers CORS preflights and tags responses for allowed origins. Requests
+ * without an Origin header (curl, scripts) are not browsers and pass.
+ */
+const applyCors = (req: IncomingMessage, res: ServerResponse, config: ProxyConfig) => {
+  const origin = req.headers.origin;
+  if (!origin) return;
+  if (!config.allowedOrigins.includes('*') && !config.allowedOrigins.includes(origin)) {
+    throw new HttpError(403, `Origin ${origin} is not allowed. Add it to PROXY_ALLOWED_ORIGINS.`);
+  }
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+};
+
+const startProxy = (config: ProxyConfig) => {
+  const limiter = new RateLimiter(config.textsPerMinute, 60_000);
+  const backend = new ModelBackend(config);
+
+  const handleAnalyze = async (req: IncomingMessage, res: ServerResponse, batch: boolean) => {
+    const request = parseAnalyzeRequest(await readBody(req), batch, config);
+
+    const cost = Array.isArray(request.inputs) ? request.inputs.length : 1;
+    const waitMs = limiter.take(req.socket.remoteAddress ?? 'unknown', cost);
+    if (waitMs > 0) {
+      throw new HttpError(429, 'Rate limit exceeded. Please wait a moment before making more requests.', {
+        'Retry-After': String(Math.ceil(waitMs / 1000))
+      });
+    }
+
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) abort.abort();
+    });
+
+    try {
+      const response = await backend.send(request.model, request.inputs, request.parameters, abort.signal);
+      sendJson(res, response.status, response.body, response.retryAfter ? { 'Retry-After': response.retryAfter } : {});
+    } catch (error) {
+      if (error instanceof RequestAbortedError || abort.signal.aborted) return;
+      console.error('Model backend request failed:', error);
+      throw new HttpError(502, 'The model backend could not be reached.');
+    }
+  };
+
+  const server = createServer(async (req, res) => {
+    const started = Date.now();
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    // Texts are never logged
+    res.on('finish', () => console.log(`${req.method} ${path} ${res.statusCode} ${Date.now() - started}ms`));
+    try {
+      applyCors(req, res, config);
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, {
+          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type',
+          'Access-Control-Max-Age': '600'
+        });
+        res.end();
+      } else if (req.method === 'GET' && path === '/health') {
+        sendJson(res, 200, {
+          status: 'ok',
+          defaultModel: config.defaultModel,
+          queued: backend.queued,
+          limits: {
+            textsPerMinute: config.textsPerMinute,
+            maxBatchSize: config.maxBatchSize,
+            maxInputChars: config.maxInputChars
+          }
+        });
+      } else if (req.method === 'POST' && (path === '/analyze' || path === '/analyze/batch')) {
+        await handleAnalyze(req, res, path === '/analyze/batch');
+      } else {
+        throw new HttpError(404, `No route for ${req.method} ${path}.`);
+      }
+    } catch (error) {
+      const httpError = error instanceof HttpError ? error : new HttpError(500, 'Internal proxy error.');
+      if (!(error instanceof HttpError)) console.error(error);
+      if (!res.headersSent) sendJson(res, httpError.status, { error: httpError.message }, httpError.headers);
+    }
+  });
+
+  server.listen(config.port, config.host, () => {
+    console.log(`Inference proxy listening on http://${config.host}:${config.port}, forwarding to ${config.backendUrl}`);
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+try {
+  startProxy(loadConfig());
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error;
+  console.error(error.message);
+  process.exit(1);
+}
@@ -0,0 +1,83 @@
+import { ProxyConfig } from './config.js';
+
+export interface BackendResponse {
+  status: number;
+  // Passed through unparsed, so clients see exactly what the model returned
+  body: string;
+  retryAfter: string | null;
+}
+
+export class RequestAbortedError extends Error {
+  constructor() {
+    super('The client went away before the request was sent.');
+    this.name = 'RequestAbortedError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends classification requests to the model backend one at a time, spaced
+ * by the configured interval, so every client together stays within what
+ * one API key may send. Requests whose client disconnected while queued are
+ * dropped without reaching the backend.
+ */
+export class ModelBackend {
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending = 0;
+
+  constructor(private readonly config: ProxyConfig) {}
+
+  get queued(): number {
+    return this.pending;
+  }
+
+  send(
+    model: string,
+    inputs: string | string[],
+    parameters: Record<string, unknown> | undefined,
+    signal: AbortSignal
+  ): Promise<BackendResponse> {
+    this.pending++;
+    const run = this.queue.then(() => {
+      this.pending--;
+      if (signal.aborted) throw new RequestAbortedError();
+      return this.request(model, inputs, parameters, signal);
+    });
+    this.queue = run.then(
+      () => sleep(this.config.upstreamIntervalMs),
+      error => (error instanceof RequestAbortedError ? undefined : sleep(this.config.upstreamIntervalMs))
+    );
+    return run;
+  }
+
+  private async request(
+    model: string,
+    inputs: string | string[],
+    parameters: Record<string, unknown> | undefined,
+    signal: AbortSignal
+  ): Promise<BackendResponse> {
+    const response = await fetch(`${this.config.backendUrl}${model}`, {
+      method: 'POST',
+      headers: {
+        ...(this.config.apiToken && { Authorization: `Bearer ${this.config.apiToken}` }),
+        'Content-Type': 'application/json'
+      },
+      signal,
+      body: JSON.stringify({
+        inputs,
+        ...(parameters && { parameters }),
+        options: {
+          wait_for_model: true,
+          use_cache: false
+        }
+      })
+    });
+
+    return {
+      status: response.status,
+      body: await response.text(),
+      retryAfter: response.headers.get('Retry-After')
+    };
+  }
+}
@@ -0,0 +1,46 @@
+interface Bucket {
+  tokens: number;
+  updated: number;
+}
+
+// Buckets are pruned once there are this many, dropping the full ones
+const PRUNE_THRESHOLD = 1000;
+
+/**
+ * Token bucket per client: each client may spend `capacity` tokens at once
+ * and regains them evenly over `windowMs`. A request costing more than the
+ * capacity goes through on a full bucket and leaves it in debt, so the
+ * client still averages no more than `capacity` per window.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private readonly capacity: number, private readonly windowMs: number) {}
+
+  private refill(bucket: Bucket, now: number): Bucket {
+    const regained = ((now - bucket.updated) / this.windowMs) * this.capacity;
+    return { tokens: Math.min(this.capacity, bucket.tokens + regained), updated: now };
+  }
+
+  // Spends `cost` tokens and returns 0, or returns the milliseconds until
+  // the client could afford it without spending anything
+  take(client: string, cost: number, now = Date.now()): number {
+    const bucket = this.refill(this.buckets.get(client) ?? { tokens: this.capacity, updated: now }, now);
+    // Batches larger than the capacity only need a full bucket
+    const needed = Math.min(cost, this.capacity);
+    if (bucket.tokens < needed) {
+      this.buckets.set(client, bucket);
+      return Math.ceil(((needed - bucket.tokens) / this.capacity) * this.windowMs);
+    }
+
+    this.buckets.set(client, { ...bucket, tokens: bucket.tokens - cost });
+    if (this.buckets.size > PRUNE_THRESHOLD) this.prune(now);
+    return 0;
+  }
+
+  private prune(now: number) {
+    this.buckets.forEach((bucket, client) => {
+      if (this.refill(bucket, now).tokens >= this.capacity) this.buckets.delete(client);
+    });
+  }
+}
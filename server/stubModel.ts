@@ -0,0 +1,128 @@
+import { createServer, IncomingMessage } from 'node:http';
+
+/**
+ * A stand-in for the Hugging Face inference API, for running the proxy
+ * without a key or network. Scores come from a few keywords, so they are
+ * deterministic but say nothing about real model quality. The label set
+ * follows the model id: star ratings, emotions, toxicity categories,
+ * zero-shot labels (with `candidate_labels`) or positive/negative/neutral.
+ */
+
+const POSITIVE = ['good', 'great', 'love', 'excellent', 'amazing', 'happy', 'best', 'fast', 'thanks', 'awesome'];
+const NEGATIVE = ['bad', 'terrible', 'hate', 'awful', 'worst', 'slow', 'broken', 'angry', 'poor', 'refund'];
+const ABUSIVE = ['idiot', 'stupid', 'moron', 'shut up', 'kill'];
+
+interface LabelScore {
+  label: string;
+  score: number;
+}
+
+const countWords = (text: string, words: string[]) => {
+  const lower = text.toLowerCase();
+  return words.filter(word => lower.includes(word)).length;
+};
+
+// -1..1 from keyword hits, 0 without any
+const polarity = (text: string): number => {
+  const positive = countWords(text, POSITIVE);
+  const negative = countWords(text, NEGATIVE);
+  return positive + negative === 0 ? 0 : (positive - negative) / (positive + negative);
+};
+
+const normalize = (scores: Record<string, number>): LabelScore[] => {
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  return Object.entries(scores)
+    .map(([label, score]) => ({ label, score: score / total }))
+    .sort((a, b) => b.score - a.score);
+};
+
+const classify = (text: string, model: string): LabelScore[] => {
+  const p = polarity(text);
+  if (/emotion/i.test(model)) {
+    return normalize({
+      joy: 0.1 + Math.max(p, 0),
+      anger: 0.1 + Math.max(-p, 0) * 0.6,
+      sadness: 0.1 + Math.max(-p, 0) * 0.4,
+      fear: 0.05,
+      surprise: 0.05,
+      disgust: 0.05,
+      neutral: 0.2 + (1 - Math.abs(p)) * 0.5
+    });
+  }
+  if (/toxic/i.test(model)) {
+    const abuse = Math.min(1, countWords(text, ABUSIVE) * 0.6);
+    // Independent probabilities, so these are not normalized
+    return [
+      { label: 'toxic', score: 0.02 + abuse * 0.95 },
+      { label: 'insult', score: 0.01 + abuse * 0.8 },
+      { label: 'obscene', score: 0.01 },
+      { label: 'threat', score: 0.01 + (/kill/i.test(text) ? 0.7 : 0) },
+      { label: 'severe_toxic', score: 0.01 + abuse * 0.2 },
+      { label: 'identity_hate', score: 0.01 }
+    ].sort((a, b) => b.score - a.score);
+  }
+  if (/star|nlptown/i.test(model)) {
+    const center = 3 + p * 2;
+    return normalize(Object.fromEntries(
+      [1, 2, 3, 4, 5].map(stars => [`${stars} star${stars > 1 ? 's' : ''}`, Math.exp(-Math.pow(stars - center, 2))])
+    ));
+  }
+  return normalize({
+    positive: 0.1 + Math.max(p, 0),
+    negative: 0.1 + Math.max(-p, 0),
+    neutral: 0.1 + (1 - Math.abs(p)) * 0.6
+  });
+};
+
+// Each candidate label on its own, as with multi_label
+const zeroShot = (text: string, labels: string[]) => {
+  const scored = labels
+    .map(label => ({ label, score: countWords(text, label.toLowerCase().split(/\s+/)) > 0 ? 0.92 : 0.08 }))
+    .sort((a, b) => b.score - a.score);
+  return { sequence: text, labels: scored.map(item => item.label), scores: scored.map(item => item.score) };
+};
+
+const readJson = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+};
+
+const port = Number(process.env.STUB_MODEL_PORT) || 8788;
+const latencyMs = Number(process.env.STUB_MODEL_LATENCY_MS) || 0;
+
+const server = createServer(async (req, res) => {
+  const model = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname).replace(/^\/models\//, '');
+  const reply = (status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  if (req.method !== 'POST' || !/^[\w.-]+\/[\w.-]+$/.test(model)) {
+    reply(404, { error: `Model ${model} does not exist` });
+    return;
+  }
+
+  try {
+    const { inputs, parameters } = await readJson(req);
+    const labels = (parameters as { candidate_labels?: unknown } | undefined)?.candidate_labels;
+    const answer = (text: string) =>
+      Array.isArray(labels) ? zeroShot(text, labels.map(String)) : classify(text, model);
+
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+    // Like the real API, a single text gets its label list wrapped in another
+    if (typeof inputs === 'string') {
+      reply(200, Array.isArray(labels) ? answer(inputs) : [answer(inputs)]);
+    } else if (Array.isArray(inputs)) {
+      reply(200, inputs.map(text => answer(String(text))));
+    } else {
+      reply(400, { error: 'inputs must be a string or a list of strings' });
+    }
+  } catch {
+    reply(400, { error: 'Request body must be JSON' });
+  }
+});
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`Stub model backend listening on http://127.0.0.1:${port}/models/`);
+});
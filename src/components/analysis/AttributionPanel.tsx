@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Microscope, Loader2 } from 'lucide-react';
+import { Attribution, SentimentResult } from '../../types/sentiment';
+import { occlusionCost } from '../../services/occlusionExplainer';
+import { maskOffensiveWords } from '../../services/toxicityAnalyzer';
+import { useSentimentProvider } from '../../hooks/useSentimentProvider';
+import { useAnalysisSettings } from '../../hooks/useAnalysisSettings';
+
+interface AttributionPanelProps {
+  result: SentimentResult;
+  onExplain: (result: SentimentResult, onProgress?: (completed: number, total: number) => void) => Promise<SentimentResult>;
+}
+
+const AttributionText: React.FC<{ text: string; attribution: Attribution }> = ({ text, attribution }) => {
+  const strongest = Math.max(...attribution.tokens.map(token => Math.abs(token.weight)), 1e-6);
+  const pieces: React.ReactNode[] = [];
+  let cursor = 0;
+
+  attribution.tokens.forEach((token, index) => {
+    if (token.start > cursor) {
+      pieces.push(<span key={`gap-${index}`}>{text.slice(cursor, token.start)}</span>);
+    }
+    const alpha = (Math.abs(token.weight) / strongest) * 0.6;
+    pieces.push(
+      <span
+        key={`token-${index}`}
+        className="rounded px-0.5"
+        style={{ backgroundColor: token.weight >= 0 ? `rgba(245, 158, 11, ${alpha})` : `rgba(14, 165, 233, ${alpha})` }}
+        title={`${token.weight >= 0 ? '+' : ''}${(token.weight * 100).toFixed(1)} points`}
+      >
+        {text.slice(token.start, token.end)}
+      </span>
+    );
+    cursor = token.end;
+  });
+  if (cursor < text.length) {
+    pieces.push(<span key="tail">{text.slice(cursor)}</span>);
+  }
+
+  return (
+    <div>
+      <p className="text-gray-700 text-sm leading-loose whitespace-pre-wrap">{pieces}</p>
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-500">
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded bg-amber-400" />
+          <span>Pushes toward {attribution.sentiment}</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded bg-sky-400" />
+          <span>Pushes away from {attribution.sentiment}</span>
+        </span>
+        <span>
+          {attribution.window > 1 ? `${attribution.window} tokens left out at a time` : 'One token left out at a time'}
+          {' · '}{attribution.requests} texts scored
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export const AttributionPanel: React.FC<AttributionPanelProps> = ({ result, onExplain }) => {
+  const { provider } = useSentimentProvider();
+  const { settings } = useAnalysisSettings();
+  const [confirming, setConfirming] = useState(false);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState('');
+
+  if (result.attribution) {
+    // Masking keeps offsets intact
+    const text = settings.maskOffensiveWords ? maskOffensiveWords(result.text) : result.text;
+    return <AttributionText text={text} attribution={result.attribution} />;
+  }
+
+  const cost = occlusionCost(result.text);
+  const unavailable = result.providerId && result.providerId !== provider.id
+    ? `This result came from another provider (${result.providerId}); switch back to it to explain the result.`
+    : result.text.length > provider.capabilities.maxInputChars
+      ? `The text is longer than ${provider.name} accepts in one request, so it cannot be explained token by token.`
+      : '';
+
+  const handleExplain = async () => {
+    setConfirming(false);
+    setIsExplaining(true);
+    setProgress(0);
+    setError('');
+    try {
+      await onExplain(result, (completed, total) => setProgress((completed / total) * 100));
+    } catch (explainError) {
+      setError(explainError instanceof Error ? explainError.message : 'Explanation failed');
+    } finally {
+      setIsExplaining(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {unavailable ? (
+        <p className="text-sm text-gray-500">{unavailable}</p>
+      ) : confirming ? (
+        <div className="border border-amber-200 bg-amber-50 rounded-lg p-3 text-sm text-amber-800">
+          <p className="mb-3">
+            Each word is left out in turn and the text scored again, which takes up to {cost}{' '}
+            {provider.capabilities.requiresNetwork ? `requests to ${provider.name}` : 'scoring passes'}. Texts already in
+            the cache are free, and requests follow the retry and batching settings.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExplain}
+              className="px-3 py-1.5 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors"
+            >
+              Run ({cost} {cost === 1 ? 'request' : 'requests'})
+            </button>
+            <button
+              onClick={() => setConfirming(false)}
+              className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-white transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setConfirming(true)}
+          disabled={isExplaining}
+          className="text-sm text-emerald-700 hover:text-emerald-800 disabled:opacity-50 flex items-center space-x-1"
+        >
+          {isExplaining ? <Loader2 className="w-4 h-4 animate-spin" /> : <Microscope className="w-4 h-4" />}
+          <span>{isExplaining ? `Explaining ${Math.round(progress)}%` : 'Explain which words drove this prediction'}</span>
+        </button>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
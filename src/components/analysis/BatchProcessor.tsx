@@ -1,26 +1,45 @@
 import React, { useState, useRef } from 'react';
-import { Upload, FileText, Loader2, AlertCircle, Plus, X, Play } from 'lucide-react';
+import { Upload, FileText, Loader2, AlertCircle, Plus, X, Play, RotateCcw, Star } from 'lucide-react';
 import Papa from 'papaparse';
-import { BatchResult } from '../../types/sentiment';
+import { BatchResult, FailedBatchItem } from '../../types/sentiment';
+import { SentimentProvider, RetryStatus, RunOptions } from '../../types/provider';
+import { RetryNotice } from './RetryNotice';
+import { JobPanel } from './JobPanel';
+import { parseRating, isRatingMismatch } from '../../services/starRating';
+
+const MAX_BATCH_ITEMS = 5000;
 
 interface BatchProcessorProps {
-  onBatchAnalyze: (texts: string[], batchName: string, useDemo?: boolean) => Promise<BatchResult>;
+  onBatchAnalyze: (
+    texts: string[],
+    batchName: string,
+    options?: RunOptions,
+    actualRatings?: Array<number | undefined>
+  ) => Promise<BatchResult>;
+  onRetryFailed: (batch: BatchResult) => Promise<BatchResult>;
   isLoading: boolean;
   progress: number;
   error: string | null;
-  hasApiKey: boolean;
+  provider: SentimentProvider;
+  retryStatus: RetryStatus | null;
 }
 
 export const BatchProcessor: React.FC<BatchProcessorProps> = ({
   onBatchAnalyze,
+  onRetryFailed,
   isLoading,
   progress,
   error,
-  hasApiKey
+  provider,
+  retryStatus
 }) => {
   const [batchName, setBatchName] = useState('');
   const [texts, setTexts] = useState<string[]>(['']);
+  // Ratings from an uploaded CSV, aligned with texts
+  const [ratings, setRatings] = useState<Array<number | undefined>>([]);
+  const [ratingColumn, setRatingColumn] = useState<string | null>(null);
   const [result, setResult] = useState<BatchResult | null>(null);
+  const [bypassCache, setBypassCache] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -32,34 +51,28 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
       const content = e.target?.result as string;
       
       if (file.name.endsWith('.csv')) {
-        Papa.parse(content, {
+        Papa.parse<Record<string, string>>(content, {
           header: true,
           complete: (results) => {
-            const textColumn = results.meta.fields?.find(field => 
+            const fields = results.meta.fields ?? [];
+            // Use the first column if no text column found
+            const textColumn = fields.find(field => 
               field.toLowerCase().includes('text') || 
               field.toLowerCase().includes('comment') ||
               field.toLowerCase().includes('review')
+            ) ?? fields[0];
+            if (!textColumn) return;
+
+            const ratingField = fields.find(field =>
+              field !== textColumn && /rating|stars?|score/i.test(field)
             );
-            
-            if (textColumn) {
-              const extractedTexts = results.data
-                .map((row: any) => row[textColumn])
-                .filter(text => text && text.trim())
-                .slice(0, 100); // Limit to 100 items
-              
-              setTexts(extractedTexts);
-            } else {
-              // Use first column if no text column found
-              const firstColumn = results.meta.fields?.[0];
-              if (firstColumn) {
-                const extractedTexts = results.data
-                  .map((row: any) => row[firstColumn])
-                  .filter(text => text && text.trim())
-                  .slice(0, 100);
-                
-                setTexts(extractedTexts);
-              }
-            }
+            const rows = results.data
+              .filter(row => row[textColumn] && row[textColumn].trim())
+              .slice(0, MAX_BATCH_ITEMS);
+
+            setTexts(rows.map(row => row[textColumn]));
+            setRatings(ratingField ? rows.map(row => parseRating(row[ratingField])) : []);
+            setRatingColumn(ratingField ?? null);
           }
         });
       } else {
@@ -67,9 +80,11 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
         const lines = content.split('\n')
           .map(line => line.trim())
           .filter(line => line)
-          .slice(0, 100);
+          .slice(0, MAX_BATCH_ITEMS);
         
         setTexts(lines);
+        setRatings([]);
+        setRatingColumn(null);
       }
     };
     
@@ -82,6 +97,7 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
 
   const removeTextInput = (index: number) => {
     setTexts(texts.filter((_, i) => i !== index));
+    setRatings(ratings.filter((_, i) => i !== index));
   };
 
   const updateText = (index: number, value: string) => {
@@ -90,16 +106,32 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
     setTexts(newTexts);
   };
 
+  const handleRetryFailed = async () => {
+    if (!result || isLoading) return;
+    try {
+      setResult(await onRetryFailed(result));
+    } catch {
+      // Error handled by parent component
+    }
+  };
+
+  const failedItems = (result?.items ?? []).filter((item): item is FailedBatchItem => item.status === 'failed');
+  const mismatches = (result?.results ?? []).filter(isRatingMismatch);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const validTexts = texts.filter(t => t.trim());
-    if (!validTexts.length || !batchName.trim() || isLoading) return;
+    if (!texts.some(t => t.trim()) || !batchName.trim() || isLoading) return;
 
     try {
-      const batchResult = await onBatchAnalyze(validTexts, batchName.trim(), !hasApiKey);
+      const batchResult = await onBatchAnalyze(texts, batchName.trim(), { bypassCache }, ratings);
       setResult(batchResult);
-      setTexts(['']);
-      setBatchName('');
+      // Keep the input of a cancelled run so the remaining texts can be resubmitted
+      if (!batchResult.partial) {
+        setTexts(['']);
+        setRatings([]);
+        setRatingColumn(null);
+        setBatchName('');
+      }
     } catch (error) {
       // Error handled by parent component
     }
@@ -128,15 +160,30 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
         </p>
       </div>
 
-      {/* Demo Notice */}
-      {!hasApiKey && (
+      {/* Offline Notice */}
+      {provider.capabilities.ruleBased && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
           <div className="flex items-start space-x-3">
             <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
             <div>
-              <h3 className="font-medium text-yellow-800">Demo Mode</h3>
+              <h3 className="font-medium text-yellow-800">Offline Lexicon Engine</h3>
               <p className="text-sm text-yellow-700 mt-1">
-                Batch processing in demo mode is limited to simulated results.
+                Batches are scored by the rule-based word lexicon. Select a model provider in Settings for
+                transformer-based analysis.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!provider.isConfigured() && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="font-medium text-yellow-800">{provider.name} Not Configured</h3>
+              <p className="text-sm text-yellow-700 mt-1">
+                Batches fail until it is set up in Settings. Select the Lexicon Engine there to analyze offline meanwhile.
               </p>
             </div>
           </div>
@@ -187,6 +234,11 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
           <div className="flex items-center justify-between mb-2">
             <label className="block text-sm font-medium text-gray-700">
               Texts to Analyze ({texts.filter(t => t.trim()).length} items)
+              {ratingColumn && (
+                <span className="ml-2 text-gray-500 font-normal">
+                  · ratings from "{ratingColumn}" ({ratings.filter(r => r !== undefined).length} found)
+                </span>
+              )}
             </label>
             <button
               type="button"
@@ -240,6 +292,18 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
           </div>
         )}
 
+        <RetryNotice status={retryStatus} />
+
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={bypassCache}
+            onChange={(e) => setBypassCache(e.target.checked)}
+            className="text-blue-600 focus:ring-blue-500"
+          />
+          <span>Bypass cache (re-analyze texts that were analyzed before)</span>
+        </label>
+
         <button
           type="submit"
           disabled={!texts.filter(t => t.trim()).length || !batchName.trim() || isLoading}
@@ -259,6 +323,8 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
         </button>
       </form>
 
+      <JobPanel />
+
       {/* Error Display */}
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -277,18 +343,27 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
         <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
           <div className="flex items-center justify-between mb-6">
             <h3 className="text-lg font-semibold text-gray-900">
-              Batch Analysis Complete: {result.name}
+              {result.partial ? 'Batch Analysis Cancelled' : 'Batch Analysis Complete'}: {result.name}
             </h3>
             <div className="text-sm text-gray-500">
               {result.createdAt.toLocaleString()}
             </div>
           </div>
 
+          {result.partial && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-6 text-sm text-yellow-800">
+              Partial result: {result.summary.totalTexts} of {result.requestedTexts} texts were analyzed before the
+              job was cancelled. The texts are still in the form above.
+            </div>
+          )}
+
           {/* Summary Statistics */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
             <div className="bg-blue-50 rounded-lg p-4">
               <div className="text-2xl font-bold text-blue-600">{result.summary.totalTexts}</div>
-              <div className="text-sm text-blue-600">Total Texts</div>
+              <div className="text-sm text-blue-600">
+                {result.summary.failedCount ? `Analyzed (${result.summary.failedCount} failed)` : 'Total Texts'}
+              </div>
             </div>
             <div className="bg-emerald-50 rounded-lg p-4">
               <div className="text-2xl font-bold text-emerald-600">{result.summary.positiveCount}</div>
@@ -320,6 +395,83 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
             </div>
           </div>
 
+          {/* Aspect Counts */}
+          {result.summary.aspectCounts && Object.keys(result.summary.aspectCounts).length > 0 && (
+            <div className="mb-6">
+              <h4 className="font-medium text-gray-900 mb-3">Aspect Mentions</h4>
+              <div className="space-y-2">
+                {Object.entries(result.summary.aspectCounts).map(([aspect, counts]) => (
+                  <div key={aspect} className="flex items-center space-x-3 text-sm">
+                    <span className="w-32 text-gray-700 truncate">{aspect}</span>
+                    <span className="px-2 py-1 rounded text-xs font-medium bg-emerald-100 text-emerald-800">{counts.positive} positive</span>
+                    <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">{counts.neutral} neutral</span>
+                    <span className="px-2 py-1 rounded text-xs font-medium bg-red-100 text-red-800">{counts.negative} negative</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Rating Mismatches */}
+          {result.summary.ratingMismatchCount !== undefined && (
+            <div className="mb-6">
+              <h4 className="font-medium text-gray-900 mb-1 flex items-center space-x-2">
+                <Star className="w-4 h-4 text-amber-500" />
+                <span>{mismatches.length} Rating Mismatches</span>
+              </h4>
+              <p className="text-sm text-gray-600 mb-3">
+                Reviews whose text sentiment disagrees with the rating given. These are worth a look for fake or
+                mistaken ratings.
+              </p>
+              {mismatches.length > 0 && (
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {mismatches.map((item) => (
+                    <div key={item.id} className="flex items-center space-x-3 p-3 bg-amber-50 rounded-lg">
+                      <span className="px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-800 whitespace-nowrap">
+                        given {item.actualRating}★
+                      </span>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${getSentimentColor(item.sentiment)}`}>
+                        {item.rating ? `${item.rating.expected.toFixed(1)}★` : item.sentiment.toUpperCase()}
+                      </span>
+                      <span className="text-sm text-gray-600 flex-1 truncate">{item.text}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Failed Items */}
+          {failedItems.length > 0 && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-medium text-red-800">{failedItems.length} Failed Texts</h4>
+                <button
+                  onClick={handleRetryFailed}
+                  disabled={isLoading}
+                  className="text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50 flex items-center space-x-1"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>Retry failed items</span>
+                </button>
+              </div>
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {failedItems.map((item) => (
+                  <div key={item.index} className="flex items-center space-x-3 p-3 bg-red-50 rounded-lg">
+                    <span className="text-xs text-gray-500">Text {item.index + 1}</span>
+                    <span className="px-2 py-1 rounded text-xs font-medium bg-red-100 text-red-800">
+                      {item.errorCode}
+                    </span>
+                    <span className="text-sm text-gray-600 flex-1 truncate">{item.text}</span>
+                    <span className="text-xs text-red-700 max-w-xs truncate" title={item.errorMessage}>
+                      {item.errorMessage}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Sample Results */}
           <div>
             <h4 className="font-medium text-gray-900 mb-3">Sample Results</h4>
@@ -332,6 +484,32 @@ export const BatchProcessor: React.FC<BatchProcessorProps> = ({
                   <span className="text-sm text-gray-600 flex-1 truncate">
                     {item.text}
                   </span>
+                  {item.rating && (
+                    <span className="px-2 py-1 rounded text-xs bg-yellow-50 text-yellow-700 whitespace-nowrap">
+                      {item.rating.stars}★
+                    </span>
+                  )}
+                  {isRatingMismatch(item) && (
+                    <span className="px-2 py-1 rounded text-xs bg-amber-100 text-amber-800">
+                      rated {item.actualRating}★
+                    </span>
+                  )}
+                  {item.emotion && item.emotion.label !== 'neutral' && (
+                    <span className="px-2 py-1 rounded text-xs bg-amber-50 text-amber-700 capitalize">
+                      {item.emotion.label}
+                    </span>
+                  )}
+                  {item.cached && (
+                    <span className="px-2 py-1 rounded text-xs bg-indigo-50 text-indigo-700">cached</span>
+                  )}
+                  {item.ensemble?.needsReview && (
+                    <span className="px-2 py-1 rounded text-xs bg-orange-50 text-orange-700">review</span>
+                  )}
+                  {item.chunks && item.chunks.length > 1 && (
+                    <span className="px-2 py-1 rounded text-xs bg-blue-50 text-blue-700">
+                      {item.chunks.length} chunks
+                    </span>
+                  )}
                   <span className="text-sm text-gray-500">
                     {(item.confidence * 100).toFixed(0)}%
                   </span>
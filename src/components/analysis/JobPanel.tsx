@@ -0,0 +1,103 @@
+import React from 'react';
+import { ListChecks, Pause, Play, Square, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useBatchJobs } from '../../hooks/useBatchJobs';
+import { jobStore } from '../../services/jobStore';
+import { JobStatus } from '../../types/job';
+
+export const JobPanel: React.FC = () => {
+  const jobs = useBatchJobs();
+
+  const getStatusColor = (status: JobStatus) => {
+    switch (status) {
+      case 'running': return 'bg-blue-100 text-blue-800';
+      case 'paused': return 'bg-yellow-100 text-yellow-800';
+      case 'completed': return 'bg-emerald-100 text-emerald-800';
+      case 'cancelled': return 'bg-gray-100 text-gray-800';
+      default: return 'bg-red-100 text-red-800';
+    }
+  };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
+      <div className="flex items-center space-x-2 mb-4">
+        <ListChecks className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Batch Jobs</h3>
+      </div>
+
+      <div className="space-y-3">
+        {jobs.map((job) => {
+          const active = job.status === 'running' || job.status === 'paused';
+          return (
+            <div key={job.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className="font-medium text-gray-900 truncate">{job.name}</span>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(job.status)}`}>
+                    {job.status}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  {job.status === 'running' && (
+                    <button
+                      onClick={() => jobStore.pause(job.id)}
+                      title="Pause"
+                      className="p-1 text-gray-500 hover:text-yellow-600 transition-colors"
+                    >
+                      <Pause className="w-4 h-4" />
+                    </button>
+                  )}
+                  {job.status === 'paused' && (
+                    <button
+                      onClick={() => jobStore.resume(job.id)}
+                      title="Resume"
+                      className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+                    >
+                      <Play className="w-4 h-4" />
+                    </button>
+                  )}
+                  {active ? (
+                    <button
+                      onClick={() => jobStore.cancel(job.id)}
+                      title="Cancel"
+                      className="p-1 text-gray-500 hover:text-red-600 transition-colors"
+                    >
+                      <Square className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => jobStore.dismiss(job.id)}
+                      title="Dismiss"
+                      className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                <span>{job.completed} of {job.total} texts</span>
+                <span>
+                  Started {format(job.startedAt, 'HH:mm:ss')}
+                  {job.finishedAt && ` · finished ${format(job.finishedAt, 'HH:mm:ss')}`}
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-1.5">
+                <div
+                  className="bg-blue-500 h-1.5 rounded-full transition-all duration-300"
+                  style={{ width: `${job.total ? (job.completed / job.total) * 100 : 0}%` }}
+                />
+              </div>
+              {job.error && (
+                <p className={`text-xs mt-2 ${job.status === 'failed' ? 'text-red-600' : 'text-amber-700'}`}>{job.error}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { RetryStatus } from '../../types/provider';
+
+interface RetryNoticeProps {
+  status: RetryStatus | null;
+}
+
+export const RetryNotice: React.FC<RetryNoticeProps> = ({ status }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!status) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  if (!status) return null;
+
+  const seconds = Math.max(0, Math.ceil((status.retryAt - now) / 1000));
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+      <div className="flex items-start space-x-3">
+        <RefreshCw className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5 animate-spin" />
+        <div>
+          <h3 className="font-medium text-amber-800">
+            {seconds > 0 ? `Retrying in ${seconds}s` : 'Retrying now'} (attempt {status.attempt}/{status.maxAttempts})
+          </h3>
+          <p className="text-sm text-amber-700 mt-1">{status.reason}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
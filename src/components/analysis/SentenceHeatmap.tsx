@@ -0,0 +1,72 @@
+import React from 'react';
+import { SentenceSegment } from '../../types/sentiment';
+
+interface SentenceHeatmapProps {
+  text: string;
+  segments: SentenceSegment[];
+}
+
+const getSegmentColor = (segment: SentenceSegment) => {
+  const strong = segment.confidence > 0.75;
+  switch (segment.sentiment) {
+    case 'positive': return strong ? 'bg-emerald-200 hover:bg-emerald-300' : 'bg-emerald-100 hover:bg-emerald-200';
+    case 'negative': return strong ? 'bg-red-200 hover:bg-red-300' : 'bg-red-100 hover:bg-red-200';
+    default: return 'bg-gray-100 hover:bg-gray-200';
+  }
+};
+
+export const SentenceHeatmap: React.FC<SentenceHeatmapProps> = ({ text, segments }) => {
+  const pieces: React.ReactNode[] = [];
+  let cursor = 0;
+
+  segments.forEach((segment, index) => {
+    if (segment.start > cursor) {
+      pieces.push(<span key={`gap-${index}`}>{text.slice(cursor, segment.start)}</span>);
+    }
+    pieces.push(
+      <span
+        key={`segment-${index}`}
+        className={`relative group rounded px-0.5 cursor-default transition-colors ${getSegmentColor(segment)}`}
+      >
+        {text.slice(segment.start, segment.end)}
+        <span className="pointer-events-none absolute left-0 bottom-full mb-2 z-10 hidden group-hover:block w-48 bg-gray-900 text-white text-xs rounded-lg p-3 shadow-lg">
+          <span className="block font-semibold capitalize mb-1">
+            {segment.sentiment} · {(segment.confidence * 100).toFixed(0)}%
+          </span>
+          {Object.entries(segment.scores).map(([sentiment, score]) => (
+            <span key={sentiment} className="flex justify-between capitalize">
+              <span>{sentiment}</span>
+              <span>{(score * 100).toFixed(1)}%</span>
+            </span>
+          ))}
+        </span>
+      </span>
+    );
+    cursor = segment.end;
+  });
+
+  if (cursor < text.length) {
+    pieces.push(<span key="tail">{text.slice(cursor)}</span>);
+  }
+
+  return (
+    <div>
+      <p className="text-gray-700 text-sm leading-loose whitespace-pre-wrap">{pieces}</p>
+      <div className="flex items-center space-x-4 mt-3 text-xs text-gray-500">
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded bg-emerald-200" />
+          <span>Positive</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded bg-gray-100 border border-gray-200" />
+          <span>Neutral</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded bg-red-200" />
+          <span>Negative</span>
+        </span>
+        <span>Hover a sentence for its scores</span>
+      </div>
+    </div>
+  );
+};
@@ -1,35 +1,57 @@
 import React, { useState } from 'react';
-import { Brain, Loader2, AlertCircle, CheckCircle2, Send } from 'lucide-react';
+import { Brain, Loader2, AlertCircle, CheckCircle2, Send, Layers, Users, ShieldAlert } from 'lucide-react';
 import { SentimentResult } from '../../types/sentiment';
+import { SentimentProvider, RetryStatus, RunOptions } from '../../types/provider';
+import { SentenceHeatmap } from './SentenceHeatmap';
+import { RetryNotice } from './RetryNotice';
+import { AttributionPanel } from './AttributionPanel';
+import { LANGUAGE_NAMES } from '../../services/languageDetector';
+import { modelRegistry } from '../../services/modelRegistry';
+import { DEFAULT_SCHEMA_ID, labelColor } from '../../services/labelSchemas';
+import { TOXICITY_CATEGORIES, TOXICITY_CATEGORY_NAMES, maskOffensiveWords } from '../../services/toxicityAnalyzer';
+import { useAnalysisSettings } from '../../hooks/useAnalysisSettings';
 
 interface TextAnalyzerProps {
-  onAnalyze: (text: string, useDemo?: boolean) => Promise<SentimentResult>;
+  onAnalyze: (text: string, options?: RunOptions) => Promise<SentimentResult>;
+  onExplain: (result: SentimentResult, onProgress?: (completed: number, total: number) => void) => Promise<SentimentResult>;
   isLoading: boolean;
   error: string | null;
-  hasApiKey: boolean;
+  provider: SentimentProvider;
+  retryStatus: RetryStatus | null;
 }
 
 export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({ 
   onAnalyze, 
+  onExplain,
   isLoading, 
   error,
-  hasApiKey 
+  provider,
+  retryStatus
 }) => {
   const [text, setText] = useState('');
   const [result, setResult] = useState<SentimentResult | null>(null);
+  const [bypassCache, setBypassCache] = useState(false);
+  const { settings } = useAnalysisSettings();
+  const shown = (value: string) => (settings.maskOffensiveWords ? maskOffensiveWords(value) : value);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!text.trim() || isLoading) return;
 
     try {
-      const analysisResult = await onAnalyze(text.trim(), !hasApiKey);
+      const analysisResult = await onAnalyze(text.trim(), { bypassCache });
       setResult(analysisResult);
     } catch (error) {
       // Error handled by parent component
     }
   };
 
+  const handleExplain = async (target: SentimentResult, onProgress?: (completed: number, total: number) => void) => {
+    const explained = await onExplain(target, onProgress);
+    setResult(explained);
+    return explained;
+  };
+
   const getSentimentColor = (sentiment: string) => {
     switch (sentiment) {
       case 'positive': return 'text-emerald-600 bg-emerald-50 border-emerald-200';
@@ -38,6 +60,18 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({
     }
   };
 
+  const getEmotionIcon = (emotion: string) => {
+    switch (emotion) {
+      case 'joy': return '😄';
+      case 'anger': return '😠';
+      case 'sadness': return '😢';
+      case 'fear': return '😨';
+      case 'surprise': return '😲';
+      case 'disgust': return '🤢';
+      default: return '😶';
+    }
+  };
+
   const getSentimentIcon = (sentiment: string) => {
     switch (sentiment) {
       case 'positive': return '😊';
@@ -62,15 +96,30 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({
         </p>
       </div>
 
-      {/* Demo Notice */}
-      {!hasApiKey && (
+      {/* Offline Notice */}
+      {provider.capabilities.ruleBased && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="font-medium text-yellow-800">Offline Lexicon Engine</h3>
+              <p className="text-sm text-yellow-700 mt-1">
+                Results come from a rule-based word lexicon. Select a model provider in Settings for
+                transformer-based analysis.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!provider.isConfigured() && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
           <div className="flex items-start space-x-3">
             <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
             <div>
-              <h3 className="font-medium text-yellow-800">Demo Mode</h3>
+              <h3 className="font-medium text-yellow-800">{provider.name} Not Configured</h3>
               <p className="text-sm text-yellow-700 mt-1">
-                You're using demo mode with simulated results. Add your Hugging Face API key in Settings for real-time analysis.
+                Analyses fail until it is set up in Settings. Select the Lexicon Engine there to analyze offline meanwhile.
               </p>
             </div>
           </div>
@@ -98,6 +147,16 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({
           </div>
         </div>
 
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={bypassCache}
+            onChange={(e) => setBypassCache(e.target.checked)}
+            className="text-emerald-600 focus:ring-emerald-500"
+          />
+          <span>Bypass cache (re-analyze even if this text was analyzed before)</span>
+        </label>
+
         <button
           type="submit"
           disabled={!text.trim() || isLoading}
@@ -117,6 +176,8 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({
         </button>
       </form>
 
+      <RetryNotice status={retryStatus} />
+
       {/* Error Display */}
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -138,8 +199,26 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({
               <CheckCircle2 className="w-5 h-5 text-emerald-600" />
               <span>Analysis Complete</span>
             </h3>
-            <div className="text-sm text-gray-500">
-              {result.timestamp.toLocaleString()}
+            <div className="flex items-center space-x-3 text-sm text-gray-500">
+              {result.language && result.language !== 'unknown' && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-sky-100 text-sky-800">
+                  {LANGUAGE_NAMES[result.language]}
+                </span>
+              )}
+              {result.cached && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                  Cached result
+                </span>
+              )}
+              {result.calibrated && (
+                <span
+                  className="px-2 py-1 rounded-full text-xs font-medium bg-teal-100 text-teal-800"
+                  title={result.calibrated === 'temperature' ? 'Temperature scaling' : 'Isotonic regression'}
+                >
+                  Calibrated
+                </span>
+              )}
+              <span>{result.timestamp.toLocaleString()}</span>
             </div>
           </div>
 
@@ -153,6 +232,13 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({
                   <p className="text-sm opacity-80">
                     {(result.confidence * 100).toFixed(1)}% confidence
                   </p>
+                  {result.rating && (
+                    <p className="text-sm mt-1" title={result.rating.source === 'model' ? 'Rated by the model' : 'Derived from sentiment scores'}>
+                      <span className="text-amber-500">{'★'.repeat(result.rating.stars)}</span>
+                      <span className="text-gray-300">{'★'.repeat(5 - result.rating.stars)}</span>
+                      <span className="ml-2 opacity-80">expected {result.rating.expected.toFixed(2)}</span>
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -179,6 +265,236 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({
             </div>
           </div>
 
+          {/* Schema Labels */}
+          {result.labels && result.labels.schemaId !== DEFAULT_SCHEMA_ID && (() => {
+            const schema = modelRegistry.getSchema(result.labels.schemaId);
+            const reported = schema.labels.find(label => label.id === result.labels?.label);
+            return (
+              <div className="mb-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-medium text-gray-900">Label: {reported?.name ?? result.labels.label}</h4>
+                  <span className="text-xs text-gray-500">{schema.name}</span>
+                </div>
+                <div className="space-y-2">
+                  {schema.labels.map(label => (
+                    <div key={label.id} className="flex items-center space-x-3">
+                      <span className="w-28 text-sm text-gray-600 truncate">{label.name}:</span>
+                      <div className="flex-1 bg-gray-200 rounded-full h-2">
+                        <div
+                          className="h-2 rounded-full transition-all duration-500"
+                          style={{
+                            width: `${(result.labels?.scores[label.id] || 0) * 100}%`,
+                            backgroundColor: labelColor(label)
+                          }}
+                        />
+                      </div>
+                      <span className="text-sm text-gray-600 w-12">
+                        {((result.labels?.scores[label.id] || 0) * 100).toFixed(0)}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })()}
+
+          {/* Ensemble */}
+          {result.ensemble && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-medium text-gray-900 flex items-center space-x-2">
+                  <Users className="w-4 h-4 text-gray-600" />
+                  <span>Model Agreement: {(result.ensemble.agreement * 100).toFixed(0)}%</span>
+                </h4>
+                <div className="flex items-center space-x-2">
+                  {result.ensemble.needsReview && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                      Needs review
+                    </span>
+                  )}
+                  <span className="text-xs text-gray-500 capitalize">
+                    {result.ensemble.strategy.replace('-', ' ')}
+                  </span>
+                </div>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Model</th>
+                      <th className="py-2 pr-4 font-medium">Weight</th>
+                      <th className="py-2 pr-4 font-medium">Label</th>
+                      <th className="py-2 pr-4 font-medium">Positive</th>
+                      <th className="py-2 pr-4 font-medium">Neutral</th>
+                      <th className="py-2 font-medium">Negative</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.ensemble.models.map(vote => (
+                      <tr key={vote.model} className="border-b border-gray-100 last:border-0">
+                        <td className="py-2 pr-4 text-gray-900 break-all">{vote.model}</td>
+                        <td className="py-2 pr-4 text-gray-600">{vote.weight}</td>
+                        <td className="py-2 pr-4">
+                          <span className={`px-2 py-1 rounded text-xs font-medium border ${getSentimentColor(vote.sentiment)}`}>
+                            {vote.sentiment.toUpperCase()}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-4 text-gray-600">{(vote.scores.positive * 100).toFixed(0)}%</td>
+                        <td className="py-2 pr-4 text-gray-600">{(vote.scores.neutral * 100).toFixed(0)}%</td>
+                        <td className="py-2 text-gray-600">{(vote.scores.negative * 100).toFixed(0)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Emotion */}
+          {result.emotion && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-medium text-gray-900 flex items-center space-x-2">
+                  <span className="text-xl">{getEmotionIcon(result.emotion.label)}</span>
+                  <span className="capitalize">Emotion: {result.emotion.label}</span>
+                </h4>
+                <span className="text-xs text-gray-500">
+                  {(result.emotion.confidence * 100).toFixed(0)}% · {result.emotion.source === 'model' ? 'emotion model' : 'emotion lexicon'}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {Object.entries(result.emotion.scores)
+                  .sort((a, b) => b[1] - a[1])
+                  .map(([emotion, score]) => (
+                    <div key={emotion} className="flex items-center space-x-2 text-sm">
+                      <span>{getEmotionIcon(emotion)}</span>
+                      <span className="capitalize text-gray-600 flex-1">{emotion}</span>
+                      <span className="text-gray-500">{(score * 100).toFixed(0)}%</span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {/* Toxicity */}
+          {result.toxicity && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-medium text-gray-900 flex items-center space-x-2">
+                  <ShieldAlert className={`w-4 h-4 ${result.toxicity.toxic ? 'text-red-600' : 'text-gray-600'}`} />
+                  <span>{result.toxicity.toxic ? 'Toxic' : 'Not Toxic'}</span>
+                </h4>
+                <span className="text-xs text-gray-500">
+                  {(result.toxicity.score * 100).toFixed(0)}% · {result.toxicity.source === 'model' ? 'toxicity model' : 'toxicity lexicon'}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                {TOXICITY_CATEGORIES.map(category => (
+                  <div
+                    key={category}
+                    className={`p-2 rounded-lg text-sm ${
+                      result.toxicity?.flagged.includes(category) ? 'bg-red-50 text-red-800' : 'bg-gray-50 text-gray-600'
+                    }`}
+                  >
+                    <div className="font-medium">{TOXICITY_CATEGORY_NAMES[category]}</div>
+                    <div className="text-xs opacity-80">{((result.toxicity?.categories[category] ?? 0) * 100).toFixed(0)}%</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Chunks */}
+          {result.chunks && result.chunks.length > 1 && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-medium text-gray-900 flex items-center space-x-2">
+                  <Layers className="w-4 h-4 text-gray-600" />
+                  <span>Long Text Analyzed in {result.chunks.length} Chunks</span>
+                </h4>
+                <span className="text-xs text-gray-500 capitalize">
+                  {result.chunkAggregation?.replace('-', ' ')} aggregation
+                </span>
+              </div>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {result.chunks.map((chunk, index) => (
+                  <div key={index} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
+                    <span className={`px-2 py-1 rounded text-xs font-medium border ${getSentimentColor(chunk.sentiment)}`}>
+                      {chunk.sentiment.toUpperCase()}
+                    </span>
+                    <span className="text-sm text-gray-600 flex-1 truncate">{shown(chunk.text)}</span>
+                    <span className="text-sm text-gray-500">
+                      {(chunk.confidence * 100).toFixed(0)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Aspects */}
+          {result.aspects && result.aspects.length > 0 && (
+            <div className="mb-6">
+              <h4 className="font-medium text-gray-900 mb-3">Aspect Sentiment</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                {result.aspects.map((aspect) => (
+                  <div key={aspect.name} className={`p-3 rounded-lg border ${getSentimentColor(aspect.sentiment)}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{aspect.name}</span>
+                      <span className="text-xs capitalize">
+                        {aspect.sentiment} · {(aspect.score * 100).toFixed(0)}%
+                      </span>
+                    </div>
+                    <div className="text-xs opacity-80 mt-1 truncate">
+                      {aspect.mentions.length} mention{aspect.mentions.length === 1 ? '' : 's'}: {Array.from(new Set(aspect.mentions.map(m => m.term.toLowerCase()))).join(', ')}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Topics */}
+          {result.topics && (
+            <div className="mb-6">
+              <h4 className="font-medium text-gray-900 mb-3">Topics</h4>
+              {result.topics.labels.length === 0 ? (
+                <p className="text-sm text-gray-500">None of the workspace topics fit this text.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {result.topics.labels.map((topic) => (
+                    <span key={topic} className="px-3 py-1 rounded-full text-sm bg-teal-50 text-teal-700 border border-teal-200">
+                      {topic}
+                      <span className="ml-1 text-xs opacity-80">{(result.topics!.scores[topic] * 100).toFixed(0)}%</span>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-500 mt-2">
+                {result.topics.source === 'model' ? 'Zero-shot model' : 'Keyword rules'}
+              </p>
+            </div>
+          )}
+
+          {/* Entities */}
+          {result.entities && result.entities.length > 0 && (
+            <div className="mb-6">
+              <h4 className="font-medium text-gray-900 mb-3">Entities</h4>
+              <div className="flex flex-wrap gap-2">
+                {result.entities.map((entity) => (
+                  <span
+                    key={entity.id}
+                    className={`px-3 py-1 rounded-full text-sm border ${getSentimentColor(entity.sentiment)}`}
+                    title={`${entity.source === 'detected' ? 'Detected name' : entity.type} · ${entity.mentions.length} mention${entity.mentions.length === 1 ? '' : 's'}`}
+                  >
+                    {entity.name}
+                    <span className="ml-1 text-xs capitalize opacity-80">{entity.sentiment}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Keywords */}
           {result.keywords.length > 0 && (
             <div className="mb-6">
@@ -189,7 +505,7 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({
                     key={index}
                     className={`px-3 py-1 rounded-full text-sm font-medium ${getSentimentColor(keyword.sentiment)}`}
                   >
-                    {keyword.word}
+                    {shown(keyword.word)}
                   </span>
                 ))}
               </div>
@@ -200,15 +516,36 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({
           {result.explanation && (
             <div className="bg-emerald-50 rounded-lg p-4">
               <h4 className="font-medium text-emerald-900 mb-2">Analysis Explanation</h4>
-              <p className="text-emerald-800 text-sm">{result.explanation}</p>
+              <p className="text-emerald-800 text-sm">{shown(result.explanation)}</p>
+              {result.rules && result.rules.length > 0 && (
+                <ul className="mt-3 text-sm text-emerald-800 space-y-1">
+                  {result.rules.map((rule, index) => (
+                    <li key={index}>• {rule}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
 
+          {/* Token Attribution */}
+          <div className="mt-6">
+            <h4 className="font-medium text-gray-900 mb-2">Why This Prediction</h4>
+            <div className={result.attribution ? 'bg-gray-50 rounded-lg p-4' : ''}>
+              <AttributionPanel result={result} onExplain={handleExplain} />
+            </div>
+          </div>
+
           {/* Original Text */}
           <div className="mt-6 pt-6 border-t border-gray-200">
-            <h4 className="font-medium text-gray-900 mb-2">Analyzed Text</h4>
+            <h4 className="font-medium text-gray-900 mb-2">
+              {result.segments ? 'Sentence-Level Breakdown' : 'Analyzed Text'}
+            </h4>
             <div className="bg-gray-50 rounded-lg p-4">
-              <p className="text-gray-700 text-sm leading-relaxed">{result.text}</p>
+              {result.segments ? (
+                <SentenceHeatmap text={shown(result.text)} segments={result.segments} />
+              ) : (
+                <p className="text-gray-700 text-sm leading-relaxed">{shown(result.text)}</p>
+              )}
             </div>
           </div>
         </div>
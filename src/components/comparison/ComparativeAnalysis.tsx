@@ -17,13 +17,11 @@ import {
 import { SentimentResult } from '../../types/sentiment';
 
 interface ComparativeAnalysisProps {
-  onAnalyze: (text: string, useDemo?: boolean) => Promise<SentimentResult>;
-  hasApiKey: boolean;
+  onAnalyze: (text: string) => Promise<SentimentResult>;
 }
 
 export const ComparativeAnalysis: React.FC<ComparativeAnalysisProps> = ({ 
-  onAnalyze, 
-  hasApiKey 
+  onAnalyze 
 }) => {
   const [texts, setTexts] = useState<Array<{ id: string; text: string; label: string }>>([
     { id: '1', text: '', label: 'Text 1' },
@@ -56,7 +54,7 @@ export const ComparativeAnalysis: React.FC<ComparativeAnalysisProps> = ({
 
     try {
       const analysisPromises = validTexts.map(async (textItem) => {
-        const result = await onAnalyze(textItem.text.trim(), !hasApiKey);
+        const result = await onAnalyze(textItem.text.trim());
         return { ...result, customLabel: textItem.label };
       });
 
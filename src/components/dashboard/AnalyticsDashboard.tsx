@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   BarChart,
   Bar,
@@ -15,15 +15,81 @@ import {
   Area,
   AreaChart
 } from 'recharts';
-import { TrendingUp, BarChart3, PieChart as PieChartIcon, Calendar } from 'lucide-react';
-import { SentimentResult } from '../../types/sentiment';
+import { TrendingUp, BarChart3, PieChart as PieChartIcon, Calendar, Languages, Star, ShieldAlert, Folders } from 'lucide-react';
+import { SentimentResult, DetectedLanguage } from '../../types/sentiment';
+import { summarizeAspects } from '../../services/aspectAnalyzer';
+import { EMOTION_LABELS } from '../../services/emotionAnalyzer';
+import { TOXICITY_CATEGORIES, TOXICITY_CATEGORY_NAMES } from '../../services/toxicityAnalyzer';
+import { LANGUAGE_NAMES } from '../../services/languageDetector';
+import { modelRegistry } from '../../services/modelRegistry';
+import { DEFAULT_SCHEMA_ID, labelColor, labelsFromScores, projectLabelScores } from '../../services/labelSchemas';
+import { STAR_VALUES, isRatingMismatch } from '../../services/starRating';
+import { rankKeywords } from '../../services/keywordExtractor';
+import { useWorkspace } from '../../hooks/useWorkspace';
+import { useModelRegistry } from '../../hooks/useModelRegistry';
 import { format, startOfDay, subDays, eachDayOfInterval } from 'date-fns';
 
 interface AnalyticsDashboardProps {
   results: SentimentResult[];
 }
 
-export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ results }) => {
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ results: allResults }) => {
+  const [languageFilter, setLanguageFilter] = useState<DetectedLanguage | 'all'>('all');
+  const [topicFilter, setTopicFilter] = useState<string>('all');
+  const { workspace } = useWorkspace();
+  const { schemas } = useModelRegistry();
+  const schema = schemas.find(s => s.id === workspace.labelSchemaId) ?? modelRegistry.getSchema(DEFAULT_SCHEMA_ID);
+
+  // Results analyzed before language detection have no tag and count as unknown
+  const languageBreakdown = useMemo(() => {
+    const counts = new Map<DetectedLanguage, { positive: number; negative: number; neutral: number }>();
+    allResults.forEach(result => {
+      const language = result.language ?? 'unknown';
+      const row = counts.get(language) || { positive: 0, negative: 0, neutral: 0 };
+      row[result.sentiment]++;
+      counts.set(language, row);
+    });
+    return Array.from(counts.entries())
+      .map(([language, row]) => ({
+        language,
+        name: LANGUAGE_NAMES[language],
+        ...row,
+        total: row.positive + row.negative + row.neutral
+      }))
+      .sort((a, b) => b.total - a.total);
+  }, [allResults]);
+
+  const activeLanguage = languageBreakdown.some(row => row.language === languageFilter) ? languageFilter : 'all';
+  const languageResults = useMemo(
+    () => activeLanguage === 'all'
+      ? allResults
+      : allResults.filter(result => (result.language ?? 'unknown') === activeLanguage),
+    [allResults, activeLanguage]
+  );
+
+  // A text tagged with several topics counts toward each of them
+  const topicBreakdown = useMemo(() => {
+    const counts = new Map<string, { positive: number; negative: number; neutral: number }>();
+    languageResults.forEach(result => {
+      result.topics?.labels.forEach(topic => {
+        const row = counts.get(topic) || { positive: 0, negative: 0, neutral: 0 };
+        row[result.sentiment]++;
+        counts.set(topic, row);
+      });
+    });
+    return Array.from(counts.entries())
+      .map(([topic, row]) => ({ topic, ...row, total: row.positive + row.negative + row.neutral }))
+      .sort((a, b) => b.total - a.total);
+  }, [languageResults]);
+
+  const activeTopic = topicBreakdown.some(row => row.topic === topicFilter) ? topicFilter : 'all';
+  const results = useMemo(
+    () => activeTopic === 'all'
+      ? languageResults
+      : languageResults.filter(result => result.topics?.labels.includes(activeTopic)),
+    [languageResults, activeTopic]
+  );
+
   const analytics = useMemo(() => {
     if (!results.length) return null;
 
@@ -78,37 +144,80 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ results
         { positive: 0, negative: 0, neutral: 0 }
       );
 
+      const dayEmotions = Object.fromEntries(EMOTION_LABELS.map(emotion => [
+        emotion,
+        dayResults.filter(r => r.emotion?.label === emotion).length
+      ]));
+
+      const dayToxicity = Object.fromEntries(TOXICITY_CATEGORIES.map(category => [
+        category,
+        dayResults.filter(r => r.toxicity?.flagged.includes(category)).length
+      ]));
+
       return {
         date: format(date, 'MMM dd'),
         fullDate: date,
         positive: daySentiments.positive,
         negative: daySentiments.negative,
         neutral: daySentiments.neutral,
-        total: dayResults.length
+        total: dayResults.length,
+        toxic: dayResults.filter(r => r.toxicity?.toxic).length,
+        ...dayEmotions,
+        ...dayToxicity
       };
     });
 
-    // Top keywords
-    const keywordFrequency = new Map<string, { count: number; sentiment: string }>();
+    const hasEmotions = results.some(r => r.emotion);
+    const toxicityRated = results.filter(r => r.toxicity);
+    const toxicCount = toxicityRated.filter(r => r.toxicity!.toxic).length;
+
+    const topKeywords = rankKeywords(results);
+
+    // Aspect-by-sentiment matrix
+    const aspectMatrix = Object.entries(summarizeAspects(results))
+      .map(([aspect, counts]) => ({
+        aspect,
+        ...counts,
+        total: counts.positive + counts.negative + counts.neutral
+      }))
+      .sort((a, b) => b.total - a.total);
+
+    // Results from other schemas, or from before label schemas existed, are
+    // projected onto the workspace schema
+    const labelCounts = new Map(schema.labels.map(label => [label.id, 0]));
     results.forEach(result => {
-      result.keywords.forEach(keyword => {
-        const existing = keywordFrequency.get(keyword.word) || { count: 0, sentiment: keyword.sentiment };
-        existing.count++;
-        keywordFrequency.set(keyword.word, existing);
-      });
+      const labels = result.labels ?? labelsFromScores(result.scores);
+      const projected = projectLabelScores(labels, modelRegistry.getSchema(labels.schemaId), schema);
+      labelCounts.set(projected.label, (labelCounts.get(projected.label) || 0) + 1);
     });
+    const labelDistribution = schema.labels.map(label => ({
+      name: label.name,
+      count: labelCounts.get(label.id) || 0,
+      color: labelColor(label)
+    }));
 
-    const topKeywords = Array.from(keywordFrequency.entries())
-      .sort((a, b) => b[1].count - a[1].count)
-      .slice(0, 10)
-      .map(([word, data]) => ({
-        word,
-        count: data.count,
-        sentiment: data.sentiment
-      }));
+    // Predicted and given star ratings
+    const rated = results.filter(r => r.rating);
+    const starHistogram = STAR_VALUES.map(stars => ({
+      stars: `${stars}★`,
+      predicted: rated.filter(r => r.rating!.stars === stars).length,
+      actual: results.filter(r => r.actualRating !== undefined && Math.round(r.actualRating) === stars).length
+    }));
+    const ratingMismatches = results.filter(isRatingMismatch);
 
     return {
       sentimentCounts,
+      aspectMatrix,
+      labelDistribution,
+      starHistogram,
+      hasRatings: rated.length > 0 || results.some(r => r.actualRating !== undefined),
+      hasActualRatings: results.some(r => r.actualRating !== undefined),
+      averageExpectedRating: rated.length ? rated.reduce((sum, r) => sum + r.rating!.expected, 0) / rated.length : null,
+      ratingMismatches,
+      hasEmotions,
+      hasToxicity: toxicityRated.length > 0,
+      toxicShare: toxicityRated.length ? (toxicCount / toxicityRated.length) * 100 : 0,
+      toxicCount,
       sentimentPercentages,
       confidenceBySentiment,
       trendData,
@@ -116,7 +225,7 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ results
       totalResults,
       averageConfidence: results.reduce((sum, r) => sum + r.confidence, 0) / results.length
     };
-  }, [results]);
+  }, [results, schema]);
 
   if (!analytics) {
     return (
@@ -136,6 +245,24 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ results
     neutral: '#6B7280'
   };
 
+  const EMOTION_COLORS: Record<string, string> = {
+    joy: '#F59E0B',
+    anger: '#DC2626',
+    sadness: '#3B82F6',
+    fear: '#8B5CF6',
+    surprise: '#EC4899',
+    disgust: '#65A30D',
+    neutral: '#9CA3AF'
+  };
+
+  const TOXICITY_COLORS: Record<string, string> = {
+    obscene: '#F97316',
+    insult: '#DB2777',
+    threat: '#7C3AED',
+    identity_attack: '#0EA5E9',
+    severe_toxicity: '#111827'
+  };
+
   const pieData = [
     { name: 'Positive', value: analytics.sentimentCounts.positive, color: COLORS.positive },
     { name: 'Negative', value: analytics.sentimentCounts.negative, color: COLORS.negative },
@@ -155,6 +282,40 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ results
         <p className="text-gray-600">
           Comprehensive insights and trends from your sentiment analysis data.
         </p>
+        {(languageBreakdown.length > 1 || topicBreakdown.length > 0) && (
+          <div className="flex items-center justify-center space-x-4 mt-4">
+            {languageBreakdown.length > 1 && (
+              <div className="flex items-center space-x-2">
+                <Languages className="w-4 h-4 text-gray-500" />
+                <select
+                  value={activeLanguage}
+                  onChange={(e) => setLanguageFilter(e.target.value as DetectedLanguage | 'all')}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                >
+                  <option value="all">All Languages</option>
+                  {languageBreakdown.map(row => (
+                    <option key={row.language} value={row.language}>{row.name} ({row.total})</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {topicBreakdown.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <Folders className="w-4 h-4 text-gray-500" />
+                <select
+                  value={activeTopic}
+                  onChange={(e) => setTopicFilter(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                >
+                  <option value="all">All Topics</option>
+                  {topicBreakdown.map(row => (
+                    <option key={row.topic} value={row.topic}>{row.topic} ({row.total})</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Key Metrics */}
@@ -311,10 +472,244 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ results
         </div>
       </div>
 
+      {/* Emotion Trend */}
+      {analytics.hasEmotions && (
+        <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+          <div className="flex items-center space-x-2 mb-6">
+            <Calendar className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">7-Day Emotion Distribution</h3>
+          </div>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={analytics.trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis />
+                <Tooltip />
+                {EMOTION_LABELS.map((emotion) => (
+                  <Area
+                    key={emotion}
+                    type="monotone"
+                    dataKey={emotion}
+                    stackId="1"
+                    stroke={EMOTION_COLORS[emotion]}
+                    fill={EMOTION_COLORS[emotion]}
+                    fillOpacity={0.6}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Toxicity Trend */}
+      {analytics.hasToxicity && (
+        <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-2">
+              <ShieldAlert className="w-5 h-5 text-gray-600" />
+              <h3 className="text-lg font-semibold text-gray-900">7-Day Toxicity</h3>
+            </div>
+            <span className="text-sm text-gray-500">
+              {analytics.toxicCount} toxic ({analytics.toxicShare.toFixed(1)}% of rated texts)
+            </span>
+          </div>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={analytics.trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Line type="monotone" dataKey="toxic" name="Toxic texts" stroke="#B91C1C" strokeWidth={3} />
+                {TOXICITY_CATEGORIES.map(category => (
+                  <Line
+                    key={category}
+                    type="monotone"
+                    dataKey={category}
+                    name={TOXICITY_CATEGORY_NAMES[category]}
+                    stroke={TOXICITY_COLORS[category]}
+                    strokeDasharray="4 4"
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Star Ratings */}
+      {analytics.hasRatings && (
+        <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-2">
+              <Star className="w-5 h-5 text-amber-500" />
+              <h3 className="text-lg font-semibold text-gray-900">Star Ratings</h3>
+            </div>
+            {analytics.averageExpectedRating !== null && (
+              <span className="text-sm text-gray-500">
+                Average expected rating {analytics.averageExpectedRating.toFixed(2)}★
+              </span>
+            )}
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={analytics.starHistogram}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="stars" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="predicted" name="Predicted" fill="#F59E0B" />
+                {analytics.hasActualRatings && <Bar dataKey="actual" name="Given" fill="#6366F1" />}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {analytics.hasActualRatings && (
+            <div className="mt-6">
+              <h4 className="font-medium text-gray-900 mb-3">
+                Rating Mismatches ({analytics.ratingMismatches.length})
+              </h4>
+              {analytics.ratingMismatches.length === 0 ? (
+                <p className="text-sm text-gray-500">Every rated text agrees with its rating.</p>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {analytics.ratingMismatches.slice(0, 20).map((result) => (
+                    <div key={result.id} className="flex items-center space-x-3 p-3 bg-amber-50 rounded-lg text-sm">
+                      <span className="px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-800 whitespace-nowrap">
+                        given {result.actualRating}★
+                      </span>
+                      <span className="px-2 py-1 rounded text-xs font-medium bg-white text-gray-700 whitespace-nowrap capitalize">
+                        {result.rating ? `predicted ${result.rating.expected.toFixed(1)}★` : result.sentiment}
+                      </span>
+                      <span className="text-gray-600 flex-1 truncate">{result.text}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Label Distribution */}
+      {schema.id !== DEFAULT_SCHEMA_ID && (
+        <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold text-gray-900">Label Distribution</h3>
+            <span className="text-sm text-gray-500">{schema.name}</span>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={analytics.labelDistribution}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="count">
+                  {analytics.labelDistribution.map((entry) => (
+                    <Cell key={entry.name} fill={entry.color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Sentiment by Language */}
+      {languageBreakdown.length > 1 && (
+        <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+          <div className="flex items-center space-x-2 mb-6">
+            <Languages className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Sentiment by Language</h3>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={languageBreakdown}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="positive" stackId="language" fill={COLORS.positive} />
+                <Bar dataKey="neutral" stackId="language" fill={COLORS.neutral} />
+                <Bar dataKey="negative" stackId="language" fill={COLORS.negative} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Sentiment by Topic */}
+      {topicBreakdown.length > 0 && (
+        <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+          <div className="flex items-center space-x-2 mb-6">
+            <Folders className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Sentiment by Topic</h3>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={topicBreakdown}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="topic" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="positive" stackId="topic" fill={COLORS.positive} />
+                <Bar dataKey="neutral" stackId="topic" fill={COLORS.neutral} />
+                <Bar dataKey="negative" stackId="topic" fill={COLORS.negative} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Aspect Matrix */}
+      {analytics.aspectMatrix.length > 0 && (
+        <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+          <h3 className="text-lg font-semibold text-gray-900 mb-6">Aspect Sentiment Matrix</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-2 pr-4 font-medium">Aspect</th>
+                  <th className="py-2 px-4 font-medium text-center">Positive</th>
+                  <th className="py-2 px-4 font-medium text-center">Neutral</th>
+                  <th className="py-2 px-4 font-medium text-center">Negative</th>
+                  <th className="py-2 pl-4 font-medium text-center">Mentions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.aspectMatrix.map((row) => (
+                  <tr key={row.aspect} className="border-t border-gray-100">
+                    <td className="py-2 pr-4 font-medium text-gray-900">{row.aspect}</td>
+                    {(['positive', 'neutral', 'negative'] as const).map((sentiment) => (
+                      <td key={sentiment} className="py-2 px-4 text-center">
+                        <span
+                          className="inline-block w-16 py-1 rounded text-gray-900"
+                          style={{ backgroundColor: `${COLORS[sentiment]}${Math.round((row[sentiment] / row.total) * 200 + 20).toString(16).padStart(2, '0')}` }}
+                        >
+                          {row[sentiment]}
+                        </span>
+                      </td>
+                    ))}
+                    <td className="py-2 pl-4 text-center text-gray-600">{row.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Top Keywords */}
       {analytics.topKeywords.length > 0 && (
         <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
-          <h3 className="text-lg font-semibold text-gray-900 mb-6">Most Frequent Keywords</h3>
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Top Keywords</h3>
+          <p className="text-sm text-gray-500 mb-6">
+            Ranked by combined weight across results; color shows the average sentiment of the texts each appears in.
+          </p>
           <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
             {analytics.topKeywords.map((keyword, index) => (
               <div
@@ -326,7 +721,10 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ results
                 }`}
               >
                 <div className="font-medium">{keyword.word}</div>
-                <div className="text-sm opacity-75">{keyword.count} times</div>
+                <div className="text-sm opacity-75">
+                  {keyword.count} {keyword.count === 1 ? 'text' : 'texts'} · {keyword.association > 0 ? '+' : ''}
+                  {keyword.association.toFixed(2)}
+                </div>
               </div>
             ))}
           </div>
@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { Building2, TrendingUp } from 'lucide-react';
+import { SentimentResult, EntityType } from '../../types/sentiment';
+import { summarizeEntities } from '../../services/entityRecognizer';
+import { format, startOfDay, subDays, eachDayOfInterval, max } from 'date-fns';
+
+interface EntityExplorerProps {
+  results: SentimentResult[];
+}
+
+// Days shown at most in an entity's timeline
+const TIMELINE_DAYS = 90;
+
+const TYPE_LABELS: Record<EntityType | 'detected', string> = {
+  brand: 'Brand',
+  product: 'Product',
+  competitor: 'Competitor',
+  other: 'Other',
+  detected: 'Detected'
+};
+
+type EntityFilter = EntityType | 'detected' | 'all';
+
+export const EntityExplorer: React.FC<EntityExplorerProps> = ({ results }) => {
+  const [typeFilter, setTypeFilter] = useState<EntityFilter>('all');
+  const [sortBy, setSortBy] = useState<'volume' | 'net'>('volume');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const summaries = useMemo(() => summarizeEntities(results), [results]);
+
+  const ranked = useMemo(() => {
+    const filtered = summaries.filter(summary =>
+      typeFilter === 'all' ||
+      (typeFilter === 'detected' ? summary.source === 'detected' : summary.source === 'gazetteer' && summary.type === typeFilter)
+    );
+    return sortBy === 'net'
+      ? [...filtered].sort((a, b) => b.net - a.net || b.texts - a.texts)
+      : filtered;
+  }, [summaries, typeFilter, sortBy]);
+
+  const selected = summaries.find(summary => summary.id === selectedId) ?? ranked[0];
+
+  const timeline = useMemo(() => {
+    if (!selected) return [];
+    const mentions = results
+      .map(result => ({ result, entity: result.entities?.find(entity => entity.id === selected.id) }))
+      .filter(({ entity }) => entity);
+    if (mentions.length === 0) return [];
+
+    const today = startOfDay(new Date());
+    const first = startOfDay(new Date(Math.min(...mentions.map(({ result }) => new Date(result.timestamp).getTime()))));
+    return eachDayOfInterval({ start: max([first, subDays(today, TIMELINE_DAYS - 1)]), end: today }).map(day => {
+      const dayMentions = mentions.filter(({ result }) => startOfDay(new Date(result.timestamp)).getTime() === day.getTime());
+      const counts = { positive: 0, negative: 0, neutral: 0 };
+      dayMentions.forEach(({ entity }) => counts[entity!.sentiment]++);
+      return {
+        date: format(day, 'MMM dd'),
+        ...counts,
+        // Gaps rather than zeros on days without mentions
+        net: dayMentions.length > 0 ? ((counts.positive - counts.negative) / dayMentions.length) * 100 : null
+      };
+    });
+  }, [results, selected]);
+
+  const netColor = (net: number) =>
+    net > 0.1 ? 'text-emerald-600' : net < -0.1 ? 'text-red-600' : 'text-gray-600';
+
+  if (summaries.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Building2 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No Entities Yet</h3>
+        <p className="text-gray-600">
+          Add brands, products and competitors to track under Settings → Workspace, or turn on name detection,
+          then analyze some texts.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="text-center">
+        <div className="flex items-center justify-center space-x-3 mb-4">
+          <div className="w-12 h-12 bg-gradient-to-br from-emerald-500 to-teal-600 rounded-xl flex items-center justify-center">
+            <Building2 className="w-6 h-6 text-white" />
+          </div>
+          <h2 className="text-3xl font-bold text-gray-900">Entities</h2>
+        </div>
+        <p className="text-gray-600">
+          How often brands, products and competitors come up, and how people talk about them.
+        </p>
+      </div>
+
+      {/* Ranking */}
+      <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+          <h3 className="text-lg font-semibold text-gray-900">Entity Ranking</h3>
+          <div className="flex gap-3">
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as EntityFilter)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <option value="all">All Types</option>
+              {(Object.keys(TYPE_LABELS) as Array<keyof typeof TYPE_LABELS>).map(type => (
+                <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as 'volume' | 'net')}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <option value="volume">Most mentioned</option>
+              <option value="net">Most positive</option>
+            </select>
+          </div>
+        </div>
+
+        {ranked.length === 0 ? (
+          <p className="text-sm text-gray-500">No entities of this type have been mentioned.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-2 pr-4 font-medium">Entity</th>
+                  <th className="py-2 px-4 font-medium">Type</th>
+                  <th className="py-2 px-4 font-medium text-right">Texts</th>
+                  <th className="py-2 px-4 font-medium text-right">Mentions</th>
+                  <th className="py-2 px-4 font-medium">Sentiment</th>
+                  <th className="py-2 pl-4 font-medium text-right">Net</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ranked.map((summary) => (
+                  <tr
+                    key={summary.id}
+                    onClick={() => setSelectedId(summary.id)}
+                    className={`border-t border-gray-100 cursor-pointer transition-colors ${
+                      selected?.id === summary.id ? 'bg-emerald-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <td className="py-2 pr-4 font-medium text-gray-900">{summary.name}</td>
+                    <td className="py-2 px-4 text-gray-600">
+                      {TYPE_LABELS[summary.source === 'detected' ? 'detected' : summary.type]}
+                    </td>
+                    <td className="py-2 px-4 text-right text-gray-900">{summary.texts}</td>
+                    <td className="py-2 px-4 text-right text-gray-600">{summary.mentions}</td>
+                    <td className="py-2 px-4">
+                      <div className="flex h-2 w-32 rounded-full overflow-hidden bg-gray-100">
+                        <div className="bg-emerald-500" style={{ width: `${(summary.counts.positive / summary.texts) * 100}%` }} />
+                        <div className="bg-gray-400" style={{ width: `${(summary.counts.neutral / summary.texts) * 100}%` }} />
+                        <div className="bg-red-500" style={{ width: `${(summary.counts.negative / summary.texts) * 100}%` }} />
+                      </div>
+                    </td>
+                    <td className={`py-2 pl-4 text-right font-medium ${netColor(summary.net)}`}>
+                      {summary.net > 0 ? '+' : ''}{(summary.net * 100).toFixed(0)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Timeline */}
+      {selected && (
+        <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-2">
+              <TrendingUp className="w-5 h-5 text-gray-600" />
+              <h3 className="text-lg font-semibold text-gray-900">{selected.name} Over Time</h3>
+            </div>
+            <span className="text-sm text-gray-500">
+              Net sentiment: positive minus negative share of mentioning texts
+            </span>
+          </div>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={timeline}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis yAxisId="texts" orientation="right" allowDecimals={false} />
+                <YAxis yAxisId="net" domain={[-100, 100]} />
+                <Tooltip />
+                <Bar yAxisId="texts" dataKey="positive" name="Positive" stackId="sentiment" fill="#10B981" />
+                <Bar yAxisId="texts" dataKey="neutral" name="Neutral" stackId="sentiment" fill="#6B7280" />
+                <Bar yAxisId="texts" dataKey="negative" name="Negative" stackId="sentiment" fill="#EF4444" />
+                <Line yAxisId="net" type="monotone" dataKey="net" name="Net" stroke="#0D9488" strokeWidth={3} connectNulls />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Download, FileText, Calendar, Settings as SettingsIcon } from 'lucide-react';
-import { SentimentResult, BatchResult, ExportOptions } from '../../types/sentiment';
+import { SentimentResult, BatchResult, FailedBatchItem, ExportOptions } from '../../types/sentiment';
 import { exportService } from '../../services/exportService';
+import { settingsStore } from '../../services/settingsStore';
 import { format, subDays } from 'date-fns';
 
 interface ExportManagerProps {
@@ -14,7 +15,8 @@ export const ExportManager: React.FC<ExportManagerProps> = ({ results, batches }
     format: 'csv',
     includeKeywords: true,
     includeConfidence: true,
-    includeTimestamp: true
+    includeTimestamp: true,
+    maskOffensiveWords: settingsStore.get().maskOffensiveWords
   });
   const [selectedBatch, setSelectedBatch] = useState<string>('all');
   const [dateRange, setDateRange] = useState({
@@ -25,15 +27,22 @@ export const ExportManager: React.FC<ExportManagerProps> = ({ results, batches }
 
   const handleExport = () => {
     let dataToExport = results;
+    let batchesToExport = batches;
 
     // Filter by batch if selected
     if (selectedBatch !== 'all') {
       const batch = batches.find(b => b.id === selectedBatch);
       if (batch) {
         dataToExport = batch.results;
+        batchesToExport = [batch];
       }
     }
 
+    // Texts that failed in a batch are exported as rows with a failed status
+    const failures = batchesToExport.flatMap(batch =>
+      (batch.items ?? []).filter((item): item is FailedBatchItem => item.status === 'failed')
+    );
+
     // Apply date filter if enabled
     const options: ExportOptions = {
       ...exportOptions,
@@ -45,10 +54,10 @@ export const ExportManager: React.FC<ExportManagerProps> = ({ results, batches }
 
     switch (exportOptions.format) {
       case 'csv':
-        exportService.exportToCSV(dataToExport, options);
+        exportService.exportToCSV(dataToExport, options, failures);
         break;
       case 'json':
-        exportService.exportToJSON(dataToExport, options);
+        exportService.exportToJSON(dataToExport, options, failures);
         break;
       case 'pdf':
         exportService.exportToPDF(dataToExport, options);
@@ -179,6 +188,15 @@ export const ExportManager: React.FC<ExportManagerProps> = ({ results, batches }
                 />
                 <span className="text-sm text-gray-700">Include timestamps</span>
               </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={!!exportOptions.maskOffensiveWords}
+                  onChange={(e) => setExportOptions({ ...exportOptions, maskOffensiveWords: e.target.checked })}
+                  className="text-orange-600 focus:ring-orange-500"
+                />
+                <span className="text-sm text-gray-700">Mask offensive words</span>
+              </label>
             </div>
           </div>
         </div>
@@ -1,31 +1,56 @@
 import React, { useState } from 'react';
-import { History, Trash2, Download, Search, Filter, Calendar } from 'lucide-react';
-import { SentimentResult, BatchResult } from '../../types/sentiment';
+import { History, Trash2, Download, Search, Filter, Calendar, RotateCcw } from 'lucide-react';
+import { SentimentResult, BatchResult, ToxicityCategory } from '../../types/sentiment';
 import { format } from 'date-fns';
+import { modelRegistry } from '../../services/modelRegistry';
+import { DEFAULT_SCHEMA_ID } from '../../services/labelSchemas';
+import { AttributionPanel } from '../analysis/AttributionPanel';
+import { TOXICITY_CATEGORIES, TOXICITY_CATEGORY_NAMES, maskOffensiveWords } from '../../services/toxicityAnalyzer';
+import { useAnalysisSettings } from '../../hooks/useAnalysisSettings';
 
 interface AnalysisHistoryProps {
   results: SentimentResult[];
   batches: BatchResult[];
   onDeleteResult: (id: string) => void;
   onDeleteBatch: (id: string) => void;
+  onRetryFailed: (batch: BatchResult) => Promise<BatchResult>;
+  onExplain: (result: SentimentResult, onProgress?: (completed: number, total: number) => void) => Promise<SentimentResult>;
+  isLoading: boolean;
 }
 
 export const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({
   results,
   batches,
   onDeleteResult,
-  onDeleteBatch
+  onDeleteBatch,
+  onRetryFailed,
+  onExplain,
+  isLoading
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sentimentFilter, setSentimentFilter] = useState<string>('all');
+  const [toxicityFilter, setToxicityFilter] = useState<string>('all');
+  const [topicFilter, setTopicFilter] = useState<string>('all');
+  const { settings } = useAnalysisSettings();
+  const shown = (value: string) => (settings.maskOffensiveWords ? maskOffensiveWords(value) : value);
   const [activeTab, setActiveTab] = useState<'individual' | 'batches'>('individual');
 
   const filteredResults = results.filter(result => {
     const matchesSearch = result.text.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesSentiment = sentimentFilter === 'all' || result.sentiment === sentimentFilter;
-    return matchesSearch && matchesSentiment;
+    const matchesSentiment = sentimentFilter === 'all' ||
+      (sentimentFilter === 'review' ? !!result.ensemble?.needsReview : result.sentiment === sentimentFilter);
+    const matchesToxicity = toxicityFilter === 'all' ||
+      (toxicityFilter === 'toxic' ? !!result.toxicity?.toxic :
+        toxicityFilter === 'clean' ? !result.toxicity?.toxic :
+          !!result.toxicity?.flagged.includes(toxicityFilter as ToxicityCategory));
+    const matchesTopic = topicFilter === 'all' ||
+      (topicFilter === 'none' ? !result.topics?.labels.length : !!result.topics?.labels.includes(topicFilter));
+    return matchesSearch && matchesSentiment && matchesToxicity && matchesTopic;
   });
 
+  // Topics the results were tagged with, including ones since removed from the workspace
+  const topicNames = Array.from(new Set(results.flatMap(result => result.topics?.labels ?? []))).sort();
+
   const filteredBatches = batches.filter(batch => 
     batch.name.toLowerCase().includes(searchTerm.toLowerCase())
   );
@@ -110,7 +135,33 @@ export const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({
               <option value="positive">Positive</option>
               <option value="negative">Negative</option>
               <option value="neutral">Neutral</option>
+              <option value="review">Needs Review</option>
+            </select>
+            <select
+              value={toxicityFilter}
+              onChange={(e) => setToxicityFilter(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="all">Any Toxicity</option>
+              <option value="toxic">Toxic</option>
+              <option value="clean">Not Toxic</option>
+              {TOXICITY_CATEGORIES.map(category => (
+                <option key={category} value={category}>{TOXICITY_CATEGORY_NAMES[category]}</option>
+              ))}
             </select>
+            {topicNames.length > 0 && (
+              <select
+                value={topicFilter}
+                onChange={(e) => setTopicFilter(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="all">Any Topic</option>
+                <option value="none">No Topic</option>
+                {topicNames.map(topic => (
+                  <option key={topic} value={topic}>{topic}</option>
+                ))}
+              </select>
+            )}
           </div>
         )}
       </div>
@@ -142,6 +193,39 @@ export const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({
                     <span className="text-sm text-gray-500">
                       {(result.confidence * 100).toFixed(1)}% confidence
                     </span>
+                    {result.labels && result.labels.schemaId !== DEFAULT_SCHEMA_ID && (
+                      <span className="px-2 py-1 rounded text-xs bg-emerald-50 text-emerald-700">
+                        {modelRegistry.labelName(result.labels)}
+                      </span>
+                    )}
+                    {result.chunks && result.chunks.length > 1 && (
+                      <span className="px-2 py-1 rounded text-xs bg-blue-50 text-blue-700">
+                        {result.chunks.length} chunks
+                      </span>
+                    )}
+                    {result.language && result.language !== 'unknown' && (
+                      <span className="px-2 py-1 rounded text-xs bg-sky-50 text-sky-700 uppercase">{result.language}</span>
+                    )}
+                    {result.cached && (
+                      <span className="px-2 py-1 rounded text-xs bg-indigo-50 text-indigo-700">cached</span>
+                    )}
+                    {result.lexiconVersion !== undefined && (
+                      <span className="px-2 py-1 rounded text-xs bg-gray-100 text-gray-600">lexicon v{result.lexiconVersion}</span>
+                    )}
+                    {result.toxicity?.toxic && (
+                      <span className="px-2 py-1 rounded text-xs bg-red-50 text-red-700">
+                        toxic{result.toxicity.flagged.length > 0 &&
+                          ` · ${result.toxicity.flagged.map(category => TOXICITY_CATEGORY_NAMES[category].toLowerCase()).join(', ')}`}
+                      </span>
+                    )}
+                    {result.topics?.labels.map(topic => (
+                      <span key={topic} className="px-2 py-1 rounded text-xs bg-teal-50 text-teal-700">{topic}</span>
+                    ))}
+                    {result.ensemble?.needsReview && (
+                      <span className="px-2 py-1 rounded text-xs bg-amber-50 text-amber-700">
+                        review · {(result.ensemble.agreement * 100).toFixed(0)}% agree
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center space-x-2">
                     <span className="text-sm text-gray-500">
@@ -156,7 +240,13 @@ export const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({
                   </div>
                 </div>
 
-                <p className="text-gray-800 mb-4 leading-relaxed">{result.text}</p>
+                {result.attribution ? (
+                  <div className="mb-4">
+                    <AttributionPanel result={result} onExplain={onExplain} />
+                  </div>
+                ) : (
+                  <p className="text-gray-800 mb-4 leading-relaxed">{shown(result.text)}</p>
+                )}
 
                 {result.keywords.length > 0 && (
                   <div className="flex flex-wrap gap-2 mb-4">
@@ -165,7 +255,7 @@ export const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({
                         key={index}
                         className={`px-2 py-1 rounded text-xs ${getSentimentBadgeColor(keyword.sentiment)}`}
                       >
-                        {keyword.word}
+                        {shown(keyword.word)}
                       </span>
                     ))}
                   </div>
@@ -173,7 +263,13 @@ export const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({
 
                 {result.explanation && (
                   <div className="bg-emerald-50 rounded-lg p-3">
-                    <p className="text-emerald-800 text-sm">{result.explanation}</p>
+                    <p className="text-emerald-800 text-sm">{shown(result.explanation)}</p>
+                  </div>
+                )}
+
+                {!result.attribution && (
+                  <div className="mt-3">
+                    <AttributionPanel result={result} onExplain={onExplain} />
                   </div>
                 )}
               </div>
@@ -200,17 +296,41 @@ export const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({
               <div key={batch.id} className="bg-white border border-gray-200 rounded-xl p-6 shadow-sm">
                 <div className="flex items-start justify-between mb-4">
                   <div>
-                    <h3 className="text-lg font-semibold text-gray-900">{batch.name}</h3>
+                    <div className="flex items-center space-x-2">
+                      <h3 className="text-lg font-semibold text-gray-900">{batch.name}</h3>
+                      {!!batch.summary.failedCount && (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          {batch.summary.failedCount} failed
+                        </span>
+                      )}
+                      {batch.partial && (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          Partial · {batch.summary.totalTexts}/{batch.requestedTexts}
+                        </span>
+                      )}
+                    </div>
                     <p className="text-sm text-gray-500">
                       {format(batch.createdAt, 'MMM dd, yyyy HH:mm')}
                     </p>
                   </div>
-                  <button
-                    onClick={() => onDeleteBatch(batch.id)}
-                    className="p-1 text-gray-400 hover:text-red-600 transition-colors"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  <div className="flex items-center space-x-2">
+                    {!!batch.summary.failedCount && (
+                      <button
+                        onClick={() => onRetryFailed(batch).catch(() => undefined)}
+                        disabled={isLoading}
+                        className="text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50 flex items-center space-x-1"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        <span>Retry failed items</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onDeleteBatch(batch.id)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
 
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
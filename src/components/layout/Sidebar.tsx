@@ -8,7 +8,8 @@ import {
   Upload,
   Brain,
   Home,
-  Globe
+  Globe,
+  Building2
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -51,6 +52,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
       description: 'View insights and trends',
       badge: resultCount > 0 ? resultCount : undefined
     },
+    {
+      id: 'entities',
+      label: 'Entities',
+      icon: Building2,
+      description: 'Brands, products and competitors'
+    },
     {
       id: 'history',
       label: 'Analysis History',
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { analysisCache } from '../../services/analysisCache';
+import { useAnalysisCache } from '../../hooks/useAnalysisCache';
+import { useAnalysisSettings } from '../../hooks/useAnalysisSettings';
+
+export const CacheSettings: React.FC = () => {
+  const { entries, hits, misses } = useAnalysisCache();
+  const { settings, updateSettings } = useAnalysisSettings();
+  const [clearError, setClearError] = useState('');
+  const lookups = hits + misses;
+
+  const handleClear = async () => {
+    setClearError('');
+    try {
+      await analysisCache.clear();
+    } catch (error) {
+      setClearError(error instanceof Error ? error.message : 'Failed to clear the cache');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+      <div className="flex items-center space-x-3 mb-6">
+        <Database className="w-6 h-6 text-emerald-600" />
+        <h3 className="text-xl font-semibold text-gray-900">Result Cache</h3>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Hugging Face scores are stored in this browser and reused for texts analyzed before with the same model,
+        so duplicate rows and re-run batches cost no requests. Reused results are marked as cached.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-50 rounded-lg p-4">
+          <div className="text-2xl font-bold text-gray-900">{entries}</div>
+          <div className="text-sm text-gray-600">Stored texts</div>
+        </div>
+        <div className="bg-emerald-50 rounded-lg p-4">
+          <div className="text-2xl font-bold text-emerald-600">{hits}</div>
+          <div className="text-sm text-emerald-600">Hits this session</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <div className="text-2xl font-bold text-gray-600">{misses}</div>
+          <div className="text-sm text-gray-600">Misses this session</div>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-4">
+          <div className="text-2xl font-bold text-blue-600">
+            {lookups ? `${((hits / lookups) * 100).toFixed(0)}%` : '–'}
+          </div>
+          <div className="text-sm text-blue-600">Hit rate</div>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1">
+          <label htmlFor="cache-max-entries" className="block text-sm font-medium text-gray-700 mb-2">
+            Maximum Stored Texts
+          </label>
+          <input
+            id="cache-max-entries"
+            type="number"
+            min={100}
+            step={100}
+            value={settings.cacheMaxEntries}
+            onChange={(e) => updateSettings({ cacheMaxEntries: Math.max(100, Number(e.target.value) || 100) })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+        </div>
+        <button
+          onClick={handleClear}
+          disabled={entries === 0}
+          className="px-4 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Trash2 className="w-4 h-4" />
+          <span>Clear Cache</span>
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mt-2">
+        When the cache is full, the texts used least recently are removed first.
+      </p>
+      {clearError && <p className="text-sm text-red-600 mt-2">{clearError}</p>}
+    </div>
+  );
+};
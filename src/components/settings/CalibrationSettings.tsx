@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import { Gauge, Upload, Loader2, Trash2, CheckCircle2 } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import Papa from 'papaparse';
+import { Calibration, CalibrationMethod } from '../../types/calibration';
+import { calibrationStore } from '../../services/calibrationStore';
+import { fitCalibrations, CalibrationFit, LabelledText, MIN_CALIBRATION_SAMPLES } from '../../services/calibrationFitter';
+import { guessSentimentLabel } from '../../services/modelRegistry';
+import { useCalibrations } from '../../hooks/useCalibrations';
+import { useSentimentProvider } from '../../hooks/useSentimentProvider';
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const ReliabilityDiagram: React.FC<{ calibration: Calibration }> = ({ calibration }) => {
+  const data = calibration.binsBefore.map((bin, i) => ({
+    bin: `${Math.round(bin.lower * 100)}–${Math.round(bin.upper * 100)}%`,
+    perfect: ((bin.lower + bin.upper) / 2) * 100,
+    before: calibration.binsBefore[i].count ? calibration.binsBefore[i].accuracy * 100 : null,
+    after: calibration.binsAfter[i]?.count ? calibration.binsAfter[i].accuracy * 100 : null
+  }));
+
+  return (
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="bin" tick={{ fontSize: 11 }} />
+          <YAxis domain={[0, 100]} unit="%" />
+          <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+          <Legend />
+          <Bar dataKey="before" name="Accuracy (raw)" fill="#D1D5DB" />
+          <Bar dataKey="after" name="Accuracy (calibrated)" fill="#10B981" />
+          <Line dataKey="perfect" name="Perfect calibration" stroke="#6B7280" strokeDasharray="4 4" dot={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const CalibrationSummary: React.FC<{ calibration: Calibration; onDelete?: () => void }> = ({ calibration, onDelete }) => (
+  <div className="border border-gray-200 rounded-lg p-4">
+    <div className="flex items-start justify-between gap-3 mb-3">
+      <div className="min-w-0">
+        <div className="font-medium text-gray-900 break-all">{calibration.modelId}</div>
+        <div className="text-xs text-gray-500">
+          {calibration.method === 'temperature'
+            ? `Temperature scaling, T = ${calibration.temperature?.toFixed(2)}`
+            : 'Isotonic regression'}
+          {' · '}{calibration.sampleSize} labelled texts · {new Date(calibration.fittedAt).toLocaleDateString()}
+        </div>
+      </div>
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          className="p-2 text-gray-400 hover:text-red-600 transition-colors flex-shrink-0"
+          aria-label={`Remove calibration for ${calibration.modelId}`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-sm">
+      <div className="bg-gray-50 rounded-lg p-3">
+        <div className="font-semibold text-gray-900">{percent(calibration.accuracy)}</div>
+        <div className="text-gray-600">Accuracy</div>
+      </div>
+      <div className="bg-gray-50 rounded-lg p-3">
+        <div className="font-semibold text-gray-900">
+          {percent(calibration.eceBefore)} → {percent(calibration.eceAfter)}
+        </div>
+        <div className="text-gray-600">Calibration error (ECE)</div>
+      </div>
+      <div className="bg-emerald-50 rounded-lg p-3">
+        <div className="font-semibold text-emerald-700">
+          {calibration.thresholds.high >= 1 ? 'never' : `≥ ${percent(calibration.thresholds.high)}`}
+        </div>
+        <div className="text-emerald-700">High confidence</div>
+      </div>
+      <div className="bg-amber-50 rounded-lg p-3">
+        <div className="font-semibold text-amber-700">
+          {calibration.thresholds.moderate >= 1 ? 'never' : `≥ ${percent(calibration.thresholds.moderate)}`}
+        </div>
+        <div className="text-amber-700">Moderate confidence</div>
+      </div>
+    </div>
+    <ReliabilityDiagram calibration={calibration} />
+  </div>
+);
+
+export const CalibrationSettings: React.FC = () => {
+  const calibrations = useCalibrations();
+  const { provider } = useSentimentProvider();
+  const [samples, setSamples] = useState<LabelledText[]>([]);
+  const [unlabelled, setUnlabelled] = useState(0);
+  const [method, setMethod] = useState<CalibrationMethod>('temperature');
+  const [isFitting, setIsFitting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [fit, setFit] = useState<CalibrationFit | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFit(null);
+    setError('');
+
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => {
+        const fields = results.meta.fields ?? [];
+        const textColumn = fields.find(field => /text|comment|review/i.test(field)) ?? fields[0];
+        const labelColumn = fields.find(field => field !== textColumn && /label|sentiment|class/i.test(field));
+        if (!textColumn || !labelColumn) {
+          setSamples([]);
+          setError('The CSV needs a text column and a label column (e.g. "text" and "label").');
+          return;
+        }
+
+        const rows = results.data.filter(row => row[textColumn]?.trim());
+        const labelled = rows.flatMap(row => {
+          const label = guessSentimentLabel(row[labelColumn] ?? '');
+          return label ? [{ text: row[textColumn], label }] : [];
+        });
+        setSamples(labelled);
+        setUnlabelled(rows.length - labelled.length);
+      }
+    });
+    event.target.value = '';
+  };
+
+  const handleFit = async () => {
+    setIsFitting(true);
+    setProgress(0);
+    setError('');
+    try {
+      setFit(await fitCalibrations(provider, samples, method, {
+        onProgress: (completed, total) => setProgress((completed / total) * 100)
+      }));
+    } catch (fitError) {
+      setError(fitError instanceof Error ? fitError.message : 'Calibration failed');
+    } finally {
+      setIsFitting(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!fit) return;
+    calibrationStore.save(fit.calibrations);
+    setFit(null);
+    setSamples([]);
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+      <div className="flex items-center space-x-3 mb-6">
+        <Gauge className="w-6 h-6 text-emerald-600" />
+        <h3 className="text-xl font-semibold text-gray-900">Confidence Calibration</h3>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        A model's raw top score says little about how often it is right. Upload a CSV of texts with their true
+        sentiment (positive, negative or neutral) to fit a calibration for each model that scores them. Calibrated
+        scores are applied to every later result from that model, and "high" and "moderate" confidence then mean
+        right at least 90% and 70% of the time on your sample. At least {MIN_CALIBRATION_SAMPLES} texts per model
+        are needed; errors are measured on the same sample.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <input ref={fileInputRef} type="file" accept=".csv" onChange={handleFileUpload} className="hidden" />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isFitting}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center justify-center space-x-2"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Upload Labelled CSV</span>
+        </button>
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as CalibrationMethod)}
+          disabled={isFitting}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          <option value="temperature">Temperature scaling</option>
+          <option value="isotonic">Isotonic regression</option>
+        </select>
+        <button
+          onClick={handleFit}
+          disabled={isFitting || samples.length < MIN_CALIBRATION_SAMPLES}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+        >
+          {isFitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Gauge className="w-4 h-4" />}
+          <span>{isFitting ? `Scoring ${Math.round(progress)}%` : `Fit with ${provider.name}`}</span>
+        </button>
+      </div>
+
+      {samples.length > 0 && (
+        <p className="text-sm text-gray-600 mb-4">
+          {samples.length} labelled texts loaded
+          {unlabelled > 0 && `; ${unlabelled} rows skipped because their label was not recognized`}.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {fit && (
+        <div className="space-y-4 mb-6">
+          {fit.skipped.map(({ modelId, count }) => (
+            <p key={modelId} className="text-sm text-amber-700">
+              {modelId} scored only {count} of the texts and was not calibrated.
+            </p>
+          ))}
+          {fit.calibrations.map(calibration => (
+            <CalibrationSummary key={calibration.modelId} calibration={calibration} />
+          ))}
+          {fit.calibrations.length > 0 && (
+            <div className="flex gap-3">
+              <button
+                onClick={handleApply}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors flex items-center space-x-2"
+              >
+                <CheckCircle2 className="w-4 h-4" />
+                <span>Apply to Future Results</span>
+              </button>
+              <button
+                onClick={() => setFit(null)}
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <h4 className="font-medium text-gray-900 mb-3">Active Calibrations</h4>
+      {calibrations.length === 0 ? (
+        <p className="text-sm text-gray-500">No model is calibrated; confidence levels use fixed 80% and 60% cut-offs.</p>
+      ) : (
+        <div className="space-y-4">
+          {calibrations.map(calibration => (
+            <CalibrationSummary
+              key={calibration.modelId}
+              calibration={calibration}
+              onDelete={() => calibrationStore.delete(calibration.modelId)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { LockKeyhole, Lock, Unlock, Trash2, AlertCircle, Loader2 } from 'lucide-react';
+import { credentialStore, MIN_PASSPHRASE_LENGTH } from '../../services/credentialStore';
+import { providerRegistry } from '../../services/providerRegistry';
+import { useCredentials } from '../../hooks/useCredentials';
+
+const errorText = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Also shown above every page while stored credentials are locked
+export const UnlockForm: React.FC = () => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError('');
+    try {
+      await credentialStore.unlock(passphrase);
+      setPassphrase('');
+    } catch (unlockError) {
+      setError(errorText(unlockError, 'Unlocking failed'));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleUnlock} className="space-y-2">
+      <div className="flex gap-3">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+          <span>Unlock</span>
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+};
+
+export const CredentialSettings: React.FC = () => {
+  const { status, providerIds, plaintextRemoved } = useCredentials();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [confirmingReset, setConfirmingReset] = useState(false);
+  const [error, setError] = useState('');
+
+  const providerName = (id: string) => providerRegistry.get(id)?.name ?? id;
+
+  const handleCreate = async () => {
+    if (passphrase !== confirmation) {
+      setError('The passphrases do not match.');
+      return;
+    }
+    setIsCreating(true);
+    setError('');
+    try {
+      await credentialStore.create(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (createError) {
+      setError(errorText(createError, 'Setting up credential storage failed'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleReset = () => {
+    credentialStore.reset();
+    setConfirmingReset(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <LockKeyhole className="w-6 h-6 text-emerald-600" />
+          <h3 className="text-xl font-semibold text-gray-900">Credential Storage</h3>
+        </div>
+        <span className={`px-2 py-1 rounded text-xs font-medium ${
+          status === 'unlocked' ? 'bg-emerald-100 text-emerald-800'
+            : status === 'locked' ? 'bg-yellow-100 text-yellow-800'
+              : 'bg-gray-100 text-gray-600'
+        }`}>
+          {status === 'unlocked' ? 'Unlocked' : status === 'locked' ? 'Locked' : 'Not set up'}
+        </span>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        API keys and tokens are encrypted in this browser with a key derived from your passphrase (AES-GCM,
+        PBKDF2-SHA-256). The passphrase is never stored, so credentials stay locked after a reload until you
+        unlock them; providers that need one fall back to the Lexicon Engine meanwhile.
+      </p>
+
+      {plaintextRemoved && (
+        <div className="flex items-start justify-between gap-3 text-yellow-800 bg-yellow-50 p-3 rounded-lg mb-4 text-sm">
+          <div className="flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span>
+              A key an earlier version kept unencrypted in this browser was deleted. Enter it again below to store it
+              encrypted, and revoke it with the issuer if others could have read it.
+            </span>
+          </div>
+          <button
+            onClick={() => credentialStore.dismissPlaintextNotice()}
+            className="text-yellow-900 hover:underline flex-shrink-0"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {status === 'empty' && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={`New passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+              autoComplete="new-password"
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="Repeat passphrase"
+              autoComplete="new-password"
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={passphrase.length < MIN_PASSPHRASE_LENGTH || !confirmation || isCreating}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <LockKeyhole className="w-4 h-4" />}
+            <span>Set Up Credential Storage</span>
+          </button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+
+      {status === 'locked' && <UnlockForm />}
+
+      {status !== 'empty' && (
+        <div className="mt-4 space-y-2">
+          {providerIds.length === 0 ? (
+            <p className="text-sm text-gray-500">No credentials stored yet.</p>
+          ) : (
+            providerIds.map(id => (
+              <div key={id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <span className="font-medium text-gray-900">{providerName(id)}</span>
+                <button
+                  onClick={() => credentialStore.remove(id)}
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Delete credential"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {status !== 'empty' && (
+        <div className="flex flex-wrap items-center gap-3 mt-4">
+          {status === 'unlocked' && (
+            <button
+              onClick={() => credentialStore.lock()}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors flex items-center space-x-2"
+            >
+              <Lock className="w-4 h-4" />
+              <span>Lock Now</span>
+            </button>
+          )}
+          {confirmingReset ? (
+            <div className="flex items-center gap-3 text-sm text-red-700">
+              <span>Delete every stored credential and the passphrase?</span>
+              <button
+                onClick={handleReset}
+                className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+              >
+                Reset
+              </button>
+              <button
+                onClick={() => setConfirmingReset(false)}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmingReset(true)}
+              className="text-sm text-gray-500 hover:text-red-600"
+            >
+              Forgot the passphrase? Reset credential storage
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Save } from 'lucide-react';
+import { ensembleService, EnsembleConfig } from '../../services/ensembleService';
+import { providerRegistry } from '../../services/providerRegistry';
+import { EnsembleStrategy } from '../../types/sentiment';
+
+export const EnsembleSettings: React.FC = () => {
+  const [config, setConfig] = useState<EnsembleConfig>(ensembleService.getConfig());
+  const [saved, setSaved] = useState(false);
+
+  const update = (changes: Partial<EnsembleConfig>) => {
+    setConfig({ ...config, ...changes });
+    setSaved(false);
+  };
+
+  const updateMember = (index: number, changes: Partial<EnsembleConfig['models'][number]>) => {
+    update({ models: config.models.map((member, i) => (i === index ? { ...member, ...changes } : member)) });
+  };
+
+  const handleSave = () => {
+    ensembleService.setConfig({
+      ...config,
+      models: config.models.map(member => ({ ...member, modelId: member.modelId.trim() }))
+    });
+    providerRegistry.notifyChange();
+    setSaved(true);
+  };
+
+  const activeCount = config.models.filter(member => member.modelId.trim() && member.weight > 0).length;
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="space-y-3">
+        {config.models.map((member, index) => (
+          <div key={index} className="flex items-end gap-3">
+            <div className="flex-1">
+              <label htmlFor={`ensemble-model-${index}`} className="block text-sm font-medium text-gray-700 mb-2">
+                Model {index + 1}
+              </label>
+              <input
+                id={`ensemble-model-${index}`}
+                type="text"
+                value={member.modelId}
+                onChange={(e) => updateMember(index, { modelId: e.target.value })}
+                placeholder="owner/model-name"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+            <div className="w-28">
+              <label htmlFor={`ensemble-weight-${index}`} className="block text-sm font-medium text-gray-700 mb-2">
+                Weight
+              </label>
+              <input
+                id={`ensemble-weight-${index}`}
+                type="number"
+                min={0}
+                step={0.1}
+                value={member.weight}
+                onChange={(e) => updateMember(index, { weight: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+            <button
+              onClick={() => update({ models: config.models.filter((_, i) => i !== index) })}
+              className="p-3 text-gray-500 hover:text-red-600 transition-colors"
+              aria-label={`Remove model ${index + 1}`}
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({ models: [...config.models, { modelId: '', weight: 1 }] })}
+          className="text-sm text-emerald-600 hover:text-emerald-700 flex items-center space-x-1"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add model</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="ensemble-strategy" className="block text-sm font-medium text-gray-700 mb-2">
+            Combination
+          </label>
+          <select
+            id="ensemble-strategy"
+            value={config.strategy}
+            onChange={(e) => update({ strategy: e.target.value as EnsembleStrategy })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            <option value="weighted-average">Weighted average of scores</option>
+            <option value="majority-vote">Weighted majority vote</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="ensemble-threshold" className="block text-sm font-medium text-gray-700 mb-2">
+            Review Below Agreement (%)
+          </label>
+          <input
+            id="ensemble-threshold"
+            type="number"
+            min={0}
+            max={100}
+            value={Math.round(config.reviewThreshold * 100)}
+            onChange={(e) => update({ reviewThreshold: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={handleSave}
+          disabled={activeCount < 2}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Save className="w-4 h-4" />
+          <span>Save Ensemble</span>
+        </button>
+        {saved && <span className="text-sm text-emerald-600">Saved</span>}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Every text is classified by each model using your Hugging Face API key. Agreement is the share of model
+        weight that picked the final label; results below the review threshold are flagged for a second look.
+        At least two models with a weight above zero are needed.
+      </p>
+    </div>
+  );
+};
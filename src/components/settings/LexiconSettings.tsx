@@ -0,0 +1,186 @@
+import React, { useRef, useState } from 'react';
+import { BookOpen, Plus, Trash2, Upload, Download } from 'lucide-react';
+import Papa from 'papaparse';
+import { workspaceStore } from '../../services/workspaceStore';
+import { exportService } from '../../services/exportService';
+import { useWorkspace } from '../../hooks/useWorkspace';
+import { CustomLexiconEntry } from '../../types/workspace';
+
+const MAX_VALENCE = 4;
+
+const clampValence = (value: number) => Math.max(-MAX_VALENCE, Math.min(MAX_VALENCE, value));
+
+const createEntry = (term: string, valence: number): CustomLexiconEntry => ({
+  id: `term_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  term: term.trim(),
+  valence: clampValence(valence)
+});
+
+// Imported terms replace existing entries with the same term
+const mergeEntries = (existing: CustomLexiconEntry[], added: CustomLexiconEntry[]): CustomLexiconEntry[] => {
+  const addedTerms = new Set(added.map(entry => entry.term.toLowerCase()));
+  return [...existing.filter(entry => !addedTerms.has(entry.term.toLowerCase())), ...added];
+};
+
+export const LexiconSettings: React.FC = () => {
+  const { workspace } = useWorkspace();
+  const [newTerm, setNewTerm] = useState('');
+  const [newValence, setNewValence] = useState(-2);
+  const [importMessage, setImportMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const lexicon = workspace.lexicon;
+  const entries = lexicon?.entries ?? [];
+
+  const handleAdd = () => {
+    if (!newTerm.trim()) return;
+    workspaceStore.setLexiconEntries(mergeEntries(entries, [createEntry(newTerm, newValence)]));
+    setNewTerm('');
+  };
+
+  const handleUpdateValence = (id: string, value: number) => {
+    const entry = entries.find(e => e.id === id);
+    if (!entry || entry.valence === clampValence(value)) return;
+    workspaceStore.setLexiconEntries(entries.map(e => (e.id === id ? { ...e, valence: clampValence(value) } : e)));
+  };
+
+  const handleRemove = (id: string) => {
+    workspaceStore.setLexiconEntries(entries.filter(e => e.id !== id));
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => {
+        const fields = results.meta.fields ?? [];
+        const termColumn = fields.find(field => /term|word|phrase/i.test(field)) ?? fields[0];
+        const valenceColumn = fields.find(field => field !== termColumn && /valence|weight|score/i.test(field));
+        if (!termColumn || !valenceColumn) {
+          setImportMessage('The CSV needs a term column and a valence column.');
+          return;
+        }
+
+        const imported = results.data.flatMap(row => {
+          const valence = Number(row[valenceColumn]);
+          return row[termColumn]?.trim() && Number.isFinite(valence) ? [createEntry(row[termColumn], valence)] : [];
+        });
+        if (imported.length > 0) {
+          workspaceStore.setLexiconEntries(mergeEntries(entries, imported));
+        }
+        setImportMessage(`Imported ${imported.length} of ${results.data.length} rows.`);
+      }
+    });
+    event.target.value = '';
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <BookOpen className="w-6 h-6 text-emerald-600" />
+          <h3 className="text-xl font-semibold text-gray-900">Domain Lexicon</h3>
+        </div>
+        {lexicon && (
+          <span className="text-sm text-gray-500">
+            Version {lexicon.version} · {new Date(lexicon.updatedAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Words and phrases that carry sentiment in {workspace.name}'s domain, such as "lag", "crash" or "no refund".
+        They are reported as keywords by every provider and scored by the lexicon engine, overriding its built-in
+        word list. Valence runs from -4 (very negative) to +4 (very positive); 0 stops a built-in word from
+        counting. Every change creates a new version, and results record the version they were analyzed with.
+      </p>
+
+      <div className="space-y-2 mb-4 max-h-80 overflow-y-auto">
+        {entries.length === 0 && (
+          <p className="text-sm text-gray-500">No domain terms defined for this workspace yet.</p>
+        )}
+        {entries.map((entry) => (
+          <div key={entry.id} className="flex items-center gap-3">
+            <span className="flex-1 font-medium text-gray-900 truncate">{entry.term}</span>
+            <input
+              type="number"
+              min={-MAX_VALENCE}
+              max={MAX_VALENCE}
+              step={0.5}
+              defaultValue={entry.valence}
+              onBlur={(e) => handleUpdateValence(entry.id, Number(e.target.value) || 0)}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              aria-label={`Valence of ${entry.term}`}
+            />
+            <span
+              className={`w-20 text-xs font-medium ${
+                entry.valence > 0 ? 'text-emerald-700' : entry.valence < 0 ? 'text-red-700' : 'text-gray-500'
+              }`}
+            >
+              {entry.valence > 0 ? 'positive' : entry.valence < 0 ? 'negative' : 'ignored'}
+            </span>
+            <button
+              onClick={() => handleRemove(entry.id)}
+              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+              aria-label={`Remove ${entry.term}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <input
+          type="text"
+          value={newTerm}
+          onChange={(e) => setNewTerm(e.target.value)}
+          placeholder="Word or phrase (e.g. crash)"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <input
+          type="number"
+          min={-MAX_VALENCE}
+          max={MAX_VALENCE}
+          step={0.5}
+          value={newValence}
+          onChange={(e) => setNewValence(Number(e.target.value) || 0)}
+          className="sm:w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          aria-label="Valence"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newTerm.trim()}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Term</span>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input ref={fileInputRef} type="file" accept=".csv" onChange={handleImport} className="hidden" />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors flex items-center space-x-2"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Import CSV</span>
+        </button>
+        <button
+          type="button"
+          onClick={() => lexicon && exportService.exportLexicon(lexicon, workspace.name)}
+          disabled={entries.length === 0}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export CSV</span>
+        </button>
+        {importMessage && <span className="text-sm text-gray-600">{importMessage}</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { Cpu, FolderOpen, Package, Trash2, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { localOnnxService } from '../../services/localOnnxService';
+
+export const LocalModelSettings: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState('');
+  const { status, modelName, modelId, labels, lastError } = localOnnxService;
+
+  const runLoad = async (load: () => Promise<void>) => {
+    setLoadError('');
+    try {
+      await load();
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load model');
+    }
+  };
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length) {
+      runLoad(() => localOnnxService.loadFromFiles(files));
+    }
+  };
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+        <div className="flex items-center space-x-3">
+          <Cpu className="w-5 h-5 text-gray-600" />
+          <div>
+            <div className="font-medium text-gray-900">{modelName || 'No model loaded'}</div>
+            <div className="text-sm text-gray-600">
+              {status === 'ready' && `Model ${modelId}, labels: ${labels.join(', ') || 'unnamed'}`}
+              {status === 'loading' && 'Loading model into the inference worker...'}
+              {status === 'empty' && 'Select model files or load the bundled model.'}
+              {status === 'error' && 'The model could not be loaded.'}
+            </div>
+          </div>
+        </div>
+        {status === 'loading' && <Loader2 className="w-5 h-5 text-emerald-600 animate-spin" />}
+        {status === 'ready' && <CheckCircle2 className="w-5 h-5 text-emerald-600" />}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".onnx,.json"
+        multiple
+        onChange={handleFiles}
+        className="hidden"
+      />
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={status === 'loading'}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <FolderOpen className="w-4 h-4" />
+          <span>Select Model Files</span>
+        </button>
+        <button
+          onClick={() => runLoad(() => localOnnxService.loadBundled())}
+          disabled={status === 'loading'}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Package className="w-4 h-4" />
+          <span>Load Bundled Model</span>
+        </button>
+        {status !== 'empty' && (
+          <button
+            onClick={() => runLoad(() => localOnnxService.unload())}
+            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors flex items-center space-x-2"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Remove</span>
+          </button>
+        )}
+      </div>
+
+      {(loadError || lastError) && (
+        <div className="flex items-start space-x-2 text-red-600 bg-red-50 p-3 rounded-lg">
+          <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <div className="text-sm">{loadError || lastError}</div>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">
+        Select the quantized <code className="bg-gray-100 px-1 rounded">.onnx</code> file together with
+        its <code className="bg-gray-100 px-1 rounded">tokenizer.json</code> and <code className="bg-gray-100 px-1 rounded">config.json</code>,
+        e.g. an ONNX export of cardiffnlp/twitter-roberta-base-sentiment-latest. The model is kept in your browser
+        and texts are never sent over the network.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { ListTree, Plus, Trash2 } from 'lucide-react';
+import { modelRegistry, guessSentimentLabel } from '../../services/modelRegistry';
+import { DEFAULT_SCHEMA_ID } from '../../services/labelSchemas';
+import { useModelRegistry } from '../../hooks/useModelRegistry';
+import { SchemaLabel } from '../../types/sentiment';
+
+// "Name: value" per line, where value is a number on the negative..positive
+// scale or "mixed"
+const parseSchemaLabels = (value: string): SchemaLabel[] =>
+  value.split('\n').flatMap(line => {
+    const [name, position] = line.split(':').map(part => part.trim());
+    if (!name || !position) return [];
+    const mixed = position.toLowerCase() === 'mixed';
+    const numeric = Number(position);
+    if (!mixed && !Number.isFinite(numeric)) return [];
+    return [{
+      id: name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-'),
+      name,
+      value: mixed ? 0 : numeric,
+      ...(mixed && { mixed: true })
+    }];
+  });
+
+export const ModelLabelSettings: React.FC = () => {
+  const { models, schemas } = useModelRegistry();
+  const [modelId, setModelId] = useState('');
+  const [modelSchemaId, setModelSchemaId] = useState(DEFAULT_SCHEMA_ID);
+  const [rawLabels, setRawLabels] = useState('');
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [schemaName, setSchemaName] = useState('');
+  const [schemaLabels, setSchemaLabels] = useState('');
+
+  const modelSchema = modelRegistry.getSchema(modelSchemaId);
+  const labelList = Array.from(new Set(rawLabels.split(',').map(label => label.trim()).filter(Boolean)));
+  const mappingFor = (raw: string) => {
+    const chosen = mapping[raw] ?? guessSentimentLabel(raw);
+    return chosen && modelSchema.labels.some(label => label.id === chosen) ? chosen : '';
+  };
+  const parsedLabels = parseSchemaLabels(schemaLabels);
+  const usedSchemaIds = new Set(models.map(model => model.schemaId));
+
+  const handleSaveModel = () => {
+    const labels = Object.fromEntries(
+      labelList.map(raw => [raw, mappingFor(raw)]).filter(([, id]) => id)
+    );
+    if (!modelId.trim() || Object.keys(labels).length === 0) return;
+    modelRegistry.saveModel({ id: modelId.trim(), schemaId: modelSchemaId, labels });
+    setModelId('');
+    setRawLabels('');
+    setMapping({});
+  };
+
+  const handleSaveSchema = () => {
+    if (!schemaName.trim() || parsedLabels.length < 2) return;
+    modelRegistry.saveSchema({
+      id: `schema_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: schemaName.trim(),
+      labels: parsedLabels
+    });
+    setSchemaName('');
+    setSchemaLabels('');
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+      <div className="flex items-center space-x-3 mb-6">
+        <ListTree className="w-6 h-6 text-emerald-600" />
+        <h3 className="text-xl font-semibold text-gray-900">Models &amp; Labels</h3>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Each model's raw labels are mapped onto a label schema. Results are then reported in the schema chosen for
+        the workspace, so a five-star model and a three-class model can feed the same dashboard. Models are matched
+        by Hugging Face model id, local model name or custom endpoint URL; unlisted models have their labels guessed.
+      </p>
+
+      <div className="space-y-2 mb-4">
+        {models.map(model => (
+          <div key={model.id} className="flex items-start justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+            <div className="min-w-0">
+              <div className="font-medium text-gray-900 break-all">{model.id}</div>
+              <div className="text-xs text-gray-500 mb-1">{modelRegistry.getSchema(model.schemaId).name}</div>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(model.labels).map(([raw, id]) => (
+                  <span key={raw} className="px-2 py-0.5 rounded text-xs bg-white border border-gray-200 text-gray-700">
+                    {raw} → {modelRegistry.getSchema(model.schemaId).labels.find(label => label.id === id)?.name ?? id}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {model.builtIn ? (
+              <span className="px-2 py-1 rounded text-xs bg-gray-200 text-gray-600 flex-shrink-0">Built-in</span>
+            ) : (
+              <button
+                onClick={() => modelRegistry.deleteModel(model.id)}
+                className="p-2 text-gray-400 hover:text-red-600 transition-colors flex-shrink-0"
+                aria-label={`Remove mapping for ${model.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3 mb-8">
+        <h4 className="font-medium text-gray-900">Add or Override a Model Mapping</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={modelId}
+            onChange={(e) => setModelId(e.target.value)}
+            placeholder="Model id, e.g. owner/model-name"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          <select
+            value={modelSchemaId}
+            onChange={(e) => setModelSchemaId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            {schemas.map(schema => (
+              <option key={schema.id} value={schema.id}>{schema.name}</option>
+            ))}
+          </select>
+        </div>
+        <input
+          type="text"
+          value={rawLabels}
+          onChange={(e) => setRawLabels(e.target.value)}
+          placeholder="Raw labels the model returns, comma separated (e.g. LABEL_0, LABEL_1, LABEL_2)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        {labelList.map(raw => (
+          <div key={raw} className="flex items-center gap-3">
+            <span className="w-40 text-sm text-gray-700 truncate">{raw}</span>
+            <select
+              value={mappingFor(raw)}
+              onChange={(e) => setMapping({ ...mapping, [raw]: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <option value="">Ignore this label</option>
+              {modelSchema.labels.map(label => (
+                <option key={label.id} value={label.id}>{label.name}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+        <button
+          onClick={handleSaveModel}
+          disabled={!modelId.trim() || !labelList.some(mappingFor)}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Save Mapping</span>
+        </button>
+      </div>
+
+      <h4 className="font-medium text-gray-900 mb-3">Label Schemas</h4>
+      <div className="space-y-2 mb-4">
+        {schemas.map(schema => (
+          <div key={schema.id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+            <div>
+              <div className="font-medium text-gray-900">{schema.name}</div>
+              <div className="text-xs text-gray-500">
+                {schema.labels.map(label => `${label.name} (${label.mixed ? 'mixed' : label.value})`).join(' · ')}
+              </div>
+            </div>
+            {schema.builtIn ? (
+              <span className="px-2 py-1 rounded text-xs bg-gray-200 text-gray-600">Built-in</span>
+            ) : (
+              <button
+                onClick={() => modelRegistry.deleteSchema(schema.id)}
+                disabled={usedSchemaIds.has(schema.id)}
+                title={usedSchemaIds.has(schema.id) ? 'A model mapping still uses this schema' : undefined}
+                className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-40 disabled:hover:text-gray-400 transition-colors"
+                aria-label={`Remove schema ${schema.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <h4 className="font-medium text-gray-900">New Label Schema</h4>
+        <input
+          type="text"
+          value={schemaName}
+          onChange={(e) => setSchemaName(e.target.value)}
+          placeholder="Schema name"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <textarea
+          value={schemaLabels}
+          onChange={(e) => setSchemaLabels(e.target.value)}
+          rows={4}
+          placeholder={'One label per line as "Name: position", e.g.\nNegative: -1\nNeutral: 0\nMixed: mixed\nPositive: 1'}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <p className="text-xs text-gray-500">
+          Positions place labels on the negative..positive scale: below zero counts as negative, above as positive.
+          Scores from other schemas land on the nearest position.
+        </p>
+        <button
+          onClick={handleSaveSchema}
+          disabled={!schemaName.trim() || parsedLabels.length < 2}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Create Schema</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,24 @@
-import React, { useState, useEffect } from 'react';
-import { Settings as SettingsIcon, Key, AlertCircle, CheckCircle2, Eye, EyeOff, RefreshCw, Info } from 'lucide-react';
+import React, { useState } from 'react';
+import { Settings as SettingsIcon, Key, AlertCircle, CheckCircle2, Eye, EyeOff, RefreshCw, Info, Server, SlidersHorizontal } from 'lucide-react';
 import { huggingFaceService } from '../../services/huggingfaceApi';
+import { customEndpointService, CustomEndpointConfig } from '../../services/customEndpointApi';
+import { localOnnxService } from '../../services/localOnnxService';
+import { ensembleService } from '../../services/ensembleService';
+import { SUPPORTED_LANGUAGES, LANGUAGE_NAMES } from '../../services/languageDetector';
+import { providerRegistry } from '../../services/providerRegistry';
+import { credentialStore } from '../../services/credentialStore';
+import { useCredentials } from '../../hooks/useCredentials';
+import { useSentimentProvider } from '../../hooks/useSentimentProvider';
+import { useAnalysisSettings } from '../../hooks/useAnalysisSettings';
+import { ChunkAggregation } from '../../types/sentiment';
+import { LocalModelSettings } from './LocalModelSettings';
+import { EnsembleSettings } from './EnsembleSettings';
+import { WorkspaceSettings } from './WorkspaceSettings';
+import { LexiconSettings } from './LexiconSettings';
+import { ModelLabelSettings } from './ModelLabelSettings';
+import { CalibrationSettings } from './CalibrationSettings';
+import { CacheSettings } from './CacheSettings';
+import { CredentialSettings } from './CredentialSettings';
 
 export const Settings: React.FC = () => {
   const [apiKey, setApiKey] = useState('');
@@ -8,34 +26,49 @@ export const Settings: React.FC = () => {
   const [isTestingConnection, setIsTestingConnection] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
+  const { provider, activeProviderId, providers, setActiveProvider } = useSentimentProvider();
+  const { settings, updateSettings } = useAnalysisSettings();
+  const [customConfig, setCustomConfig] = useState<CustomEndpointConfig>(customEndpointService.getConfig());
+  const [customToken, setCustomToken] = useState('');
+  const [customStatus, setCustomStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
+  const [customError, setCustomError] = useState('');
+  const [connection, setConnection] = useState<'direct' | 'proxy'>(huggingFaceService.getProxyUrl() ? 'proxy' : 'direct');
+  const [proxyUrl, setProxyUrl] = useState(huggingFaceService.getProxyUrl() || 'http://127.0.0.1:8787');
 
-  useEffect(() => {
-    // Load API key from localStorage on component mount
-    const savedApiKey = localStorage.getItem('huggingface_api_key');
-    if (savedApiKey) {
-      setApiKey(savedApiKey);
-      huggingFaceService.setApiKey(savedApiKey);
-    }
-  }, []);
+  const credentials = useCredentials();
+  const credentialsUnlocked = credentials.status === 'unlocked';
+  const hasSavedApiKey = credentials.providerIds.includes(huggingFaceService.id);
+  const hasCustomToken = credentials.providerIds.includes(customEndpointService.id);
+
+  // Keys are only ever written encrypted; the field is for entering a new one
+  const saveApiKey = async () => {
+    await credentialStore.set(huggingFaceService.id, apiKey.trim());
+    setApiKey('');
+  };
 
-  const handleSaveApiKey = () => {
+  const handleSaveApiKey = async () => {
     if (apiKey.trim() && validateApiKey(apiKey)) {
-      localStorage.setItem('huggingface_api_key', apiKey.trim());
-      huggingFaceService.setApiKey(apiKey.trim());
-      setConnectionStatus('success');
-      setErrorMessage('');
-      setTimeout(() => setConnectionStatus('idle'), 3000);
+      try {
+        await saveApiKey();
+        setConnectionStatus('success');
+        setErrorMessage('');
+        setTimeout(() => setConnectionStatus('idle'), 3000);
+      } catch (error) {
+        setConnectionStatus('error');
+        setErrorMessage(error instanceof Error ? error.message : 'Saving the API key failed');
+      }
     }
   };
 
+  // Tests a newly entered key (saving it first) or else the saved one
   const handleTestConnection = async () => {
-    if (!apiKey.trim()) {
+    if (!apiKey.trim() && !hasSavedApiKey) {
       setErrorMessage('Please enter an API key first.');
       setConnectionStatus('error');
       return;
     }
 
-    if (!validateApiKey(apiKey)) {
+    if (apiKey.trim() && !validateApiKey(apiKey)) {
       setErrorMessage('Please enter a valid API key format.');
       setConnectionStatus('error');
       return;
@@ -46,7 +79,7 @@ export const Settings: React.FC = () => {
     setErrorMessage('');
 
     try {
-      huggingFaceService.setApiKey(apiKey.trim());
+      if (apiKey.trim()) await saveApiKey();
       await huggingFaceService.testConnection();
       setConnectionStatus('success');
       setErrorMessage('');
@@ -60,15 +93,71 @@ export const Settings: React.FC = () => {
 
   const handleClearApiKey = () => {
     setApiKey('');
-    localStorage.removeItem('huggingface_api_key');
+    credentialStore.remove(huggingFaceService.id);
+    setConnectionStatus('idle');
+    setErrorMessage('');
+  };
+
+  // Going direct takes effect at once; a proxy only once its URL is saved
+  const handleConnectionChange = (mode: 'direct' | 'proxy') => {
+    setConnection(mode);
     setConnectionStatus('idle');
     setErrorMessage('');
+    if (mode === 'direct') {
+      huggingFaceService.setProxyUrl('');
+      providerRegistry.notifyChange();
+    }
+  };
+
+  const handleSaveProxy = () => {
+    huggingFaceService.setProxyUrl(proxyUrl);
+    providerRegistry.notifyChange();
+  };
+
+  const handleTestProxy = async () => {
+    setIsTestingConnection(true);
+    setConnectionStatus('idle');
+    setErrorMessage('');
+
+    try {
+      handleSaveProxy();
+      await huggingFaceService.testConnection();
+      setConnectionStatus('success');
+    } catch (error) {
+      setConnectionStatus('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Connection test failed');
+    } finally {
+      setIsTestingConnection(false);
+    }
   };
 
   const validateApiKey = (key: string): boolean => {
     return key.trim().startsWith('hf_') && key.trim().length > 10;
   };
 
+  const handleSaveCustomConfig = async () => {
+    customEndpointService.setConfig(customConfig);
+    providerRegistry.notifyChange();
+    if (customToken) {
+      await credentialStore.set(customEndpointService.id, customToken);
+      setCustomToken('');
+    }
+  };
+
+  const handleTestCustomEndpoint = async () => {
+    setCustomStatus('testing');
+    setCustomError('');
+
+    try {
+      await handleSaveCustomConfig();
+      await customEndpointService.testConnection();
+      setCustomStatus('success');
+    } catch (error) {
+      setCustomStatus('error');
+      setCustomError(error instanceof Error ? error.message : 'Connection test failed');
+    }
+  };
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -84,6 +173,533 @@ export const Settings: React.FC = () => {
         </p>
       </div>
 
+      {/* Provider Selection */}
+      <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+        <div className="flex items-center space-x-3 mb-6">
+          <Server className="w-6 h-6 text-emerald-600" />
+          <h3 className="text-xl font-semibold text-gray-900">Analysis Provider</h3>
+        </div>
+
+        <div className="space-y-2">
+          {providers.map((item) => (
+            <label key={item.id} className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+              <input
+                type="radio"
+                name="provider"
+                value={item.id}
+                checked={activeProviderId === item.id}
+                onChange={() => setActiveProvider(item.id)}
+                className="text-emerald-600 focus:ring-emerald-500"
+              />
+              <div className="flex-1">
+                <div className="font-medium text-gray-900">{item.name}</div>
+                <div className="text-sm text-gray-600">{item.description}</div>
+              </div>
+              <span className={`px-2 py-1 rounded text-xs font-medium ${
+                item.isConfigured() ? 'bg-emerald-100 text-emerald-800' : 'bg-yellow-100 text-yellow-800'
+              }`}>
+                {item.isConfigured() ? 'Ready' : 'Not configured'}
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {!provider.isConfigured() && (
+          <div className="flex items-start space-x-2 text-yellow-700 bg-yellow-50 p-3 rounded-lg mt-4 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span>{provider.name} is not configured yet, so analyses fail until it is.</span>
+          </div>
+        )}
+
+        {activeProviderId === localOnnxService.id && <LocalModelSettings />}
+
+        {activeProviderId === ensembleService.id && <EnsembleSettings />}
+
+        {activeProviderId === customEndpointService.id && (
+          <div className="mt-6 space-y-4">
+            <div>
+              <label htmlFor="custom-endpoint" className="block text-sm font-medium text-gray-700 mb-2">
+                Endpoint URL
+              </label>
+              <input
+                id="custom-endpoint"
+                type="url"
+                value={customConfig.endpointUrl}
+                onChange={(e) => setCustomConfig({ ...customConfig, endpointUrl: e.target.value })}
+                placeholder="https://models.internal.example.com/sentiment"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="custom-auth-header" className="block text-sm font-medium text-gray-700 mb-2">
+                  Auth Header
+                </label>
+                <input
+                  id="custom-auth-header"
+                  type="text"
+                  value={customConfig.authHeader}
+                  onChange={(e) => setCustomConfig({ ...customConfig, authHeader: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="custom-auth-token" className="block text-sm font-medium text-gray-700 mb-2">
+                  Token (optional)
+                </label>
+                <input
+                  id="custom-auth-token"
+                  type="password"
+                  value={customToken}
+                  onChange={(e) => setCustomToken(e.target.value)}
+                  disabled={!credentialsUnlocked}
+                  placeholder={hasCustomToken ? 'Saved · enter to replace' : credentialsUnlocked ? '' : 'Unlock credentials first'}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-50"
+                />
+              </div>
+              <div>
+                <label htmlFor="custom-max-chars" className="block text-sm font-medium text-gray-700 mb-2">
+                  Max Characters
+                </label>
+                <input
+                  id="custom-max-chars"
+                  type="number"
+                  min={50}
+                  value={customConfig.maxInputChars}
+                  onChange={(e) => setCustomConfig({ ...customConfig, maxInputChars: Number(e.target.value) || 0 })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => handleSaveCustomConfig().catch(error => {
+                  setCustomStatus('error');
+                  setCustomError(error instanceof Error ? error.message : 'Saving the endpoint failed');
+                })}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors"
+              >
+                Save Endpoint
+              </button>
+              <button
+                onClick={handleTestCustomEndpoint}
+                disabled={!customConfig.endpointUrl.trim() || customStatus === 'testing'}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+              >
+                {customStatus === 'testing' ? (
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="w-4 h-4" />
+                )}
+                <span>Test Endpoint</span>
+              </button>
+            </div>
+            {customStatus === 'success' && (
+              <div className="flex items-center space-x-2 text-emerald-600 bg-emerald-50 p-3 rounded-lg">
+                <CheckCircle2 className="w-5 h-5" />
+                <span>Endpoint responded with a valid sentiment prediction.</span>
+              </div>
+            )}
+            {customStatus === 'error' && (
+              <div className="flex items-start space-x-2 text-red-600 bg-red-50 p-3 rounded-lg">
+                <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <div className="text-sm">{customError}</div>
+              </div>
+            )}
+            <p className="text-sm text-gray-600">
+              The endpoint receives <code className="bg-gray-100 px-1 rounded">{'{ "inputs": "..." }'}</code> and must
+              return a list of <code className="bg-gray-100 px-1 rounded">{'{ "label", "score" }'}</code> objects, like the Hugging Face API.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Analysis Options */}
+      <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+        <div className="flex items-center space-x-3 mb-6">
+          <SlidersHorizontal className="w-6 h-6 text-emerald-600" />
+          <h3 className="text-xl font-semibold text-gray-900">Analysis Options</h3>
+        </div>
+
+        <div>
+          <label htmlFor="chunk-aggregation" className="block text-sm font-medium text-gray-700 mb-2">
+            Long Text Aggregation
+          </label>
+          <select
+            id="chunk-aggregation"
+            value={settings.chunkAggregation}
+            onChange={(e) => updateSettings({ chunkAggregation: e.target.value as ChunkAggregation })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          >
+            <option value="length-weighted">Length-weighted average</option>
+            <option value="mean">Simple average</option>
+            <option value="max-negative">Most negative chunk</option>
+          </select>
+          <p className="text-sm text-gray-600 mt-2">
+            Texts longer than the provider's input limit ({Number.isFinite(provider.capabilities.maxInputChars)
+              ? `${provider.capabilities.maxInputChars} characters`
+              : 'unlimited'}) are split on sentence and paragraph boundaries, each chunk is analyzed, and the
+            chunk scores are combined with this strategy.
+          </p>
+        </div>
+
+        <label className="flex items-start space-x-3 mt-6">
+          <input
+            type="checkbox"
+            checked={settings.sentenceSegments}
+            onChange={(e) => updateSettings({ sentenceSegments: e.target.checked })}
+            className="mt-1 text-emerald-600 focus:ring-emerald-500"
+          />
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Sentence-level breakdown</span>
+            <span className="block text-sm text-gray-600">
+              Score every sentence separately and colour-code the text. Costs one extra request per sentence.
+            </span>
+          </div>
+        </label>
+
+        <label className="flex items-start space-x-3 mt-4">
+          <input
+            type="checkbox"
+            checked={settings.detectEntities}
+            onChange={(e) => updateSettings({ detectEntities: e.target.checked })}
+            className="mt-1 text-emerald-600 focus:ring-emerald-500"
+          />
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Detect other names</span>
+            <span className="block text-sm text-gray-600">
+              Besides the workspace's tracked entities, treat capitalized names such as "Galaxy S24" as entities.
+              Costs one extra request per clause that mentions one.
+            </span>
+          </div>
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+          <div>
+            <label htmlFor="emotion-source" className="block text-sm font-medium text-gray-700 mb-2">
+              Emotion Detection
+            </label>
+            <select
+              id="emotion-source"
+              value={settings.emotionSource}
+              onChange={(e) => updateSettings({ emotionSource: e.target.value as typeof settings.emotionSource })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <option value="off">Off</option>
+              <option value="lexicon">Local emotion lexicon</option>
+              <option value="model">Hugging Face emotion model</option>
+            </select>
+          </div>
+          {settings.emotionSource === 'model' && (
+            <div>
+              <label htmlFor="emotion-model" className="block text-sm font-medium text-gray-700 mb-2">
+                Emotion Model
+              </label>
+              <input
+                id="emotion-model"
+                type="text"
+                value={settings.emotionModel}
+                onChange={(e) => updateSettings({ emotionModel: e.target.value.trim() })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mt-2">
+          Adds joy, anger, sadness, fear, surprise, disgust or neutral to every result. The model option sends texts
+          to Hugging Face, so it only runs while the Hugging Face or Ensemble provider is selected and uses the
+          lexicon otherwise.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+          <div>
+            <label htmlFor="toxicity-source" className="block text-sm font-medium text-gray-700 mb-2">
+              Toxicity Detection
+            </label>
+            <select
+              id="toxicity-source"
+              value={settings.toxicitySource}
+              onChange={(e) => updateSettings({ toxicitySource: e.target.value as typeof settings.toxicitySource })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <option value="off">Off</option>
+              <option value="lexicon">Local profanity and insult lexicon</option>
+              <option value="model">Hugging Face toxicity model</option>
+            </select>
+          </div>
+          {settings.toxicitySource === 'model' && (
+            <div>
+              <label htmlFor="toxicity-model" className="block text-sm font-medium text-gray-700 mb-2">
+                Toxicity Model
+              </label>
+              <input
+                id="toxicity-model"
+                type="text"
+                value={settings.toxicityModel}
+                onChange={(e) => updateSettings({ toxicityModel: e.target.value.trim() })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+          )}
+          {settings.toxicitySource !== 'off' && (
+            <div>
+              <label htmlFor="toxicity-threshold" className="block text-sm font-medium text-gray-700 mb-2">
+                Toxicity Threshold
+              </label>
+              <input
+                id="toxicity-threshold"
+                type="number"
+                min={0.05}
+                max={0.95}
+                step={0.05}
+                value={settings.toxicityThreshold}
+                onChange={(e) => updateSettings({
+                  toxicityThreshold: Math.min(0.95, Math.max(0.05, Number(e.target.value) || 0.5))
+                })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mt-2">
+          Flags abusive texts and tags them as obscene, insulting, threatening, identity attacks or severe. The
+          lexicon sees through spellings like "f*ck" or "sh1t" but leaves identity attacks to the model, which sends
+          texts to Hugging Face and so only runs while the Hugging Face or Ensemble provider is selected. The
+          threshold applies to new results.
+        </p>
+
+        <label className="flex items-start space-x-3 mt-6">
+          <input
+            type="checkbox"
+            checked={settings.maskOffensiveWords}
+            onChange={(e) => updateSettings({ maskOffensiveWords: e.target.checked })}
+            className="mt-1 text-emerald-600 focus:ring-emerald-500"
+          />
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Mask offensive words</span>
+            <span className="block text-sm text-gray-600">
+              Shows profanity and insults as "f***" in results, history and exports. Stored texts are unchanged.
+            </span>
+          </div>
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+          <div>
+            <label htmlFor="topic-source" className="block text-sm font-medium text-gray-700 mb-2">
+              Topic Labelling
+            </label>
+            <select
+              id="topic-source"
+              value={settings.topicSource}
+              onChange={(e) => updateSettings({ topicSource: e.target.value as typeof settings.topicSource })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              <option value="off">Off</option>
+              <option value="keywords">Workspace keyword rules</option>
+              <option value="model">Hugging Face zero-shot model</option>
+            </select>
+          </div>
+          {settings.topicSource === 'model' && (
+            <div>
+              <label htmlFor="topic-model" className="block text-sm font-medium text-gray-700 mb-2">
+                Zero-Shot Model
+              </label>
+              <input
+                id="topic-model"
+                type="text"
+                value={settings.topicModel}
+                onChange={(e) => updateSettings({ topicModel: e.target.value.trim() })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+          )}
+          {settings.topicSource !== 'off' && (
+            <div>
+              <label htmlFor="topic-threshold" className="block text-sm font-medium text-gray-700 mb-2">
+                Topic Threshold
+              </label>
+              <input
+                id="topic-threshold"
+                type="number"
+                min={0.05}
+                max={0.95}
+                step={0.05}
+                value={settings.topicThreshold}
+                onChange={(e) => updateSettings({
+                  topicThreshold: Math.min(0.95, Math.max(0.05, Number(e.target.value) || 0.5))
+                })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mt-2">
+          Tags texts with the workspace's topics. The zero-shot model scores each text against the topic names
+          themselves, so new topics need no training. It sends texts to Hugging Face, so it only runs while the
+          Hugging Face or Ensemble provider is selected and uses the topics' keywords otherwise or while offline.
+          The threshold applies to new results.
+        </p>
+
+        <label className="flex items-start space-x-3 mt-6">
+          <input
+            type="checkbox"
+            checked={settings.languageRouting && provider.capabilities.acceptsModel}
+            disabled={!provider.capabilities.acceptsModel}
+            onChange={(e) => updateSettings({ languageRouting: e.target.checked })}
+            className="mt-1 text-emerald-600 focus:ring-emerald-500"
+          />
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Route by language</span>
+            <span className="block text-sm text-gray-600">
+              Every text is tagged with its language, detected locally. With routing on, Hugging Face requests use
+              the model set for that language; leave a model empty to use the default. Texts too short or too close
+              to call, including English that reads much like French or Spanish, use the default model. Routing
+              is off by default.
+            </span>
+            {!provider.capabilities.acceptsModel && (
+              <span className="block text-sm text-yellow-700 mt-1">
+                {provider.name} can't switch models per request, so routing is unavailable.
+              </span>
+            )}
+          </div>
+        </label>
+        {settings.languageRouting && provider.capabilities.acceptsModel && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            {SUPPORTED_LANGUAGES.map(language => (
+              <div key={language}>
+                <label htmlFor={`language-model-${language}`} className="block text-sm font-medium text-gray-700 mb-2">
+                  {LANGUAGE_NAMES[language]} Model
+                </label>
+                <input
+                  id={`language-model-${language}`}
+                  type="text"
+                  value={settings.languageModels[language]}
+                  onChange={(e) => updateSettings({
+                    languageModels: { ...settings.languageModels, [language]: e.target.value.trim() }
+                  })}
+                  placeholder="Provider default"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <label className="flex items-start space-x-3 mt-6">
+          <input
+            type="checkbox"
+            checked={settings.ratingMode}
+            onChange={(e) => updateSettings({ ratingMode: e.target.checked })}
+            className="mt-1 text-emerald-600 focus:ring-emerald-500"
+          />
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Star rating mode</span>
+            <span className="block text-sm text-gray-600">
+              Predicts a 1-5 star rating and its expected value for every text. Hugging Face requests go to the
+              rating model below instead of the language models; other providers, the ensemble included, rate from
+              their own labels, and three-class scores are spread over the star range. Uploaded CSVs with a rating column are checked for reviews whose text disagrees
+              with their rating.
+            </span>
+          </div>
+        </label>
+        {settings.ratingMode && provider.capabilities.acceptsModel && (
+          <div className="mt-4">
+            <label htmlFor="rating-model" className="block text-sm font-medium text-gray-700 mb-2">
+              Rating Model
+            </label>
+            <input
+              id="rating-model"
+              type="text"
+              value={settings.ratingModel}
+              onChange={(e) => updateSettings({ ratingModel: e.target.value.trim() })}
+              placeholder="Provider default"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+          </div>
+        )}
+
+        <div className="mt-6">
+          <label htmlFor="request-batch-size" className="block text-sm font-medium text-gray-700 mb-2">
+            Texts per Request
+          </label>
+          <input
+            id="request-batch-size"
+            type="number"
+            min={1}
+            max={128}
+            value={settings.requestBatchSize}
+            onChange={(e) => updateSettings({ requestBatchSize: Math.min(128, Math.max(1, Number(e.target.value) || 1)) })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+          />
+          <p className="text-sm text-gray-600 mt-2">
+            Batch jobs send this many texts in one inference request. Larger batches finish sooner but a failed
+            request costs more; texts missing from a batched response are retried one at a time. A proxy server's
+            own batch limit caps this.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+          <div>
+            <label htmlFor="retry-attempts" className="block text-sm font-medium text-gray-700 mb-2">
+              Max Attempts
+            </label>
+            <input
+              id="retry-attempts"
+              type="number"
+              min={1}
+              max={10}
+              value={settings.retryMaxAttempts}
+              onChange={(e) => updateSettings({ retryMaxAttempts: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="retry-base-delay" className="block text-sm font-medium text-gray-700 mb-2">
+              First Backoff (seconds)
+            </label>
+            <input
+              id="retry-base-delay"
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={settings.retryBaseDelaySeconds}
+              onChange={(e) => updateSettings({ retryBaseDelaySeconds: Math.max(0.5, Number(e.target.value) || 0.5) })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="retry-max-delay" className="block text-sm font-medium text-gray-700 mb-2">
+              Longest Wait (seconds)
+            </label>
+            <input
+              id="retry-max-delay"
+              type="number"
+              min={1}
+              value={settings.retryMaxDelaySeconds}
+              onChange={(e) => updateSettings({ retryMaxDelaySeconds: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 mt-2">
+          Rate limits, loading models and dropped connections are retried. The wait follows the server's
+          Retry-After or estimated loading time when given, otherwise it doubles from the first backoff, and it
+          never exceeds the longest wait.
+        </p>
+      </div>
+
+      <CacheSettings />
+
+      <WorkspaceSettings />
+
+      <LexiconSettings />
+
+      <ModelLabelSettings />
+
+      <CalibrationSettings />
+
+      <CredentialSettings />
+
       {/* API Configuration */}
       <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
         <div className="flex items-center space-x-3 mb-6">
@@ -92,77 +708,163 @@ export const Settings: React.FC = () => {
         </div>
 
         <div className="space-y-4">
-          <div>
-            <label htmlFor="api-key" className="block text-sm font-medium text-gray-700 mb-2">
-              API Key
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="flex items-start space-x-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+              <input
+                type="radio"
+                name="hf-connection"
+                checked={connection === 'direct'}
+                onChange={() => handleConnectionChange('direct')}
+                className="mt-1 text-emerald-600 focus:ring-emerald-500"
+              />
+              <div>
+                <div className="font-medium text-gray-900">Direct</div>
+                <div className="text-sm text-gray-600">The browser calls the API with a key stored here, encrypted</div>
+              </div>
             </label>
-            <div className="relative">
+            <label className="flex items-start space-x-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
               <input
-                id="api-key"
-                type={showApiKey ? "text" : "password"}
-                value={apiKey}
+                type="radio"
+                name="hf-connection"
+                checked={connection === 'proxy'}
+                onChange={() => handleConnectionChange('proxy')}
+                className="mt-1 text-emerald-600 focus:ring-emerald-500"
+              />
+              <div>
+                <div className="font-medium text-gray-900">Proxy server</div>
+                <div className="text-sm text-gray-600">Requests go through your proxy, which holds the key</div>
+              </div>
+            </label>
+          </div>
+
+          {connection === 'proxy' ? (
+            <>
+            <div>
+              <label htmlFor="proxy-url" className="block text-sm font-medium text-gray-700 mb-2">
+                Proxy URL
+              </label>
+              <input
+                id="proxy-url"
+                type="url"
+                value={proxyUrl}
                 onChange={(e) => {
-                  setApiKey(e.target.value);
+                  setProxyUrl(e.target.value);
                   setConnectionStatus('idle');
-                  setErrorMessage('');
                 }}
-                placeholder="Enter your Hugging Face API key (starts with hf_)"
-                className={`w-full px-4 py-3 pr-12 border rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 ${
-                  apiKey && !validateApiKey(apiKey) ? 'border-red-300' : 'border-gray-300'
-                }`}
+                placeholder="http://127.0.0.1:8787"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
               />
+              <p className="text-sm text-gray-600 mt-1">
+                Start it with <code className="bg-gray-100 px-1 rounded">HF_API_TOKEN=hf_... npm run proxy</code>; see
+                the README for rate limits and the stub model backend.
+              </p>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
               <button
-                type="button"
-                onClick={() => setShowApiKey(!showApiKey)}
-                className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                onClick={handleSaveProxy}
+                disabled={!/^https?:\/\//.test(proxyUrl.trim())}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                {showApiKey ? (
-                  <EyeOff className="w-5 h-5 text-gray-400" />
+                Save Proxy
+              </button>
+              <button
+                onClick={handleTestProxy}
+                disabled={!/^https?:\/\//.test(proxyUrl.trim()) || isTestingConnection}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+              >
+                {isTestingConnection ? (
+                  <RefreshCw className="w-4 h-4 animate-spin" />
                 ) : (
-                  <Eye className="w-5 h-5 text-gray-400" />
+                  <CheckCircle2 className="w-4 h-4" />
                 )}
+                <span>Test Connection</span>
               </button>
             </div>
-            {apiKey && !validateApiKey(apiKey) && (
-              <p className="text-sm text-red-600 mt-1">
-                API key should start with "hf_" and be at least 10 characters long.
-              </p>
-            )}
-          </div>
-
-          <div className="flex flex-wrap gap-3">
-            <button
-              onClick={handleSaveApiKey}
-              disabled={!apiKey.trim() || !validateApiKey(apiKey)}
-              className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              Save API Key
-            </button>
-            <button
-              onClick={handleTestConnection}
-              disabled={!apiKey.trim() || !validateApiKey(apiKey) || isTestingConnection}
-              className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
-            >
-              {isTestingConnection ? (
-                <RefreshCw className="w-4 h-4 animate-spin" />
-              ) : (
-                <CheckCircle2 className="w-4 h-4" />
+            </>
+          ) : (
+            <>
+            <div>
+              <label htmlFor="api-key" className="block text-sm font-medium text-gray-700 mb-2">
+                API Key
+              </label>
+              <div className="relative">
+                <input
+                  id="api-key"
+                  type={showApiKey ? "text" : "password"}
+                  value={apiKey}
+                  onChange={(e) => {
+                    setApiKey(e.target.value);
+                    setConnectionStatus('idle');
+                    setErrorMessage('');
+                  }}
+                  disabled={!credentialsUnlocked}
+                  placeholder={
+                    !credentialsUnlocked
+                      ? 'Set up or unlock credential storage to enter a key'
+                      : hasSavedApiKey
+                        ? 'A key is saved · enter a new one to replace it'
+                        : 'Enter your Hugging Face API key (starts with hf_)'
+                  }
+                  className={`w-full px-4 py-3 pr-12 border rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-50 ${
+                    apiKey && !validateApiKey(apiKey) ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowApiKey(!showApiKey)}
+                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                >
+                  {showApiKey ? (
+                    <EyeOff className="w-5 h-5 text-gray-400" />
+                  ) : (
+                    <Eye className="w-5 h-5 text-gray-400" />
+                  )}
+                </button>
+              </div>
+              {apiKey && !validateApiKey(apiKey) && (
+                <p className="text-sm text-red-600 mt-1">
+                  API key should start with "hf_" and be at least 10 characters long.
+                </p>
               )}
-              <span>Test Connection</span>
-            </button>
-            <button
-              onClick={handleClearApiKey}
-              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
-            >
-              Clear
-            </button>
-          </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={handleSaveApiKey}
+                disabled={!apiKey.trim() || !validateApiKey(apiKey)}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Save API Key
+              </button>
+              <button
+                onClick={handleTestConnection}
+                disabled={(apiKey.trim() ? !validateApiKey(apiKey) : !hasSavedApiKey || !credentialsUnlocked) || isTestingConnection}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+              >
+                {isTestingConnection ? (
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="w-4 h-4" />
+                )}
+                <span>Test Connection</span>
+              </button>
+              <button
+                onClick={handleClearApiKey}
+                disabled={!hasSavedApiKey && !apiKey}
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+            </>
+          )}
 
           {/* Connection Status */}
           {connectionStatus === 'success' && (
             <div className="flex items-center space-x-2 text-emerald-600 bg-emerald-50 p-3 rounded-lg">
               <CheckCircle2 className="w-5 h-5" />
-              <span>API key saved and connection successful!</span>
+              <span>{connection === 'proxy' ? 'Proxy saved and connection successful!' : 'API key saved and connection successful!'}</span>
             </div>
           )}
 
@@ -188,7 +890,7 @@ export const Settings: React.FC = () => {
             <li>5. Copy the generated token and paste it above</li>
           </ol>
           <p className="text-sm text-emerald-700 mt-3">
-            <strong>Note:</strong> Without an API key, the application will run in demo mode with simulated results.
+            <strong>Note:</strong> Without an API key, the application falls back to the offline lexicon engine.
           </p>
         </div>
 
@@ -225,8 +927,8 @@ export const Settings: React.FC = () => {
         <div className="space-y-3 text-sm text-gray-600">
           <div className="flex justify-between">
             <span>Current Mode:</span>
-            <span className={`font-medium ${apiKey && validateApiKey(apiKey) ? 'text-emerald-600' : 'text-yellow-600'}`}>
-              {apiKey && validateApiKey(apiKey) ? 'Live API' : 'Demo Mode'}
+            <span className={`font-medium ${provider.capabilities.ruleBased ? 'text-yellow-600' : 'text-emerald-600'}`}>
+              {provider.name}
             </span>
           </div>
           <div className="flex justify-between">
@@ -239,7 +941,7 @@ export const Settings: React.FC = () => {
           </div>
           <div className="flex justify-between">
             <span>Text Limit:</span>
-            <span className="font-medium">500 characters per request</span>
+            <span className="font-medium">500 characters per request, longer texts are chunked</span>
           </div>
         </div>
       </div>
@@ -248,8 +950,9 @@ export const Settings: React.FC = () => {
       <div className="bg-gray-50 rounded-xl p-6 border border-gray-200">
         <h3 className="text-lg font-semibold text-gray-900 mb-2">Privacy & Security</h3>
         <ul className="text-sm text-gray-600 space-y-2">
-          <li>• Your API key is stored locally in your browser only</li>
-          <li>• Text data is sent to Hugging Face API for analysis</li>
+          <li>• API keys and tokens are stored in your browser only, encrypted with your passphrase</li>
+          <li>• With the proxy server, the Hugging Face key stays on the server and never reaches the browser</li>
+          <li>• Text data is sent to the selected provider; Local ONNX and the Lexicon Engine keep it in the browser</li>
           <li>• Analysis results are stored locally for your reference</li>
           <li>• No data is stored on our servers</li>
           <li>• You can clear all local data at any time</li>
@@ -0,0 +1,366 @@
+import React, { useState } from 'react';
+import { Briefcase, Plus, Trash2, Tag, Building2, Folders } from 'lucide-react';
+import { EntityType } from '../../types/sentiment';
+import { workspaceStore } from '../../services/workspaceStore';
+import { useWorkspace } from '../../hooks/useWorkspace';
+import { useModelRegistry } from '../../hooks/useModelRegistry';
+import { DEFAULT_SCHEMA_ID } from '../../services/labelSchemas';
+
+const ENTITY_TYPES: Array<{ value: EntityType; label: string }> = [
+  { value: 'brand', label: 'Brand' },
+  { value: 'product', label: 'Product' },
+  { value: 'competitor', label: 'Competitor' },
+  { value: 'other', label: 'Other' }
+];
+
+export const WorkspaceSettings: React.FC = () => {
+  const { workspace, workspaces } = useWorkspace();
+  const { schemas } = useModelRegistry();
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [newAspectName, setNewAspectName] = useState('');
+  const [newAspectSynonyms, setNewAspectSynonyms] = useState('');
+  const [newEntityName, setNewEntityName] = useState('');
+  const [newEntityType, setNewEntityType] = useState<EntityType>('brand');
+  const [newEntityAliases, setNewEntityAliases] = useState('');
+  const entities = workspace.entities ?? [];
+  const [newTopicName, setNewTopicName] = useState('');
+  const [newTopicKeywords, setNewTopicKeywords] = useState('');
+  const topics = workspace.topics ?? [];
+
+  const parseSynonyms = (value: string) =>
+    value.split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+
+  const handleCreateWorkspace = () => {
+    if (!newWorkspaceName.trim()) return;
+    workspaceStore.createWorkspace(newWorkspaceName.trim());
+    setNewWorkspaceName('');
+  };
+
+  const handleAddAspect = () => {
+    if (!newAspectName.trim()) return;
+    workspaceStore.setAspects([
+      ...workspace.aspects,
+      {
+        id: `aspect_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        name: newAspectName.trim(),
+        synonyms: parseSynonyms(newAspectSynonyms)
+      }
+    ]);
+    setNewAspectName('');
+    setNewAspectSynonyms('');
+  };
+
+  const handleUpdateSynonyms = (id: string, value: string) => {
+    workspaceStore.setAspects(
+      workspace.aspects.map(a => (a.id === id ? { ...a, synonyms: parseSynonyms(value) } : a))
+    );
+  };
+
+  const handleRemoveAspect = (id: string) => {
+    workspaceStore.setAspects(workspace.aspects.filter(a => a.id !== id));
+  };
+
+  const handleAddEntity = () => {
+    if (!newEntityName.trim()) return;
+    workspaceStore.setEntities([
+      ...entities,
+      {
+        id: `entity_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        name: newEntityName.trim(),
+        type: newEntityType,
+        aliases: parseSynonyms(newEntityAliases)
+      }
+    ]);
+    setNewEntityName('');
+    setNewEntityAliases('');
+  };
+
+  const handleUpdateAliases = (id: string, value: string) => {
+    workspaceStore.setEntities(entities.map(e => (e.id === id ? { ...e, aliases: parseSynonyms(value) } : e)));
+  };
+
+  const handleUpdateEntityType = (id: string, type: EntityType) => {
+    workspaceStore.setEntities(entities.map(e => (e.id === id ? { ...e, type } : e)));
+  };
+
+  const handleRemoveEntity = (id: string) => {
+    workspaceStore.setEntities(entities.filter(e => e.id !== id));
+  };
+
+  const handleAddTopic = () => {
+    if (!newTopicName.trim() || topics.some(t => t.name.toLowerCase() === newTopicName.trim().toLowerCase())) return;
+    workspaceStore.setTopics([
+      ...topics,
+      {
+        id: `topic_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        name: newTopicName.trim(),
+        keywords: parseSynonyms(newTopicKeywords)
+      }
+    ]);
+    setNewTopicName('');
+    setNewTopicKeywords('');
+  };
+
+  const handleUpdateTopicKeywords = (id: string, value: string) => {
+    workspaceStore.setTopics(topics.map(t => (t.id === id ? { ...t, keywords: parseSynonyms(value) } : t)));
+  };
+
+  const handleRemoveTopic = (id: string) => {
+    workspaceStore.setTopics(topics.filter(t => t.id !== id));
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-gray-200 shadow-sm">
+      <div className="flex items-center space-x-3 mb-6">
+        <Briefcase className="w-6 h-6 text-emerald-600" />
+        <h3 className="text-xl font-semibold text-gray-900">Workspace</h3>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <select
+          value={workspace.id}
+          onChange={(e) => workspaceStore.setActive(e.target.value)}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          {workspaces.map((w) => (
+            <option key={w.id} value={w.id}>{w.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={newWorkspaceName}
+          onChange={(e) => setNewWorkspaceName(e.target.value)}
+          placeholder="New workspace name"
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <button
+          onClick={handleCreateWorkspace}
+          disabled={!newWorkspaceName.trim()}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Create</span>
+        </button>
+        {workspaces.length > 1 && (
+          <button
+            onClick={() => workspaceStore.deleteWorkspace(workspace.id)}
+            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      <div className="mb-6">
+        <label htmlFor="label-schema" className="block text-sm font-medium text-gray-700 mb-2">
+          Label Schema
+        </label>
+        <select
+          id="label-schema"
+          value={schemas.some(s => s.id === workspace.labelSchemaId) ? workspace.labelSchemaId : DEFAULT_SCHEMA_ID}
+          onChange={(e) => workspaceStore.updateActive({ labelSchemaId: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          {schemas.map((s) => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        <p className="text-sm text-gray-600 mt-2">
+          Results analyzed in this workspace are reported in these labels, whatever scale the model uses.
+        </p>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-3">
+        <Tag className="w-4 h-4 text-gray-600" />
+        <h4 className="font-medium text-gray-900">Aspect Dictionary</h4>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Each analyzed text is scanned for these aspects and their synonyms. The clause around every
+        mention is scored separately, so a review can be positive about quality and negative about delivery.
+      </p>
+
+      <div className="space-y-3 mb-4">
+        {workspace.aspects.length === 0 && (
+          <p className="text-sm text-gray-500">No aspects defined for this workspace yet.</p>
+        )}
+        {workspace.aspects.map((aspect) => (
+          <div key={aspect.id} className="flex items-center gap-3">
+            <span className="w-32 font-medium text-gray-900 truncate">{aspect.name}</span>
+            <input
+              type="text"
+              defaultValue={aspect.synonyms.join(', ')}
+              onBlur={(e) => handleUpdateSynonyms(aspect.id, e.target.value)}
+              placeholder="Synonyms, comma separated"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+            <button
+              onClick={() => handleRemoveAspect(aspect.id)}
+              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={newAspectName}
+          onChange={(e) => setNewAspectName(e.target.value)}
+          placeholder="Aspect name (e.g. Battery)"
+          className="sm:w-48 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <input
+          type="text"
+          value={newAspectSynonyms}
+          onChange={(e) => setNewAspectSynonyms(e.target.value)}
+          placeholder="Synonyms, comma separated (e.g. battery, charge, charging)"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <button
+          onClick={handleAddAspect}
+          disabled={!newAspectName.trim()}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Aspect</span>
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2 mt-8 mb-3">
+        <Building2 className="w-4 h-4 text-gray-600" />
+        <h4 className="font-medium text-gray-900">Tracked Entities</h4>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Brands, products and competitors to follow across texts. Mentions of the name or any alias are
+        recorded with the sentiment of the clauses around them and ranked in the Entities view.
+      </p>
+
+      <div className="space-y-3 mb-4">
+        {entities.length === 0 && (
+          <p className="text-sm text-gray-500">No entities defined for this workspace yet.</p>
+        )}
+        {entities.map((entity) => (
+          <div key={entity.id} className="flex items-center gap-3">
+            <span className="w-32 font-medium text-gray-900 truncate">{entity.name}</span>
+            <select
+              value={entity.type}
+              onChange={(e) => handleUpdateEntityType(entity.id, e.target.value as EntityType)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            >
+              {ENTITY_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              defaultValue={entity.aliases.join(', ')}
+              onBlur={(e) => handleUpdateAliases(entity.id, e.target.value)}
+              placeholder="Aliases, comma separated"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+            <button
+              onClick={() => handleRemoveEntity(entity.id)}
+              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={newEntityName}
+          onChange={(e) => setNewEntityName(e.target.value)}
+          placeholder="Entity name (e.g. Acme)"
+          className="sm:w-48 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <select
+          value={newEntityType}
+          onChange={(e) => setNewEntityType(e.target.value as EntityType)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        >
+          {ENTITY_TYPES.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={newEntityAliases}
+          onChange={(e) => setNewEntityAliases(e.target.value)}
+          placeholder="Aliases, comma separated (e.g. acme corp, acme cloud)"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <button
+          onClick={handleAddEntity}
+          disabled={!newEntityName.trim()}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Entity</span>
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2 mt-8 mb-3">
+        <Folders className="w-4 h-4 text-gray-600" />
+        <h4 className="font-medium text-gray-900">Topics</h4>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Categories every text is tagged with. The zero-shot model reads the topic name itself, so name topics the
+        way you would describe them ("feature request", "UI bug"); the keywords tag texts when the model is not used.
+      </p>
+
+      <div className="space-y-3 mb-4">
+        {topics.length === 0 && (
+          <p className="text-sm text-gray-500">No topics defined for this workspace yet.</p>
+        )}
+        {topics.map((topic) => (
+          <div key={topic.id} className="flex items-center gap-3">
+            <span className="w-32 font-medium text-gray-900 truncate">{topic.name}</span>
+            <input
+              type="text"
+              defaultValue={topic.keywords.join(', ')}
+              onBlur={(e) => handleUpdateTopicKeywords(topic.id, e.target.value)}
+              placeholder="Keywords, comma separated"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+            <button
+              onClick={() => handleRemoveTopic(topic.id)}
+              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={newTopicName}
+          onChange={(e) => setNewTopicName(e.target.value)}
+          placeholder="Topic (e.g. billing)"
+          className="sm:w-48 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <input
+          type="text"
+          value={newTopicKeywords}
+          onChange={(e) => setNewTopicKeywords(e.target.value)}
+          placeholder="Keywords, comma separated (e.g. invoice, refund, charged)"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+        />
+        <button
+          onClick={handleAddTopic}
+          disabled={!newTopicName.trim()}
+          className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Topic</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { analysisCache } from '../services/analysisCache';
+
+export const useAnalysisCache = () => useSyncExternalStore(analysisCache.subscribe, analysisCache.getStats);
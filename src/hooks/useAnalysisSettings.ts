@@ -0,0 +1,13 @@
+import { useSyncExternalStore, useCallback } from 'react';
+import { settingsStore } from '../services/settingsStore';
+import { AnalysisSettings } from '../types/settings';
+
+export const useAnalysisSettings = () => {
+  const settings = useSyncExternalStore(settingsStore.subscribe, settingsStore.get);
+
+  const updateSettings = useCallback((changes: Partial<AnalysisSettings>) => {
+    settingsStore.update(changes);
+  }, []);
+
+  return { settings, updateSettings };
+};
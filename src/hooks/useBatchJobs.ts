@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { jobStore } from '../services/jobStore';
+
+export const useBatchJobs = () => useSyncExternalStore(jobStore.subscribe, jobStore.getJobs);
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { calibrationStore } from '../services/calibrationStore';
+
+export const useCalibrations = () =>
+  useSyncExternalStore(calibrationStore.subscribe, calibrationStore.getState).calibrations;
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { credentialStore } from '../services/credentialStore';
+
+export const useCredentials = () => useSyncExternalStore(credentialStore.subscribe, credentialStore.getState);
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { modelRegistry } from '../services/modelRegistry';
+
+export const useModelRegistry = () => {
+  useSyncExternalStore(modelRegistry.subscribe, modelRegistry.getState);
+
+  return {
+    models: modelRegistry.getModels(),
+    schemas: modelRegistry.getSchemas()
+  };
+};
@@ -1,6 +1,158 @@
 import { useState, useCallback } from 'react';
-import { SentimentResult, BatchResult, AnalysisState } from '../types/sentiment';
-import { huggingFaceService } from '../services/huggingfaceApi';
+import { SentimentResult, BatchResult, BatchItem, FailedBatchItem, AnalysisState, Attribution } from '../types/sentiment';
+import { SentimentAnalysis, SentimentProvider, AnalyzeOptions, RetryStatus, RunOptions } from '../types/provider';
+import { providerRegistry } from '../services/providerRegistry';
+import { settingsStore } from '../services/settingsStore';
+import { workspaceStore } from '../services/workspaceStore';
+import { modelRegistry } from '../services/modelRegistry';
+import { calibrationStore } from '../services/calibrationStore';
+import { keywordCorpusStore } from '../services/keywordCorpusStore';
+import { analyzeText, analyzeTexts, PipelineContext } from '../services/analysisPipeline';
+import { summarizeAspects } from '../services/aspectAnalyzer';
+import { jobStore, JobCancelledError, JobHandle } from '../services/jobStore';
+import { describeError, FATAL_ERROR_CODES } from '../services/providerErrors';
+import { isRatingMismatch } from '../services/starRating';
+import { explainByOcclusion } from '../services/occlusionExplainer';
+import { retryPolicyFromSettings } from '../services/retryPolicy';
+
+const createResult = (text: string, analysis: SentimentAnalysis, providerId: string): SentimentResult => ({
+  id: `result_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  text,
+  ...analysis,
+  timestamp: new Date(),
+  providerId
+});
+
+const getPipelineContext = (): PipelineContext => {
+  const workspace = workspaceStore.getActive();
+  return {
+    settings: settingsStore.get(),
+    aspects: workspace.aspects,
+    entities: workspace.entities ?? [],
+    topics: workspace.topics ?? [],
+    schema: modelRegistry.getSchema(workspace.labelSchemaId),
+    calibrations: calibrationStore.getState().calibrations,
+    lexicon: workspace.lexicon,
+    keywordCorpus: keywordCorpusStore.get(workspace.id)
+  };
+};
+
+// Later texts weigh their keywords against these
+const addToKeywordCorpus = (results: SentimentResult[]) => {
+  keywordCorpusStore.addDocuments(workspaceStore.getActive().id, results.map(result => result.text));
+};
+
+// Summary statistics cover successfully analyzed texts only.
+const summarizeBatch = (results: SentimentResult[], failedCount: number): BatchResult['summary'] => ({
+  totalTexts: results.length,
+  positiveCount: results.filter(r => r.sentiment === 'positive').length,
+  negativeCount: results.filter(r => r.sentiment === 'negative').length,
+  neutralCount: results.filter(r => r.sentiment === 'neutral').length,
+  averageConfidence: results.length ? results.reduce((sum, r) => sum + r.confidence, 0) / results.length : 0,
+  aspectCounts: summarizeAspects(results),
+  failedCount,
+  ratingMismatchCount: results.some(r => r.actualRating !== undefined) ? results.filter(isRatingMismatch).length : undefined
+});
+
+interface BatchEntry {
+  index: number;
+  text: string;
+  actualRating?: number;
+}
+
+interface ItemRun {
+  results: SentimentResult[];
+  items: BatchItem[];
+  cancelled: boolean;
+}
+
+/**
+ * Analyzes batch entries in slices so a cancelled job keeps every completed
+ * slice. When a slice fails, its texts are retried one at a time so a single
+ * bad text only fails itself; after a fatal error (missing or rejected
+ * credentials) the remaining texts are marked failed without further requests.
+ */
+const analyzeItems = async (
+  provider: SentimentProvider,
+  entries: BatchEntry[],
+  job: JobHandle,
+  options: Pick<AnalyzeOptions, 'onProgress' | 'onRetry' | 'bypassCache'>
+): Promise<ItemRun> => {
+  const context = getPipelineContext();
+  const sliceSize = Math.max(1, context.settings.requestBatchSize);
+  const run: ItemRun = { results: [], items: [], cancelled: false };
+  const requestOptions: AnalyzeOptions = {
+    onRetry: options.onRetry,
+    bypassCache: options.bypassCache,
+    signal: job.signal,
+    waitForResume: job.waitForResume
+  };
+  let fatal: ReturnType<typeof describeError> | null = null;
+
+  const succeed = (entry: BatchEntry, analysis: SentimentAnalysis) => {
+    const result = createResult(entry.text, analysis, provider.id);
+    if (entry.actualRating !== undefined) result.actualRating = entry.actualRating;
+    run.results.push(result);
+    run.items.push({ index: entry.index, status: 'ok', resultId: result.id });
+  };
+  const fail = (entry: BatchEntry, error: { code: string; message: string }) => {
+    run.items.push({
+      index: entry.index,
+      status: 'failed',
+      text: entry.text,
+      ...(entry.actualRating !== undefined && { actualRating: entry.actualRating }),
+      errorCode: error.code,
+      errorMessage: error.message
+    });
+  };
+
+  for (let start = 0; start < entries.length && !run.cancelled; start += sliceSize) {
+    const slice = entries.slice(start, start + sliceSize);
+    let sliceFailed = fatal !== null;
+
+    if (!sliceFailed) {
+      try {
+        const analyses = await analyzeTexts(provider, slice.map(entry => entry.text), context, {
+          ...requestOptions,
+          onProgress: (completed, total) => options.onProgress?.(start + (completed / total) * slice.length, entries.length)
+        });
+        slice.forEach((entry, i) => succeed(entry, analyses[i]));
+      } catch (sliceError) {
+        if (sliceError instanceof JobCancelledError) {
+          run.cancelled = true;
+          break;
+        }
+        const failure = describeError(sliceError);
+        if (FATAL_ERROR_CODES.includes(failure.code)) fatal = failure;
+        sliceFailed = true;
+      }
+    }
+
+    for (const entry of sliceFailed ? slice : []) {
+      if (fatal) {
+        fail(entry, fatal);
+        continue;
+      }
+      try {
+        const [analysis] = await analyzeTexts(provider, [entry.text], context, requestOptions);
+        succeed(entry, analysis);
+      } catch (itemError) {
+        if (itemError instanceof JobCancelledError) {
+          run.cancelled = true;
+          break;
+        }
+        const failure = describeError(itemError);
+        if (FATAL_ERROR_CODES.includes(failure.code)) fatal = failure;
+        fail(entry, failure);
+      }
+    }
+
+    job.setProgress(run.items.length);
+    options.onProgress?.(run.items.length, entries.length);
+  }
+
+  return run;
+};
 
 export const useSentimentAnalysis = () => {
   const [state, setState] = useState<AnalysisState>({
@@ -18,7 +170,8 @@ export const useSentimentAnalysis = () => {
         ...r,
         timestamp: new Date(r.timestamp)
       }))
-    }))
+    })),
+    retryStatus: null
   });
 
   const saveToLocalStorage = useCallback((results: SentimentResult[], batches: BatchResult[]) => {
@@ -26,24 +179,18 @@ export const useSentimentAnalysis = () => {
     localStorage.setItem('sentimentBatches', JSON.stringify(batches));
   }, []);
 
-  const analyzeSingleText = useCallback(async (text: string, useDemo: boolean = false) => {
+  const handleRetry = useCallback((retryStatus: RetryStatus | null) => {
+    setState(prev => ({ ...prev, retryStatus }));
+  }, []);
+
+  const analyzeSingleText = useCallback(async (text: string, runOptions: RunOptions = {}) => {
     setState(prev => ({ ...prev, isLoading: true, error: null, progress: 0 }));
     
     try {
-      const analysis = useDemo 
-        ? await huggingFaceService.analyzeSentimentDemo(text)
-        : await huggingFaceService.analyzeSentiment(text);
-      
-      const result: SentimentResult = {
-        id: `result_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        text,
-        sentiment: analysis.sentiment,
-        confidence: analysis.confidence,
-        scores: analysis.scores,
-        keywords: analysis.keywords,
-        timestamp: new Date(),
-        explanation: analysis.explanation
-      };
+      const provider = providerRegistry.resolve();
+      const analysis = await analyzeText(provider, text, getPipelineContext(), { ...runOptions, onRetry: handleRetry });
+      const result = createResult(text, analysis, provider.id);
+      addToKeywordCorpus([result]);
 
       setState(prev => {
         const newResults = [result, ...prev.results];
@@ -52,7 +199,8 @@ export const useSentimentAnalysis = () => {
           ...prev,
           results: newResults,
           isLoading: false,
-          progress: 100
+          progress: 100,
+          retryStatus: null
         };
       });
 
@@ -61,59 +209,70 @@ export const useSentimentAnalysis = () => {
       setState(prev => ({
         ...prev,
         isLoading: false,
+        retryStatus: null,
         error: error instanceof Error ? error.message : 'Analysis failed'
       }));
       throw error;
     }
-  }, [saveToLocalStorage]);
+  }, [saveToLocalStorage, handleRetry]);
+
+  const setProgress = useCallback((completed: number, total: number) => {
+    setState(prev => ({ ...prev, progress: (completed / total) * 100 }));
+  }, []);
+
+  const failJob = useCallback((job: JobHandle, error: unknown) => {
+    const message = error instanceof Error ? error.message : 'Batch analysis failed';
+    if (error instanceof JobCancelledError) {
+      job.finish('cancelled');
+    } else {
+      job.finish('failed', message);
+    }
+    setState(prev => ({
+      ...prev,
+      isLoading: false,
+      retryStatus: null,
+      error: message
+    }));
+  }, []);
 
-  const analyzeBatch = useCallback(async (texts: string[], batchName: string, useDemo: boolean = false) => {
+  // actualRatings[i] is the rating given with texts[i], if any
+  const analyzeBatch = useCallback(async (
+    texts: string[],
+    batchName: string,
+    runOptions: RunOptions = {},
+    actualRatings: Array<number | undefined> = []
+  ) => {
     setState(prev => ({ ...prev, isLoading: true, error: null, progress: 0 }));
-    
-    try {
-      const results: SentimentResult[] = [];
-      const total = texts.length;
-
-      for (let i = 0; i < texts.length; i++) {
-        const text = texts[i];
-        if (text.trim()) {
-          const analysis = useDemo 
-            ? await huggingFaceService.analyzeSentimentDemo(text)
-            : await huggingFaceService.analyzeSentiment(text);
-          
-          const result: SentimentResult = {
-            id: `result_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            text,
-            sentiment: analysis.sentiment,
-            confidence: analysis.confidence,
-            scores: analysis.scores,
-            keywords: analysis.keywords,
-            timestamp: new Date(),
-            explanation: analysis.explanation
-          };
-
-          results.push(result);
-        }
+    // Items keep their position in the input, blank rows included
+    const validEntries = texts
+      .map((text, index) => ({ index, text, actualRating: actualRatings[index] }))
+      .filter(entry => entry.text.trim());
+    const validTexts = validEntries.map(entry => entry.text);
+    const job = jobStore.start(batchName, validTexts.length);
 
-        setState(prev => ({
-          ...prev,
-          progress: ((i + 1) / total) * 100
-        }));
-      }
+    try {
+      const provider = providerRegistry.resolve();
+      const { results, items, cancelled } = await analyzeItems(
+        provider,
+        validEntries,
+        job,
+        { ...runOptions, onProgress: setProgress, onRetry: handleRetry }
+      );
+      if (cancelled && items.length === 0) throw new JobCancelledError();
 
+      const failedCount = items.filter(item => item.status === 'failed').length;
+      const partial = items.length < validTexts.length;
       const batch: BatchResult = {
         id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         name: batchName,
         results,
-        summary: {
-          totalTexts: results.length,
-          positiveCount: results.filter(r => r.sentiment === 'positive').length,
-          negativeCount: results.filter(r => r.sentiment === 'negative').length,
-          neutralCount: results.filter(r => r.sentiment === 'neutral').length,
-          averageConfidence: results.reduce((sum, r) => sum + r.confidence, 0) / results.length
-        },
-        createdAt: new Date()
+        summary: summarizeBatch(results, failedCount),
+        items,
+        createdAt: new Date(),
+        ...(partial && { partial, requestedTexts: validTexts.length })
       };
+      job.finish(partial ? 'cancelled' : 'completed', failedCount ? `${failedCount} of ${items.length} texts failed` : undefined);
+      addToKeywordCorpus(results);
 
       setState(prev => {
         const newResults = [...results, ...prev.results];
@@ -123,25 +282,94 @@ export const useSentimentAnalysis = () => {
           ...prev,
           results: newResults,
           batches: newBatches,
-          isLoading: false
+          isLoading: false,
+          retryStatus: null
         };
       });
 
       return batch;
     } catch (error) {
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: error instanceof Error ? error.message : 'Batch analysis failed'
-      }));
+      failJob(job, error);
       throw error;
     }
-  }, [saveToLocalStorage]);
+  }, [saveToLocalStorage, handleRetry, setProgress, failJob]);
+
+  const retryFailedItems = useCallback(async (batch: BatchResult) => {
+    const failed = (batch.items ?? []).filter((item): item is FailedBatchItem => item.status === 'failed');
+    if (failed.length === 0) return batch;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null, progress: 0 }));
+    const job = jobStore.start(`${batch.name} (retry failed)`, failed.length);
+
+    try {
+      const provider = providerRegistry.resolve();
+      const run = await analyzeItems(provider, failed, job, { onProgress: setProgress, onRetry: handleRetry });
+
+      const retried = new Map(run.items.map(item => [item.index, item]));
+      const items = batch.items!.map(item => retried.get(item.index) ?? item);
+      const resultsById = new Map([...batch.results, ...run.results].map(result => [result.id, result]));
+      const results = items.flatMap(item => (item.status === 'ok' ? [resultsById.get(item.resultId)!] : []));
+      const failedCount = items.filter(item => item.status === 'failed').length;
+      const updated: BatchResult = { ...batch, results, items, summary: summarizeBatch(results, failedCount) };
+      job.finish(run.cancelled ? 'cancelled' : 'completed', failedCount ? `${failedCount} texts still failing` : undefined);
+      addToKeywordCorpus(run.results);
+
+      setState(prev => {
+        const newResults = [...run.results, ...prev.results];
+        const newBatches = prev.batches.map(b => (b.id === batch.id ? updated : b));
+        saveToLocalStorage(newResults, newBatches);
+        return {
+          ...prev,
+          results: newResults,
+          batches: newBatches,
+          isLoading: false,
+          retryStatus: null
+        };
+      });
+
+      return updated;
+    } catch (error) {
+      failJob(job, error);
+      throw error;
+    }
+  }, [saveToLocalStorage, handleRetry, setProgress, failJob]);
+
+  // Attaches occlusion attributions to a stored result, wherever it appears
+  const explainResult = useCallback(async (
+    result: SentimentResult,
+    onProgress?: (completed: number, total: number) => void
+  ) => {
+    const context = getPipelineContext();
+    let attribution: Attribution;
+    try {
+      attribution = await explainByOcclusion(providerRegistry.resolve(), result, {
+        batchSize: context.settings.requestBatchSize,
+        retry: retryPolicyFromSettings(context.settings),
+        lexicon: context.lexicon?.entries,
+        onRetry: handleRetry,
+        onProgress
+      });
+    } finally {
+      handleRetry(null);
+    }
+    const updated: SentimentResult = { ...result, attribution };
+    const replace = (r: SentimentResult) => (r.id === result.id ? updated : r);
+
+    setState(prev => {
+      const newResults = prev.results.map(replace);
+      const newBatches = prev.batches.map(b => (b.results.some(r => r.id === result.id) ? { ...b, results: b.results.map(replace) } : b));
+      saveToLocalStorage(newResults, newBatches);
+      return { ...prev, results: newResults, batches: newBatches };
+    });
+
+    return updated;
+  }, [saveToLocalStorage, handleRetry]);
 
   const clearResults = useCallback(() => {
     setState(prev => ({ ...prev, results: [], batches: [] }));
     localStorage.removeItem('sentimentResults');
     localStorage.removeItem('sentimentBatches');
+    keywordCorpusStore.clear();
   }, []);
 
   const deleteResult = useCallback((id: string) => {
@@ -169,6 +397,8 @@ export const useSentimentAnalysis = () => {
     ...state,
     analyzeSingleText,
     analyzeBatch,
+    retryFailedItems,
+    explainResult,
     clearResults,
     deleteResult,
     deleteBatch
@@ -0,0 +1,17 @@
+import { useSyncExternalStore, useCallback } from 'react';
+import { providerRegistry } from '../services/providerRegistry';
+
+export const useSentimentProvider = () => {
+  useSyncExternalStore(providerRegistry.subscribe, providerRegistry.getRevision);
+
+  const setActiveProvider = useCallback((id: string) => {
+    providerRegistry.setActive(id);
+  }, []);
+
+  return {
+    provider: providerRegistry.getActive(),
+    activeProviderId: providerRegistry.getActiveId(),
+    providers: providerRegistry.list(),
+    setActiveProvider
+  };
+};
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { workspaceStore } from '../services/workspaceStore';
+
+export const useWorkspace = () => {
+  const { workspaces } = useSyncExternalStore(workspaceStore.subscribe, workspaceStore.getState);
+
+  return {
+    workspace: workspaceStore.getActive(),
+    workspaces
+  };
+};
@@ -0,0 +1,120 @@
+import { RawLabelScore } from './sentimentUtils';
+import { dbGetMany, dbPutMany, dbCount, dbClear, dbDeleteLowest } from './browserDb';
+import { settingsStore } from './settingsStore';
+
+interface CacheEntry {
+  results: RawLabelScore[];
+  lastUsed: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+// Whitespace and Unicode form differences do not change what the model sees.
+const normalizeText = (text: string) => text.normalize('NFC').trim().replace(/\s+/g, ' ');
+
+// FNV-1a, for insecure contexts (plain http) where crypto.subtle is missing
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv${(hash >>> 0).toString(16)}-${text.length}`;
+};
+
+const hashText = async (text: string): Promise<string> => {
+  if (!globalThis.crypto?.subtle) return fnv1a(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Raw label scores of previously analyzed texts, stored in IndexedDB and
+ * keyed by provider, model and a hash of the normalized text. The least
+ * recently used entries are evicted once the configured size cap is reached.
+ * Storage failures only cost cache hits, so they are logged and ignored.
+ */
+class AnalysisCache {
+  private stats: CacheStats = { entries: 0, hits: 0, misses: 0 };
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.refreshCount();
+  }
+
+  getStats = (): CacheStats => this.stats;
+
+  private setStats(changes: Partial<CacheStats>) {
+    this.stats = { ...this.stats, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async refreshCount() {
+    try {
+      this.setStats({ entries: await dbCount('analysisCache') });
+    } catch (error) {
+      console.warn('Analysis cache unavailable:', error);
+    }
+  }
+
+  async keyFor(providerId: string, model: string, text: string): Promise<string> {
+    return `${providerId}|${model}|${await hashText(normalizeText(text))}`;
+  }
+
+  async getMany(keys: string[]): Promise<Array<RawLabelScore[] | undefined>> {
+    try {
+      const entries = await dbGetMany<CacheEntry>('analysisCache', keys);
+      const now = Date.now();
+      const hits = keys.flatMap((key, i) => {
+        const entry = entries[i];
+        return entry ? [{ key, value: { ...entry, lastUsed: now } }] : [];
+      });
+      if (hits.length > 0) {
+        await dbPutMany('analysisCache', hits);
+      }
+      this.setStats({
+        hits: this.stats.hits + hits.length,
+        misses: this.stats.misses + keys.length - hits.length
+      });
+      return entries.map(entry => entry?.results);
+    } catch (error) {
+      console.warn('Analysis cache lookup failed:', error);
+      return keys.map(() => undefined);
+    }
+  }
+
+  async putMany(entries: Array<{ key: string; results: RawLabelScore[] }>): Promise<void> {
+    if (entries.length === 0) return;
+    try {
+      const now = Date.now();
+      await dbPutMany('analysisCache', entries.map(({ key, results }) => ({ key, value: { results, lastUsed: now } })));
+
+      const maxEntries = settingsStore.get().cacheMaxEntries;
+      const count = await dbCount('analysisCache');
+      if (count > maxEntries) {
+        await dbDeleteLowest('analysisCache', 'lastUsed', count - maxEntries);
+      }
+      await this.refreshCount();
+    } catch (error) {
+      console.warn('Analysis cache write failed:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await dbClear('analysisCache');
+    this.setStats({ entries: 0, hits: 0, misses: 0 });
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const analysisCache = new AnalysisCache();
@@ -0,0 +1,289 @@
+import { SentimentProvider, SentimentAnalysis, AnalyzeOptions } from '../types/provider';
+import { AnalysisSettings } from '../types/settings';
+import { ChunkResult, DetectedLanguage, KeywordCorpus, LabelSchema, LabelScores, StarRating } from '../types/sentiment';
+import { chunkText, splitSentences, aggregateChunkScores, TextChunk } from './textChunker';
+import { generateExplanation, topSentiment } from './sentimentUtils';
+import { extractKeywords } from './keywordExtractor';
+import { planAspects, scoreAspect, AspectPlan } from './aspectAnalyzer';
+import { planEntities, scoreEntity, EntityPlan } from './entityRecognizer';
+import { AspectDefinition, CustomLexicon, EntityDefinition, TopicDefinition } from '../types/workspace';
+import { analyzeEmotions } from './emotionAnalyzer';
+import { analyzeToxicity } from './toxicityAnalyzer';
+import { classifyTopics } from './topicClassifier';
+import { retryPolicyFromSettings } from './retryPolicy';
+import { combineChunkEnsembles } from './ensembleService';
+import { detectLanguage } from './languageDetector';
+import { modelRegistry } from './modelRegistry';
+import { aggregateLabelScores, labelsFromScores, projectLabelScores, rescaleLabelScores } from './labelSchemas';
+import { predictRating } from './starRating';
+import { applyCalibration } from './calibration';
+import { Calibration } from '../types/calibration';
+
+const toSpanResult = (span: TextChunk, analysis: SentimentAnalysis): ChunkResult => ({
+  text: span.text,
+  start: span.start,
+  end: span.end,
+  sentiment: analysis.sentiment,
+  confidence: analysis.confidence,
+  scores: analysis.scores
+});
+
+// Providers without labels of their own are read as three-point
+const modelLabels = (analysis: SentimentAnalysis): LabelScores => analysis.labels ?? labelsFromScores(analysis.scores);
+
+const workspaceLabels = (analysis: SentimentAnalysis, schema: LabelSchema): LabelScores => {
+  const labels = modelLabels(analysis);
+  return projectLabelScores(labels, modelRegistry.getSchema(labels.schemaId), schema);
+};
+
+// Rated in the model's own schema so five-star models keep their stars;
+// chunks are combined in the first chunk's schema
+const rateChunks = (chunks: TextChunk[], analyses: SentimentAnalysis[], settings: AnalysisSettings): StarRating => {
+  const schema = modelRegistry.getSchema(modelLabels(analyses[0]).schemaId);
+  return predictRating(aggregateLabelScores(
+    analyses.map((analysis, i) => ({
+      labels: workspaceLabels(analysis, schema),
+      negative: analysis.scores.negative,
+      length: chunks[i].text.length
+    })),
+    settings.chunkAggregation,
+    schema
+  ));
+};
+
+const calibrationFor = (analysis: SentimentAnalysis, context: PipelineContext): Calibration | undefined =>
+  context.calibrations.find(calibration => calibration.modelId === analysis.model);
+
+/**
+ * Swaps a unit's scores for calibrated ones when its model has a
+ * calibration, and rescales its labels to match so workspace labels and
+ * ratings follow the calibrated scores. Providers open their explanation
+ * with the default wording of `generateExplanation`, which is replaced by
+ * the calibrated one.
+ */
+const calibrate = (analysis: SentimentAnalysis, context: PipelineContext): SentimentAnalysis => {
+  const calibration = calibrationFor(analysis, context);
+  if (!calibration) return analysis;
+
+  const scores = applyCalibration(analysis.scores, calibration);
+  const sentiment = topSentiment(scores);
+  const confidence = scores[sentiment];
+  const labels = modelLabels(analysis);
+  return {
+    ...analysis,
+    sentiment,
+    confidence,
+    scores,
+    labels: rescaleLabelScores(labels, modelRegistry.getSchema(labels.schemaId), scores),
+    explanation: analysis.explanation.replace(
+      generateExplanation(analysis.sentiment, analysis.confidence, analysis.keywords),
+      generateExplanation(sentiment, confidence, analysis.keywords, calibration.thresholds)
+    ),
+    calibrated: calibration.method
+  };
+};
+
+const combineChunks = (
+  text: string,
+  chunks: TextChunk[],
+  analyses: SentimentAnalysis[],
+  context: PipelineContext
+): SentimentAnalysis => {
+  const { settings, schema } = context;
+  if (chunks.length === 1) {
+    return { ...analyses[0], labels: workspaceLabels(analyses[0], schema) };
+  }
+
+  const scores = aggregateChunkScores(
+    analyses.map((analysis, i) => ({ scores: analysis.scores, length: chunks[i].text.length })),
+    settings.chunkAggregation
+  );
+  const sentiment = topSentiment(scores);
+  const confidence = scores[sentiment];
+  const keywords = extractKeywords(text, {
+    sentiment,
+    lexicon: context.lexicon?.entries,
+    corpus: context.keywordCorpus
+  });
+  const thresholds = calibrationFor(analyses[0], context)?.thresholds;
+
+  return {
+    sentiment,
+    confidence,
+    scores,
+    keywords,
+    explanation: `${generateExplanation(sentiment, confidence, keywords, thresholds)} Analyzed in ${chunks.length} chunks (${settings.chunkAggregation}).`,
+    chunks: chunks.map((chunk, i) => toSpanResult(chunk, analyses[i])),
+    chunkAggregation: settings.chunkAggregation,
+    cached: analyses.every(analysis => analysis.cached) || undefined,
+    model: analyses[0].model,
+    calibrated: analyses[0].calibrated,
+    ensemble: combineChunkEnsembles(analyses, chunks.map(chunk => chunk.text.length), settings.chunkAggregation),
+    labels: aggregateLabelScores(
+      analyses.map((analysis, i) => ({
+        labels: workspaceLabels(analysis, schema),
+        negative: analysis.scores.negative,
+        length: chunks[i].text.length
+      })),
+      settings.chunkAggregation,
+      schema
+    )
+  };
+};
+
+export interface PipelineContext {
+  settings: AnalysisSettings;
+  aspects: AspectDefinition[];
+  entities: EntityDefinition[];
+  topics: TopicDefinition[];
+  // Label schema results are reported in
+  schema: LabelSchema;
+  // Applied to the scores of the models they were fitted for
+  calibrations: Calibration[];
+  // Workspace domain terms
+  lexicon?: CustomLexicon;
+  // Earlier texts of the workspace, for keyword weighting
+  keywordCorpus?: KeywordCorpus;
+}
+
+interface TextPlan {
+  chunks: TextChunk[];
+  sentences: TextChunk[];
+  aspects: AspectPlan[];
+  entities: EntityPlan[];
+}
+
+// Sentence segments are only worth extra provider calls when a text has
+// more than one sentence; otherwise the document result already says it all.
+const planText = (text: string, language: DetectedLanguage, maxChars: number, context: PipelineContext): TextPlan => {
+  const chunks = chunkText(text, maxChars);
+  const spans = context.settings.sentenceSegments ? splitSentences(text) : [];
+  const sentences = spans.length > 1
+    ? spans.map(span => ({ ...span, text: text.slice(span.start, span.end) }))
+    : [];
+  return {
+    chunks,
+    sentences,
+    aspects: planAspects(text, context.aspects),
+    entities: planEntities(text, context.entities, { detect: context.settings.detectEntities, language })
+  };
+};
+
+const planUnits = (plan: TextPlan): string[] => [
+  ...plan.chunks,
+  ...plan.sentences,
+  ...plan.aspects.flatMap(aspect => aspect.clauses),
+  ...plan.entities.flatMap(entity => entity.clauses)
+].map(unit => unit.text);
+
+// Model configured for a language when routing is on; undefined keeps the
+// provider's default model. Rating mode sends everything to the rating
+// model, which is multilingual.
+const routedModel = (language: DetectedLanguage, settings: AnalysisSettings): string | undefined => {
+  if (settings.ratingMode) return settings.ratingModel || undefined;
+  return settings.languageRouting && language !== 'unknown' ? settings.languageModels[language] || undefined : undefined;
+};
+
+/**
+ * Sends every unit to the provider, one `analyzeMany` call per routed model;
+ * providers that can't switch models get every unit in one call.
+ * A unit shared by texts in different languages goes with the first text.
+ */
+const analyzeUnits = async (
+  provider: SentimentProvider,
+  plans: TextPlan[],
+  languages: DetectedLanguage[],
+  context: PipelineContext,
+  options: AnalyzeOptions
+): Promise<Map<string, SentimentAnalysis>> => {
+  const groups = new Map<string, string[]>();
+  const seen = new Set<string>();
+  plans.forEach((plan, i) => {
+    const model = (provider.capabilities.acceptsModel && routedModel(languages[i], context.settings)) || '';
+    planUnits(plan).forEach(unit => {
+      if (seen.has(unit)) return;
+      seen.add(unit);
+      if (!groups.has(model)) groups.set(model, []);
+      groups.get(model)!.push(unit);
+    });
+  });
+
+  const byText = new Map<string, SentimentAnalysis>();
+  let done = 0;
+  for (const [model, units] of groups) {
+    const offset = done;
+    const analyses = await provider.analyzeMany(units, {
+      ...options,
+      model: model || undefined,
+      onProgress: (completed) => options.onProgress?.(offset + completed, seen.size)
+    });
+    // Providers that don't name a model are calibrated as a whole
+    units.forEach((unit, i) => byText.set(unit, calibrate({ ...analyses[i], model: analyses[i].model ?? provider.id }, context)));
+    done += units.length;
+  }
+  return byText;
+};
+
+/**
+ * Runs texts through a provider. Texts longer than the provider's input limit
+ * are chunked and the chunk scores aggregated; sentences and the clauses
+ * around aspect and entity mentions are scored separately when enabled, and
+ * emotion, toxicity and topic labels are attached from their configured
+ * sources. Each text is tagged with its detected language, which picks the
+ * model when routing is enabled, and rated in stars in rating mode.
+ * Every distinct unit of every text goes to the provider once, batched per
+ * model into `analyzeMany` calls that providers may split into requests.
+ */
+export const analyzeTexts = async (
+  provider: SentimentProvider,
+  texts: string[],
+  context: PipelineContext,
+  options: AnalyzeOptions = {}
+): Promise<SentimentAnalysis[]> => {
+  const languages = texts.map(text => detectLanguage(text).language);
+  const plans = texts.map((text, i) => planText(text, languages[i], provider.capabilities.maxInputChars, context));
+  const requestOptions: AnalyzeOptions = {
+    batchSize: context.settings.requestBatchSize,
+    retry: retryPolicyFromSettings(context.settings),
+    lexicon: context.lexicon?.entries,
+    keywordCorpus: context.keywordCorpus,
+    ...options
+  };
+  const byText = await analyzeUnits(provider, plans, languages, context, requestOptions);
+  const emotions = await analyzeEmotions(provider, texts, context.settings, { ...requestOptions, onProgress: undefined });
+  const toxicity = await analyzeToxicity(provider, texts, context.settings, { ...requestOptions, onProgress: undefined });
+  const topics = await classifyTopics(provider, texts, context.topics, context.settings, { ...requestOptions, onProgress: undefined });
+
+  return plans.map((plan, i) => {
+    const chunkAnalyses = plan.chunks.map(chunk => byText.get(chunk.text)!);
+    const analysis = combineChunks(texts[i], plan.chunks, chunkAnalyses, context);
+    return {
+      ...analysis,
+      segments: plan.sentences.length > 0
+        ? plan.sentences.map(sentence => toSpanResult(sentence, byText.get(sentence.text)!))
+        : undefined,
+      aspects: plan.aspects.length > 0
+        ? plan.aspects.map(aspect => scoreAspect(aspect, aspect.clauses.map(clause => byText.get(clause.text)!.scores)))
+        : undefined,
+      entities: plan.entities.length > 0
+        ? plan.entities.map(entity => scoreEntity(entity, entity.clauses.map(clause => byText.get(clause.text)!.scores)))
+        : undefined,
+      emotion: emotions[i],
+      toxicity: toxicity[i],
+      topics: topics[i],
+      language: languages[i],
+      lexiconVersion: context.lexicon?.version,
+      rating: context.settings.ratingMode ? rateChunks(plan.chunks, chunkAnalyses, context.settings) : undefined
+    };
+  });
+};
+
+export const analyzeText = async (
+  provider: SentimentProvider,
+  text: string,
+  context: PipelineContext,
+  options: AnalyzeOptions = {}
+): Promise<SentimentAnalysis> => {
+  const [analysis] = await analyzeTexts(provider, [text], context, options);
+  return analysis;
+};
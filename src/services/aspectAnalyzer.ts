@@ -0,0 +1,96 @@
+import { AspectDefinition } from '../types/workspace';
+import { AspectMention, AspectResult, SentimentLabel, SentimentScores, SentimentCounts } from '../types/sentiment';
+import { splitClauses, TextChunk, TextSpan } from './textChunker';
+
+export interface AspectPlan {
+  aspect: AspectDefinition;
+  mentions: AspectMention[];
+  clauses: TextChunk[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive mentions of any of the terms
+export const findTermMentions = (text: string, rawTerms: string[]): AspectMention[] => {
+  const terms = rawTerms.map(term => term.trim()).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  // Longest terms first so "customer service" wins over "service".
+  const pattern = new RegExp(
+    `\\b(?:${terms.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})\\b`,
+    'gi'
+  );
+
+  return Array.from(text.matchAll(pattern), match => ({
+    term: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+};
+
+export const findAspectMentions = (text: string, aspect: AspectDefinition): AspectMention[] =>
+  findTermMentions(text, [aspect.name, ...aspect.synonyms]);
+
+// Clauses containing at least one of the mentions, with their text
+export const clausesAround = (text: string, clauses: TextSpan[], mentions: AspectMention[]): TextChunk[] =>
+  clauses
+    .filter(clause => mentions.some(m => m.start >= clause.start && m.end <= clause.end))
+    .map(clause => ({ ...clause, text: text.slice(clause.start, clause.end) }));
+
+/**
+ * Locates every aspect mentioned in the text together with the clauses that
+ * contain those mentions. Aspects without mentions are left out.
+ */
+export const planAspects = (text: string, aspects: AspectDefinition[]): AspectPlan[] => {
+  if (aspects.length === 0) return [];
+  const clauses = splitClauses(text);
+
+  return aspects
+    .map(aspect => {
+      const mentions = findAspectMentions(text, aspect);
+      return { aspect, mentions, clauses: clausesAround(text, clauses, mentions) };
+    })
+    .filter(plan => plan.mentions.length > 0);
+};
+
+export const averageClauseScores = (clauseScores: SentimentScores[]): { scores: SentimentScores; sentiment: SentimentLabel } => {
+  const scores = { positive: 0, negative: 0, neutral: 0 };
+  clauseScores.forEach(clause => {
+    (Object.keys(scores) as SentimentLabel[]).forEach(key => {
+      scores[key] += clause[key] / clauseScores.length;
+    });
+  });
+
+  const sentiment = (Object.keys(scores) as SentimentLabel[]).reduce((a, b) => (scores[a] >= scores[b] ? a : b));
+  return { scores, sentiment };
+};
+
+/**
+ * Averages the scores of the clauses mentioning an aspect into the aspect's
+ * sentiment; `score` is the averaged probability of that sentiment.
+ */
+export const scoreAspect = (plan: AspectPlan, clauseScores: SentimentScores[]): AspectResult => {
+  const { scores, sentiment } = averageClauseScores(clauseScores);
+
+  return {
+    name: plan.aspect.name,
+    sentiment,
+    score: scores[sentiment],
+    mentions: plan.mentions
+  };
+};
+
+/**
+ * Counts, per aspect name, how many results expressed each sentiment toward
+ * it. Used for batch summaries and the dashboard's aspect matrix.
+ */
+export const summarizeAspects = (results: Array<{ aspects?: AspectResult[] }>): Record<string, SentimentCounts> => {
+  const counts: Record<string, SentimentCounts> = {};
+  results.forEach(result => {
+    result.aspects?.forEach(aspect => {
+      counts[aspect.name] = counts[aspect.name] || { positive: 0, negative: 0, neutral: 0 };
+      counts[aspect.name][aspect.sentiment]++;
+    });
+  });
+  return counts;
+};
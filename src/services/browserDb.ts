@@ -0,0 +1,104 @@
+const DB_NAME = 'sentimentlab';
+const DB_VERSION = 2;
+const STORES = ['models', 'analysisCache'] as const;
+
+export type StoreName = typeof STORES[number];
+
+// Indexes over a property of the stored values, created with the store
+const STORE_INDEXES: Partial<Record<StoreName, string[]>> = {
+  analysisCache: ['lastUsed']
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.forEach(store => {
+          if (!request.result.objectStoreNames.contains(store)) {
+            const objectStore = request.result.createObjectStore(store);
+            STORE_INDEXES[store]?.forEach(index => objectStore.createIndex(index, index));
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+export const dbGet = async <T>(store: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(store).objectStore(store).get(key));
+};
+
+export const dbPut = async <T>(store: StoreName, key: string, value: T): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const dbDelete = async (store: StoreName, key: string): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+const complete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const dbGetMany = async <T>(store: StoreName, keys: string[]): Promise<Array<T | undefined>> => {
+  const db = await openDb();
+  const objectStore = db.transaction(store).objectStore(store);
+  return Promise.all(keys.map(key => promisify<T | undefined>(objectStore.get(key))));
+};
+
+export const dbPutMany = async <T>(store: StoreName, entries: Array<{ key: string; value: T }>): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction(store, 'readwrite');
+  entries.forEach(({ key, value }) => transaction.objectStore(store).put(value, key));
+  await complete(transaction);
+};
+
+export const dbCount = async (store: StoreName): Promise<number> => {
+  const db = await openDb();
+  return promisify(db.transaction(store).objectStore(store).count());
+};
+
+export const dbClear = async (store: StoreName): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
+
+// Deletes the `count` entries with the lowest values of `index`.
+export const dbDeleteLowest = async (store: StoreName, index: string, count: number): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction(store, 'readwrite');
+  const request = transaction.objectStore(store).index(index).openCursor();
+  let deleted = 0;
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor && deleted < count) {
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    }
+  };
+  await complete(transaction);
+};
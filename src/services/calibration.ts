@@ -0,0 +1,192 @@
+import { SentimentLabel, SentimentScores } from '../types/sentiment';
+import { Calibration, CalibrationMethod, ReliabilityBin } from '../types/calibration';
+import { DEFAULT_CONFIDENCE_THRESHOLDS, topSentiment } from './sentimentUtils';
+
+// Confidence levels mean "right this often" on the labelled sample
+const HIGH_ACCURACY = 0.9;
+const MODERATE_ACCURACY = 0.7;
+const MIN_SAMPLES_ABOVE_THRESHOLD = 5;
+
+const BIN_COUNT = 10;
+const MIN_PROBABILITY = 1e-6;
+const MIN_TEMPERATURE = 0.05;
+const MAX_TEMPERATURE = 20;
+
+export interface LabelledScores {
+  scores: SentimentScores;
+  label: SentimentLabel;
+}
+
+const LABELS: SentimentLabel[] = ['positive', 'negative', 'neutral'];
+
+const withTemperature = (scores: SentimentScores, temperature: number): SentimentScores => {
+  const powered = LABELS.map(label => Math.pow(Math.max(MIN_PROBABILITY, scores[label]), 1 / temperature));
+  const total = powered.reduce((sum, value) => sum + value, 0);
+  return { positive: powered[0] / total, negative: powered[1] / total, neutral: powered[2] / total };
+};
+
+const interpolate = (map: { x: number[]; y: number[] }, value: number): number => {
+  const { x, y } = map;
+  if (value <= x[0]) return y[0];
+  if (value >= x[x.length - 1]) return y[y.length - 1];
+  const i = x.findIndex(point => point >= value);
+  const t = (value - x[i - 1]) / (x[i] - x[i - 1] || 1);
+  return y[i - 1] + t * (y[i] - y[i - 1]);
+};
+
+/**
+ * Replaces the top score with its calibrated value and rescales the other
+ * labels to share the rest, never so far that another label overtakes it.
+ */
+const withIsotonic = (scores: SentimentScores, map: { x: number[]; y: number[] }): SentimentScores => {
+  const top = topSentiment(scores);
+  const raw = scores[top];
+  const others = LABELS.filter(label => label !== top);
+  const runnerUp = Math.max(...others.map(label => scores[label]));
+  const floor = runnerUp / (1 - raw + runnerUp || 1);
+  const calibrated = Math.max(floor, Math.min(1, interpolate(map, raw)));
+  const rest = 1 - raw;
+
+  const result = { ...scores, [top]: calibrated };
+  others.forEach(label => {
+    result[label] = rest > 0 ? scores[label] * ((1 - calibrated) / rest) : (1 - calibrated) / others.length;
+  });
+  return result;
+};
+
+export const applyCalibration = (scores: SentimentScores, calibration: Calibration): SentimentScores => {
+  if (calibration.method === 'temperature' && calibration.temperature) {
+    return withTemperature(scores, calibration.temperature);
+  }
+  if (calibration.method === 'isotonic' && calibration.isotonic) {
+    return withIsotonic(scores, calibration.isotonic);
+  }
+  return scores;
+};
+
+const negativeLogLikelihood = (samples: LabelledScores[], temperature: number) =>
+  samples.reduce((sum, sample) => sum - Math.log(withTemperature(sample.scores, temperature)[sample.label]), 0) /
+  samples.length;
+
+/**
+ * Temperature scaling: the single exponent that maximizes the likelihood of
+ * the true labels, found by golden-section search over log temperature.
+ */
+export const fitTemperature = (samples: LabelledScores[]): number => {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let lo = Math.log(MIN_TEMPERATURE);
+  let hi = Math.log(MAX_TEMPERATURE);
+  for (let i = 0; i < 60; i++) {
+    const a = hi - ratio * (hi - lo);
+    const b = lo + ratio * (hi - lo);
+    if (negativeLogLikelihood(samples, Math.exp(a)) < negativeLogLikelihood(samples, Math.exp(b))) {
+      hi = b;
+    } else {
+      lo = a;
+    }
+  }
+  return Math.exp((lo + hi) / 2);
+};
+
+/**
+ * Isotonic regression of correctness on top confidence by pool adjacent
+ * violators. Each pooled block becomes one point at its mean confidence.
+ */
+export const fitIsotonic = (samples: LabelledScores[]): { x: number[]; y: number[] } => {
+  const points = samples
+    .map(sample => {
+      const top = topSentiment(sample.scores);
+      return { confidence: sample.scores[top], correct: top === sample.label ? 1 : 0 };
+    })
+    .sort((a, b) => a.confidence - b.confidence);
+
+  const blocks: Array<{ confidence: number; correct: number; count: number }> = [];
+  points.forEach(point => {
+    blocks.push({ confidence: point.confidence, correct: point.correct, count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.correct / previous.count <= last.correct / last.count) break;
+      blocks.splice(blocks.length - 2, 2, {
+        confidence: (previous.confidence * previous.count + last.confidence * last.count) / (previous.count + last.count),
+        correct: previous.correct + last.correct,
+        count: previous.count + last.count
+      });
+    }
+  });
+
+  return { x: blocks.map(block => block.confidence), y: blocks.map(block => block.correct / block.count) };
+};
+
+export const reliabilityBins = (samples: LabelledScores[]): ReliabilityBin[] =>
+  Array.from({ length: BIN_COUNT }, (_, i) => {
+    const lower = i / BIN_COUNT;
+    const upper = (i + 1) / BIN_COUNT;
+    const inBin = samples.filter(sample => {
+      const confidence = sample.scores[topSentiment(sample.scores)];
+      return confidence >= lower && (confidence < upper || (i === BIN_COUNT - 1 && confidence <= upper));
+    });
+    return {
+      lower,
+      upper,
+      count: inBin.length,
+      confidence: inBin.length ? inBin.reduce((sum, s) => sum + s.scores[topSentiment(s.scores)], 0) / inBin.length : 0,
+      accuracy: inBin.length ? inBin.filter(s => topSentiment(s.scores) === s.label).length / inBin.length : 0
+    };
+  });
+
+export const expectedCalibrationError = (bins: ReliabilityBin[]): number => {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  return total ? bins.reduce((sum, bin) => sum + (bin.count / total) * Math.abs(bin.accuracy - bin.confidence), 0) : 0;
+};
+
+// Lowest confidence above which the sample is right at least `target` of the
+// time; 1 when no confidence level reaches it
+const thresholdFor = (samples: LabelledScores[], target: number): number => {
+  const points = samples
+    .map(sample => {
+      const top = topSentiment(sample.scores);
+      return { confidence: sample.scores[top], correct: top === sample.label };
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+
+  let threshold = 1;
+  let correct = 0;
+  points.forEach((point, i) => {
+    if (point.correct) correct++;
+    if (i + 1 >= MIN_SAMPLES_ABOVE_THRESHOLD && correct / (i + 1) >= target) threshold = point.confidence;
+  });
+  return threshold;
+};
+
+/**
+ * Fits a calibration for one model from its uncalibrated scores on a
+ * labelled sample, and derives the confidence levels from the calibrated
+ * scores.
+ */
+export const fitCalibration = (modelId: string, method: CalibrationMethod, samples: LabelledScores[]): Calibration => {
+  const fitted: Pick<Calibration, 'temperature' | 'isotonic'> = method === 'temperature'
+    ? { temperature: fitTemperature(samples) }
+    : { isotonic: fitIsotonic(samples) };
+  const calibration: Calibration = {
+    modelId,
+    method,
+    ...fitted,
+    thresholds: DEFAULT_CONFIDENCE_THRESHOLDS,
+    sampleSize: samples.length,
+    accuracy: samples.filter(s => topSentiment(s.scores) === s.label).length / samples.length,
+    eceBefore: 0,
+    eceAfter: 0,
+    binsBefore: reliabilityBins(samples),
+    binsAfter: [],
+    fittedAt: new Date().toISOString()
+  };
+
+  const calibrated = samples.map(sample => ({ ...sample, scores: applyCalibration(sample.scores, calibration) }));
+  const moderate = thresholdFor(calibrated, MODERATE_ACCURACY);
+  calibration.binsAfter = reliabilityBins(calibrated);
+  calibration.eceBefore = expectedCalibrationError(calibration.binsBefore);
+  calibration.eceAfter = expectedCalibrationError(calibration.binsAfter);
+  calibration.thresholds = { high: Math.max(moderate, thresholdFor(calibrated, HIGH_ACCURACY)), moderate };
+  return calibration;
+};
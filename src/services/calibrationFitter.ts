@@ -0,0 +1,67 @@
+import { SentimentProvider, AnalyzeOptions } from '../types/provider';
+import { SentimentLabel } from '../types/sentiment';
+import { Calibration, CalibrationMethod } from '../types/calibration';
+import { analyzeTexts } from './analysisPipeline';
+import { fitCalibration, LabelledScores } from './calibration';
+import { settingsStore } from './settingsStore';
+import { modelRegistry } from './modelRegistry';
+import { workspaceStore } from './workspaceStore';
+
+// Fewer labelled texts than this per model give too noisy a fit
+export const MIN_CALIBRATION_SAMPLES = 20;
+
+export interface LabelledText {
+  text: string;
+  label: SentimentLabel;
+}
+
+export interface CalibrationFit {
+  calibrations: Calibration[];
+  // Models that scored too few of the sample texts to be calibrated
+  skipped: Array<{ modelId: string; count: number }>;
+}
+
+/**
+ * Scores a labelled sample with the provider, uncalibrated and without
+ * sentence, aspect, entity, emotion, toxicity or topic passes but with the
+ * workspace lexicon, and fits one calibration per model that scored the texts
+ * (language routing can spread a sample over models).
+ */
+export const fitCalibrations = async (
+  provider: SentimentProvider,
+  samples: LabelledText[],
+  method: CalibrationMethod,
+  options: AnalyzeOptions = {}
+): Promise<CalibrationFit> => {
+  const settings = {
+    ...settingsStore.get(),
+    sentenceSegments: false,
+    emotionSource: 'off' as const,
+    toxicitySource: 'off' as const,
+    topicSource: 'off' as const,
+    detectEntities: false
+  };
+  const analyses = await analyzeTexts(
+    provider,
+    samples.map(sample => sample.text),
+    { settings, aspects: [], entities: [], topics: [], schema: modelRegistry.getSchema(), calibrations: [], lexicon: workspaceStore.getActive().lexicon },
+    options
+  );
+
+  const byModel = new Map<string, LabelledScores[]>();
+  analyses.forEach((analysis, i) => {
+    const modelId = analysis.model ?? provider.id;
+    if (!byModel.has(modelId)) byModel.set(modelId, []);
+    byModel.get(modelId)!.push({ scores: analysis.scores, label: samples[i].label });
+  });
+
+  const fit: CalibrationFit = { calibrations: [], skipped: [] };
+  byModel.forEach((labelled, modelId) => {
+    if (labelled.length < MIN_CALIBRATION_SAMPLES) {
+      fit.skipped.push({ modelId, count: labelled.length });
+    } else {
+      fit.calibrations.push(fitCalibration(modelId, method, labelled));
+    }
+  });
+  return fit;
+};
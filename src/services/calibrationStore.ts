@@ -0,0 +1,51 @@
+import { Calibration } from '../types/calibration';
+
+const STORAGE_KEY = 'confidence_calibrations';
+
+interface CalibrationState {
+  calibrations: Calibration[];
+}
+
+/**
+ * Fitted calibrations, at most one per model. The pipeline applies them to
+ * every new result from that model.
+ */
+class CalibrationStore {
+  private state: CalibrationState = {
+    calibrations: [],
+    ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+  };
+  private listeners = new Set<() => void>();
+
+  getState = (): CalibrationState => this.state;
+
+  private commit(state: CalibrationState) {
+    this.state = state;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    this.listeners.forEach(listener => listener());
+  }
+
+  get(modelId: string): Calibration | undefined {
+    return this.state.calibrations.find(calibration => calibration.modelId === modelId);
+  }
+
+  save(calibrations: Calibration[]) {
+    const replaced = new Set(calibrations.map(calibration => calibration.modelId));
+    this.commit({
+      calibrations: [...this.state.calibrations.filter(existing => !replaced.has(existing.modelId)), ...calibrations]
+    });
+  }
+
+  delete(modelId: string) {
+    this.commit({ calibrations: this.state.calibrations.filter(calibration => calibration.modelId !== modelId) });
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const calibrationStore = new CalibrationStore();
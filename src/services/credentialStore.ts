@@ -0,0 +1,212 @@
+const STORAGE_KEY = 'credential_vault';
+
+// Plaintext keys earlier versions kept in localStorage
+const LEGACY_STORAGE_KEYS = ['huggingface_api_key'];
+
+const PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Encrypted on creation so a passphrase can be checked before any
+// credential is stored
+const VERIFIER = 'sentimentlab-credentials';
+
+interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+interface Vault {
+  version: 1;
+  salt: string;
+  iterations: number;
+  verifier: EncryptedValue;
+  // Keyed by provider id
+  credentials: Record<string, EncryptedValue>;
+}
+
+export type VaultStatus = 'empty' | 'locked' | 'unlocked';
+
+export interface CredentialState {
+  status: VaultStatus;
+  // Providers with a stored credential, known while locked too
+  providerIds: string[];
+  // A plaintext key left by an earlier version was deleted
+  plaintextRemoved: boolean;
+}
+
+export class CredentialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, plaintext: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// AES-GCM authenticates, so a wrong key or tampered value throws here
+const decrypt = async (key: CryptoKey, value: EncryptedValue): Promise<string> =>
+  decoder.decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data)));
+
+/**
+ * Provider credentials, encrypted with AES-GCM under a key derived from the
+ * user's passphrase (PBKDF2-SHA-256). Only ciphertext is persisted; the key
+ * and decrypted credentials live in memory while unlocked, so every page
+ * load starts locked and providers needing a credential report themselves
+ * unconfigured until the user unlocks.
+ */
+class CredentialStore {
+  private vault: Vault | null = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+  private key: CryptoKey | null = null;
+  private secrets = new Map<string, string>();
+  private state: CredentialState;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    const plaintextRemoved = LEGACY_STORAGE_KEYS.some(key => localStorage.getItem(key) !== null);
+    LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+    this.state = this.snapshot(plaintextRemoved);
+  }
+
+  getState = (): CredentialState => this.state;
+
+  private snapshot(plaintextRemoved = this.state.plaintextRemoved): CredentialState {
+    return {
+      status: !this.vault ? 'empty' : this.key ? 'unlocked' : 'locked',
+      providerIds: Object.keys(this.vault?.credentials ?? {}),
+      plaintextRemoved
+    };
+  }
+
+  private commit(plaintextRemoved?: boolean) {
+    if (this.vault) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.vault));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    this.state = this.snapshot(plaintextRemoved);
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Decrypted credential, or null while locked or when none is stored
+  get(providerId: string): string | null {
+    return this.secrets.get(providerId) ?? null;
+  }
+
+  has(providerId: string): boolean {
+    return !!this.vault?.credentials[providerId];
+  }
+
+  async create(passphrase: string) {
+    if (this.vault) {
+      throw new CredentialError('Credential storage is already set up.');
+    }
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new CredentialError(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    this.vault = {
+      version: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encrypt(key, VERIFIER),
+      credentials: {}
+    };
+    this.key = key;
+    this.secrets.clear();
+    this.commit();
+  }
+
+  async unlock(passphrase: string) {
+    if (!this.vault) {
+      throw new CredentialError('Credential storage has not been set up yet.');
+    }
+    const vault = this.vault;
+    const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+    const verified = await decrypt(key, vault.verifier).then(value => value === VERIFIER, () => false);
+    if (!verified) {
+      throw new CredentialError('Wrong passphrase.');
+    }
+
+    const entries = await Promise.all(
+      Object.entries(vault.credentials).map(async ([providerId, value]) => [providerId, await decrypt(key, value)] as const)
+    );
+    this.key = key;
+    this.secrets = new Map(entries);
+    this.commit();
+  }
+
+  lock() {
+    this.key = null;
+    this.secrets.clear();
+    this.commit();
+  }
+
+  async set(providerId: string, secret: string) {
+    if (!this.vault || !this.key) {
+      throw new CredentialError('Unlock credential storage before saving credentials.');
+    }
+    const value = await encrypt(this.key, secret);
+    this.vault = { ...this.vault, credentials: { ...this.vault.credentials, [providerId]: value } };
+    this.secrets.set(providerId, secret);
+    this.commit();
+  }
+
+  // Works while locked, since nothing needs decrypting
+  remove(providerId: string) {
+    if (!this.vault) return;
+    const credentials = { ...this.vault.credentials };
+    delete credentials[providerId];
+    this.vault = { ...this.vault, credentials };
+    this.secrets.delete(providerId);
+    this.commit();
+  }
+
+  // For a forgotten passphrase: every stored credential is lost
+  reset() {
+    this.vault = null;
+    this.key = null;
+    this.secrets.clear();
+    this.commit();
+  }
+
+  // Providers that find a plaintext credential of their own report it here
+  // after deleting it
+  notePlaintextRemoved() {
+    this.commit(true);
+  }
+
+  dismissPlaintextNotice() {
+    this.commit(false);
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const credentialStore = new CredentialStore();
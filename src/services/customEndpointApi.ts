@@ -0,0 +1,147 @@
+import { SentimentProvider, SentimentAnalysis, AnalyzeOptions, ProviderCapabilities } from '../types/provider';
+import { RawLabelScore, buildAnalysis, parseLabelScores } from './sentimentUtils';
+import { RetryableError, withRetry, parseRetryAfter } from './retryPolicy';
+import { checkpoint, JobCancelledError } from './jobStore';
+import { ProviderError } from './providerErrors';
+import { credentialStore } from './credentialStore';
+
+// The auth token is a credential and lives in the credential store
+export interface CustomEndpointConfig {
+  endpointUrl: string;
+  authHeader: string;
+  maxInputChars: number;
+}
+
+const STORAGE_KEY = 'custom_provider_config';
+
+const DEFAULT_CONFIG: CustomEndpointConfig = {
+  endpointUrl: '',
+  authHeader: 'Authorization',
+  maxInputChars: 2000
+};
+
+/**
+ * Client for a self-hosted model endpoint. The endpoint receives
+ * `{ "inputs": "<text>" }` and must answer with the same label/score list
+ * the Hugging Face inference API returns.
+ */
+class CustomEndpointService implements SentimentProvider {
+  readonly id = 'custom';
+  readonly name = 'Custom Endpoint';
+  readonly description = 'Your own model server speaking the Hugging Face response format';
+
+  private config: CustomEndpointConfig = this.loadConfig();
+
+  // Earlier versions stored the token in plaintext with the config
+  private loadConfig(): CustomEndpointConfig {
+    const { authToken, ...config } = JSON.parse(localStorage.getItem(STORAGE_KEY) || JSON.stringify(DEFAULT_CONFIG));
+    if (authToken !== undefined) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+      if (authToken) credentialStore.notePlaintextRemoved();
+    }
+    return config;
+  }
+
+  get capabilities(): ProviderCapabilities {
+    return {
+      requiresApiKey: false,
+      requiresNetwork: true,
+      ruleBased: false,
+      sendsToHuggingFace: false,
+      acceptsModel: false,
+      maxInputChars: this.config.maxInputChars
+    };
+  }
+
+  getConfig(): CustomEndpointConfig {
+    return { ...this.config };
+  }
+
+  setConfig(config: CustomEndpointConfig) {
+    this.config = { ...config, endpointUrl: config.endpointUrl.trim() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
+  }
+
+  // A stored token must be unlocked; requests without it would be rejected
+  isConfigured(): boolean {
+    return /^https?:\/\//.test(this.config.endpointUrl) && (!credentialStore.has(this.id) || !!credentialStore.get(this.id));
+  }
+
+  subscribe(listener: () => void) {
+    return credentialStore.subscribe(listener);
+  }
+
+  private async makeApiCall(text: string, signal?: AbortSignal): Promise<RawLabelScore[]> {
+    if (!this.isConfigured()) {
+      throw new ProviderError(
+        /^https?:\/\//.test(this.config.endpointUrl)
+          ? 'Credentials are locked. Unlock them in Settings to use the custom endpoint.'
+          : 'Custom endpoint URL not set. Please configure it in Settings.',
+        'not_configured'
+      );
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const authToken = credentialStore.get(this.id);
+    if (authToken) {
+      headers[this.config.authHeader || 'Authorization'] = this.config.authHeader === 'Authorization'
+        ? `Bearer ${authToken}`
+        : authToken;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.endpointUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ inputs: text.substring(0, this.config.maxInputChars) }),
+        signal
+      });
+    } catch {
+      if (signal?.aborted) throw new JobCancelledError();
+      throw new RetryableError(`Could not reach ${this.config.endpointUrl}. Please check the endpoint URL and that the server allows CORS.`, 'network');
+    }
+
+    if ([429, 502, 503, 504].includes(response.status)) {
+      throw new RetryableError(
+        `Custom endpoint request failed (${response.status}): ${response.statusText}`,
+        response.status === 429 ? 'rate_limited' : 'server_error',
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    if (!response.ok) {
+      throw new ProviderError(
+        `Custom endpoint request failed (${response.status}): ${response.statusText}`,
+        response.status === 401 || response.status === 403 ? 'auth' : 'server_error'
+      );
+    }
+
+    try {
+      return parseLabelScores(await response.json());
+    } catch {
+      throw new ProviderError('Custom endpoint returned an unexpected response. Expected a list of { label, score } objects.', 'bad_response');
+    }
+  }
+
+  async analyze(text: string, options: AnalyzeOptions = {}): Promise<SentimentAnalysis> {
+    await checkpoint(options);
+    const results = await withRetry(() => this.makeApiCall(text, options.signal), options.retry, options.onRetry, options.signal);
+    return buildAnalysis(text, results, this.config.endpointUrl, options);
+  }
+
+  async analyzeMany(texts: string[], options: AnalyzeOptions = {}): Promise<SentimentAnalysis[]> {
+    const analyses: SentimentAnalysis[] = [];
+    for (const text of texts) {
+      analyses.push(await this.analyze(text, options));
+      options.onProgress?.(analyses.length, texts.length);
+    }
+    return analyses;
+  }
+
+  async testConnection(): Promise<boolean> {
+    await this.analyze('This is a test message.');
+    return true;
+  }
+}
+
+export const customEndpointService = new CustomEndpointService();
@@ -0,0 +1,147 @@
+import { EmotionLabel, EmotionResult } from '../types/sentiment';
+import { AnalysisSettings } from '../types/settings';
+import { AnalyzeOptions, SentimentProvider } from '../types/provider';
+import { huggingFaceService } from './huggingfaceApi';
+import { RawLabelScore } from './sentimentUtils';
+import { chunkText } from './textChunker';
+
+export const EMOTION_LABELS: EmotionLabel[] = ['joy', 'anger', 'sadness', 'fear', 'surprise', 'disgust', 'neutral'];
+
+const EMOTION_LEXICON: Record<Exclude<EmotionLabel, 'neutral'>, string[]> = {
+  joy: [
+    'happy', 'glad', 'joy', 'love', 'loved', 'delighted', 'pleased', 'excited', 'thrilled', 'great', 'wonderful',
+    'amazing', 'fantastic', 'awesome', 'enjoy', 'enjoyed', 'fun', 'grateful', 'thanks', 'thank', 'perfect', 'smile'
+  ],
+  anger: [
+    'angry', 'furious', 'mad', 'outraged', 'rage', 'hate', 'annoyed', 'annoying', 'irritated', 'irritating',
+    'frustrated', 'frustrating', 'ridiculous', 'unacceptable', 'scam', 'rude', 'livid', 'fed up', 'sick of'
+  ],
+  sadness: [
+    'sad', 'unhappy', 'disappointed', 'disappointing', 'depressed', 'miss', 'sorry', 'regret', 'lonely',
+    'heartbroken', 'upset', 'cry', 'crying', 'unfortunately', 'loss', 'lost', 'miserable', 'gloomy'
+  ],
+  fear: [
+    'afraid', 'scared', 'fear', 'worried', 'worry', 'anxious', 'nervous', 'terrified', 'panic', 'concerned',
+    'unsafe', 'dangerous', 'risk', 'threat', 'frightened', 'uneasy', 'alarming'
+  ],
+  surprise: [
+    'surprised', 'surprising', 'unexpected', 'unexpectedly', 'shocked', 'shocking', 'astonished', 'amazed',
+    'wow', 'suddenly', 'unbelievable', 'incredible', 'whoa'
+  ],
+  disgust: [
+    'disgusting', 'disgusted', 'gross', 'nasty', 'revolting', 'vile', 'filthy', 'dirty', 'sickening', 'awful',
+    'horrible', 'yuck', 'rotten', 'repulsive', 'creepy'
+  ]
+};
+
+// Maps the label names common emotion models use onto our schema.
+const MODEL_LABEL_ALIASES: Record<string, EmotionLabel> = {
+  joy: 'joy', happiness: 'joy', love: 'joy', optimism: 'joy',
+  anger: 'anger', annoyance: 'anger',
+  sadness: 'sadness', grief: 'sadness',
+  fear: 'fear', nervousness: 'fear',
+  surprise: 'surprise',
+  disgust: 'disgust',
+  neutral: 'neutral', others: 'neutral'
+};
+
+const emptyScores = (): Record<EmotionLabel, number> =>
+  Object.fromEntries(EMOTION_LABELS.map(label => [label, 0])) as Record<EmotionLabel, number>;
+
+const toResult = (scores: Record<EmotionLabel, number>, source: EmotionResult['source']): EmotionResult => {
+  const label = EMOTION_LABELS.reduce((a, b) => (scores[a] >= scores[b] ? a : b));
+  return { label, confidence: scores[label], scores, source };
+};
+
+/**
+ * Counts emotion-word hits. Texts without any hit are neutral; otherwise a
+ * small neutral prior keeps single-word matches from reading as certainty.
+ */
+export const analyzeEmotionLexicon = (text: string): EmotionResult => {
+  const normalized = ` ${text.toLowerCase().replace(/[^\p{L}\p{N}'\s]/gu, ' ').replace(/\s+/g, ' ')} `;
+  const scores = emptyScores();
+  let hits = 0;
+
+  (Object.keys(EMOTION_LEXICON) as Array<keyof typeof EMOTION_LEXICON>).forEach(emotion => {
+    EMOTION_LEXICON[emotion].forEach(term => {
+      const count = normalized.split(` ${term} `).length - 1;
+      scores[emotion] += count;
+      hits += count;
+    });
+  });
+
+  if (hits === 0) {
+    return toResult({ ...emptyScores(), neutral: 1 }, 'lexicon');
+  }
+
+  scores.neutral = 0.5;
+  const total = hits + scores.neutral;
+  EMOTION_LABELS.forEach(label => {
+    scores[label] /= total;
+  });
+  return toResult(scores, 'lexicon');
+};
+
+const mapModelScores = (results: RawLabelScore[]): Record<EmotionLabel, number> => {
+  const scores = emptyScores();
+  results.forEach(result => {
+    const label = MODEL_LABEL_ALIASES[result.label.toLowerCase()];
+    if (label) scores[label] += result.score;
+  });
+  const total = EMOTION_LABELS.reduce((sum, label) => sum + scores[label], 0) || 1;
+  EMOTION_LABELS.forEach(label => {
+    scores[label] /= total;
+  });
+  return scores;
+};
+
+// Every chunk of every text is classified in batched requests, then the
+// chunk scores are averaged back per text.
+const analyzeEmotionModel = async (
+  texts: string[],
+  modelId: string,
+  options: AnalyzeOptions
+): Promise<EmotionResult[]> => {
+  const chunks = texts.map(text => chunkText(text, huggingFaceService.capabilities.maxInputChars));
+  const classified = await huggingFaceService.classifyMany(
+    chunks.flat().map(chunk => chunk.text),
+    modelId,
+    options
+  );
+  const results = classified.map(item => item.results);
+
+  let offset = 0;
+  return chunks.map(textChunks => {
+    const scores = emptyScores();
+    results.slice(offset, offset + textChunks.length).forEach(result => {
+      const chunkScores = mapModelScores(result);
+      EMOTION_LABELS.forEach(label => {
+        scores[label] += chunkScores[label] / textChunks.length;
+      });
+    });
+    offset += textChunks.length;
+    return toResult(scores, 'model');
+  });
+};
+
+/**
+ * Classifies the emotion of each text with the source chosen in settings.
+ * The model source runs on Hugging Face, so it falls back to the lexicon
+ * unless `provider` sends texts there anyway and the API is configured.
+ */
+export const analyzeEmotions = async (
+  provider: SentimentProvider,
+  texts: string[],
+  settings: AnalysisSettings,
+  options: AnalyzeOptions = {}
+): Promise<Array<EmotionResult | undefined>> => {
+  if (settings.emotionSource === 'off') {
+    return texts.map(() => undefined);
+  }
+
+  if (settings.emotionSource === 'model' && huggingFaceService.canRunAlongside(provider)) {
+    return analyzeEmotionModel(texts, settings.emotionModel, options);
+  }
+
+  return texts.map(analyzeEmotionLexicon);
+};
@@ -0,0 +1,199 @@
+import { SentimentProvider, SentimentAnalysis, AnalyzeOptions, ProviderCapabilities } from '../types/provider';
+import { EnsembleStrategy, EnsembleResult, LabelScores, ModelVote, SentimentLabel, SentimentScores, ChunkAggregation } from '../types/sentiment';
+import { huggingFaceService, ClassifiedText, PRIMARY_MODEL_ID, FALLBACK_MODEL_ID } from './huggingfaceApi';
+import { buildAnalysis, generateExplanation, topSentiment } from './sentimentUtils';
+import { extractKeywords } from './keywordExtractor';
+import { aggregateChunkScores } from './textChunker';
+import { aggregateLabelScores, labelsFromScores } from './labelSchemas';
+import { modelRegistry } from './modelRegistry';
+
+export interface EnsembleMember {
+  modelId: string;
+  weight: number;
+}
+
+export interface EnsembleConfig {
+  models: EnsembleMember[];
+  strategy: EnsembleStrategy;
+  // Results whose agreement falls below this are flagged for human review
+  reviewThreshold: number;
+}
+
+const STORAGE_KEY = 'ensemble_config';
+
+const DEFAULT_CONFIG: EnsembleConfig = {
+  models: [
+    { modelId: PRIMARY_MODEL_ID, weight: 1 },
+    { modelId: FALLBACK_MODEL_ID, weight: 1 }
+  ],
+  strategy: 'weighted-average',
+  reviewThreshold: 0.67
+};
+
+interface CombinedVotes {
+  sentiment: SentimentLabel;
+  confidence: number;
+  scores: SentimentScores;
+  ensemble: EnsembleResult;
+}
+
+/**
+ * Combines per-model outputs into one label.
+ * - weighted-average: weight-averaged scores, top label wins
+ * - majority-vote: each model votes its top label with its weight; ties go
+ *   to the label with the higher averaged score, and confidence is the
+ *   winning vote share
+ */
+export const combineModelVotes = (
+  votes: ModelVote[],
+  strategy: EnsembleStrategy,
+  reviewThreshold: number
+): CombinedVotes => {
+  const totalWeight = votes.reduce((sum, vote) => sum + vote.weight, 0) || 1;
+  const scores = { positive: 0, negative: 0, neutral: 0 };
+  const voteShare = { positive: 0, negative: 0, neutral: 0 };
+
+  votes.forEach(vote => {
+    (Object.keys(scores) as SentimentLabel[]).forEach(label => {
+      scores[label] += (vote.scores[label] * vote.weight) / totalWeight;
+    });
+    voteShare[vote.sentiment] += vote.weight / totalWeight;
+  });
+
+  const sentiment = strategy === 'majority-vote'
+    ? (Object.keys(voteShare) as SentimentLabel[]).reduce((a, b) =>
+        voteShare[a] > voteShare[b] || (voteShare[a] === voteShare[b] && scores[a] >= scores[b]) ? a : b
+      )
+    : topSentiment(scores);
+  const agreement = voteShare[sentiment];
+
+  return {
+    sentiment,
+    confidence: strategy === 'majority-vote' ? agreement : scores[sentiment],
+    scores,
+    ensemble: { strategy, agreement, reviewThreshold, needsReview: agreement < reviewThreshold, models: votes }
+  };
+};
+
+/**
+ * Ensemble breakdown for a chunked text: each model's chunk scores are
+ * aggregated the same way the document scores were, then re-combined.
+ */
+export const combineChunkEnsembles = (
+  analyses: SentimentAnalysis[],
+  lengths: number[],
+  aggregation: ChunkAggregation
+): EnsembleResult | undefined => {
+  const first = analyses[0].ensemble;
+  if (!first || analyses.some(analysis => !analysis.ensemble)) return undefined;
+
+  const votes = first.models.map((vote, m) => {
+    const scores = aggregateChunkScores(
+      analyses.map((analysis, i) => ({ scores: analysis.ensemble!.models[m].scores, length: lengths[i] })),
+      aggregation
+    );
+    const sentiment = topSentiment(scores);
+    return { ...vote, sentiment, confidence: scores[sentiment], scores };
+  });
+  return combineModelVotes(votes, first.strategy, first.reviewThreshold).ensemble;
+};
+
+/**
+ * Members sharing a label schema (e.g. all five-star models) are combined in
+ * it, weighted like their votes; otherwise the labels follow the combined
+ * three-class scores.
+ */
+const combineMemberLabels = (members: EnsembleMember[], labels: LabelScores[], scores: SentimentScores): LabelScores => {
+  if (labels.some(item => item.schemaId !== labels[0].schemaId)) return labelsFromScores(scores);
+  return aggregateLabelScores(
+    labels.map((item, m) => ({ labels: item, negative: scores.negative, length: members[m].weight })),
+    'length-weighted',
+    modelRegistry.getSchema(labels[0].schemaId)
+  );
+};
+
+/**
+ * Runs every text through several Hugging Face models and combines their
+ * outputs. Each model's own scores stay available on the result, and low
+ * agreement between models flags the result for review.
+ */
+class EnsembleService implements SentimentProvider {
+  readonly id = 'ensemble';
+  readonly name = 'Hugging Face Ensemble';
+  readonly description = 'Combines several hosted models by weighted average or majority vote';
+
+  private config: EnsembleConfig = {
+    ...DEFAULT_CONFIG,
+    ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+  };
+
+  // Members are fixed by the ensemble config, so requests can't pick a model
+  get capabilities(): ProviderCapabilities {
+    return { ...huggingFaceService.capabilities, acceptsModel: false };
+  }
+
+  getConfig(): EnsembleConfig {
+    return { ...this.config, models: [...this.config.models] };
+  }
+
+  setConfig(config: EnsembleConfig) {
+    this.config = config;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  }
+
+  isConfigured(): boolean {
+    return huggingFaceService.isConfigured() && this.activeMembers().length >= 2;
+  }
+
+  private activeMembers(): EnsembleMember[] {
+    return this.config.models.filter(member => member.modelId.trim() && member.weight > 0);
+  }
+
+  async analyze(text: string, options: AnalyzeOptions = {}): Promise<SentimentAnalysis> {
+    const [analysis] = await this.analyzeMany([text], options);
+    return analysis;
+  }
+
+  async analyzeMany(texts: string[], options: AnalyzeOptions = {}): Promise<SentimentAnalysis[]> {
+    const members = this.activeMembers();
+    const perModel: ClassifiedText[][] = [];
+
+    for (const [m, member] of members.entries()) {
+      perModel.push(await huggingFaceService.classifyMany(texts, member.modelId, {
+        ...options,
+        onProgress: (completed, total) => options.onProgress?.(m * total + completed, members.length * total)
+      }));
+    }
+
+    return texts.map((text, i) => {
+      const analyses = members.map((member, m) => buildAnalysis(text, perModel[m][i].results, member.modelId));
+      const votes: ModelVote[] = members.map((member, m) => {
+        const { sentiment, confidence, scores } = analyses[m];
+        return { model: member.modelId, weight: member.weight, sentiment, confidence, scores };
+      });
+      const combined = combineModelVotes(votes, this.config.strategy, this.config.reviewThreshold);
+      const keywords = extractKeywords(text, {
+        sentiment: combined.sentiment,
+        lexicon: options.lexicon,
+        corpus: options.keywordCorpus
+      });
+
+      return {
+        ...combined,
+        keywords,
+        explanation: `${generateExplanation(combined.sentiment, combined.confidence, keywords)} ${
+          (combined.ensemble.agreement * 100).toFixed(0)
+        }% of the model weight agrees.`,
+        labels: combineMemberLabels(members, analyses.map(analysis => analysis.labels!), combined.scores),
+        cached: perModel.every(results => results[i].cached) || undefined
+      };
+    });
+  }
+
+  async testConnection(): Promise<boolean> {
+    await this.analyze('This is a test message.', { bypassCache: true });
+    return true;
+  }
+}
+
+export const ensembleService = new EnsembleService();
@@ -0,0 +1,165 @@
+import { EntityDefinition } from '../types/workspace';
+import { AspectMention, DetectedLanguage, EntityResult, EntityType, SentimentCounts, SentimentScores } from '../types/sentiment';
+import { splitClauses, splitSentences, TextChunk } from './textChunker';
+import { averageClauseScores, clausesAround, findTermMentions } from './aspectAnalyzer';
+import { isStopWord } from './keywordExtractor';
+
+// Bounds the extra clauses a text full of capitalized words can cost
+const MAX_DETECTED_ENTITIES = 10;
+
+// Runs of capitalized words ("Acme Cloud", "New York"), camel-cased names
+// ("iPhone", "eBay") and acronyms, optionally followed by a model number
+const NAME_PHRASE = /(?:\p{Lu}[\p{L}\p{N}'’&-]*|\p{Ll}+\p{Lu}[\p{L}\p{N}]*)(?:\s+(?:\p{Lu}[\p{L}\p{N}'’&-]*|\p{N}+\b))*/gu;
+
+// Capitalized for reasons other than being a name
+const COMMON_CAPITALIZED = new Set([
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november',
+  'december', 'ok', 'okay', 'thanks', 'thank', 'please', 'hi', 'hello', 'yes', 'no', 'lol', 'omg'
+]);
+
+export interface EntityPlan {
+  entity: Pick<EntityResult, 'id' | 'name' | 'type' | 'source'>;
+  mentions: AspectMention[];
+  clauses: TextChunk[];
+}
+
+interface NameCandidate extends AspectMention {
+  sentenceStart: boolean;
+}
+
+// Camel case, acronyms and model numbers mark a name wherever it appears
+const isDistinctive = (name: string): boolean =>
+  /\p{Ll}\p{Lu}/u.test(name) || /\p{N}/u.test(name) || (name.length > 1 && name === name.toUpperCase());
+
+const nameCandidates = (text: string, language: DetectedLanguage): NameCandidate[] =>
+  splitSentences(text).flatMap(sentence =>
+    Array.from(text.slice(sentence.start, sentence.end).matchAll(NAME_PHRASE), match => {
+      const words = match[0].split(/\s+/);
+      let start = sentence.start + match.index!;
+      // "The Galaxy S24" is the Galaxy S24; "I" and other stop words never start a name
+      while (words.length > 0 && (isStopWord(words[0], language) || COMMON_CAPITALIZED.has(words[0].toLowerCase()))) {
+        start = text.indexOf(words[1] ?? '', start + words[0].length);
+        words.shift();
+      }
+      const term = words.join(' ').replace(/['’]s$/, '');
+      return {
+        term,
+        start,
+        end: start + term.length,
+        sentenceStart: start === sentence.start
+      };
+    })
+  ).filter(candidate => candidate.term.length > 1 && !/^\p{N}/u.test(candidate.term));
+
+/**
+ * Names found by capitalization alone. A single capitalized word opening a
+ * sentence only counts when the text also capitalizes it mid-sentence, and
+ * names the gazetteer already covers are left to it. German capitalizes
+ * every noun, so there only distinctive names count.
+ */
+const detectNames = (
+  text: string,
+  known: AspectMention[],
+  knownNames: Set<string>,
+  language?: DetectedLanguage
+): Map<string, AspectMention[]> => {
+  const candidates = nameCandidates(text, language ?? 'unknown').filter(candidate =>
+    !knownNames.has(candidate.term.toLowerCase()) &&
+    !known.some(mention => candidate.start < mention.end && mention.start < candidate.end)
+  );
+  const midSentence = new Set(candidates.filter(c => !c.sentenceStart).map(c => c.term.toLowerCase()));
+
+  const names = new Map<string, AspectMention[]>();
+  candidates.forEach(({ term, start, end, sentenceStart }) => {
+    const key = term.toLowerCase();
+    const isName = language === 'de'
+      ? isDistinctive(term)
+      : isDistinctive(term) || term.includes(' ') || !sentenceStart || midSentence.has(key);
+    if (!isName) return;
+    if (!names.has(key) && names.size >= MAX_DETECTED_ENTITIES) return;
+    names.set(key, [...(names.get(key) ?? []), { term, start, end }]);
+  });
+  return names;
+};
+
+/**
+ * Locates the workspace's entities (by name and aliases) and, when enabled,
+ * other capitalized names in the text, with the clauses around their
+ * mentions. Entities without mentions are left out.
+ */
+export const planEntities = (
+  text: string,
+  entities: EntityDefinition[],
+  options: { detect: boolean; language?: DetectedLanguage }
+): EntityPlan[] => {
+  const clauses = splitClauses(text);
+  const plans: EntityPlan[] = entities
+    .map(entity => {
+      const mentions = findTermMentions(text, [entity.name, ...entity.aliases]);
+      return {
+        entity: { id: entity.id, name: entity.name, type: entity.type, source: 'gazetteer' as const },
+        mentions,
+        clauses: clausesAround(text, clauses, mentions)
+      };
+    })
+    .filter(plan => plan.mentions.length > 0);
+  if (!options.detect) return plans;
+
+  const knownNames = new Set(entities.flatMap(entity => [entity.name, ...entity.aliases]).map(term => term.trim().toLowerCase()));
+  detectNames(text, plans.flatMap(plan => plan.mentions), knownNames, options.language).forEach((mentions, key) => {
+    plans.push({
+      entity: { id: `detected:${key}`, name: mentions[0].term, type: 'other', source: 'detected' },
+      mentions,
+      clauses: clausesAround(text, clauses, mentions)
+    });
+  });
+  return plans;
+};
+
+// Sentiment of the clauses around an entity's mentions, as for aspects
+export const scoreEntity = (plan: EntityPlan, clauseScores: SentimentScores[]): EntityResult => {
+  const { scores, sentiment } = averageClauseScores(clauseScores);
+  return { ...plan.entity, sentiment, score: scores[sentiment], scores, mentions: plan.mentions };
+};
+
+export interface EntitySummary {
+  id: string;
+  name: string;
+  type: EntityType;
+  source: EntityResult['source'];
+  // Texts mentioning the entity, and mentions across them
+  texts: number;
+  mentions: number;
+  counts: SentimentCounts;
+  // Share of positive minus share of negative texts, -1..1
+  net: number;
+}
+
+/**
+ * Totals per entity across results, most mentioned first. Detected names
+ * are merged case-insensitively and shown in their first spelling.
+ */
+export const summarizeEntities = (results: Array<{ entities?: EntityResult[] }>): EntitySummary[] => {
+  const summaries = new Map<string, EntitySummary>();
+  results.forEach(result => {
+    result.entities?.forEach(entity => {
+      const summary = summaries.get(entity.id) ?? {
+        id: entity.id,
+        name: entity.name,
+        type: entity.type,
+        source: entity.source,
+        texts: 0,
+        mentions: 0,
+        counts: { positive: 0, negative: 0, neutral: 0 },
+        net: 0
+      };
+      summary.texts++;
+      summary.mentions += entity.mentions.length;
+      summary.counts[entity.sentiment]++;
+      summary.net = (summary.counts.positive - summary.counts.negative) / summary.texts;
+      summaries.set(entity.id, summary);
+    });
+  });
+  return Array.from(summaries.values()).sort((a, b) => b.texts - a.texts || b.mentions - a.mentions);
+};
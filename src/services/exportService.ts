@@ -1,27 +1,67 @@
 import jsPDF from 'jspdf';
 import Papa from 'papaparse';
 import { format } from 'date-fns';
-import { SentimentResult, BatchResult, ExportOptions } from '../types/sentiment';
+import { SentimentResult, BatchResult, FailedBatchItem, ExportOptions } from '../types/sentiment';
+import { CustomLexicon } from '../types/workspace';
+import { modelRegistry } from './modelRegistry';
+import { isRatingMismatch } from './starRating';
+import { maskOffensiveWords } from './toxicityAnalyzer';
 
 class ExportService {
-  exportToCSV(results: SentimentResult[], options: ExportOptions): void {
+  exportToCSV(results: SentimentResult[], options: ExportOptions, failures: FailedBatchItem[] = []): void {
     const data = results
       .filter(result => this.isWithinDateRange(result, options.dateRange))
       .map(result => {
         const row: any = {
-          text: result.text,
+          text: this.mask(result.text, options),
+          status: 'ok',
           sentiment: result.sentiment,
         };
         
+        row.emotion = result.emotion?.label ?? '';
+        row.language = result.language ?? '';
+        row.label = result.labels ? modelRegistry.labelName(result.labels) : '';
+        
+        if (result.rating) {
+          row.predicted_stars = result.rating.stars;
+          row.expected_rating = result.rating.expected.toFixed(2);
+        }
+        
+        if (result.actualRating !== undefined) {
+          row.actual_rating = result.actualRating;
+          row.rating_mismatch = isRatingMismatch(result) ? 'yes' : 'no';
+        }
+        
+        if (result.toxicity) {
+          row.toxic = result.toxicity.toxic ? 'yes' : 'no';
+          row.toxicity_categories = result.toxicity.flagged.join(', ');
+        }
+        
+        if (result.topics) {
+          row.topics = result.topics.labels.join(', ');
+        }
+        
+        if (result.ensemble) {
+          row.agreement = (result.ensemble.agreement * 100).toFixed(2) + '%';
+          row.needs_review = result.ensemble.needsReview ? 'yes' : 'no';
+        }
+        
         if (options.includeConfidence) {
+          row.emotion_confidence = result.emotion ? (result.emotion.confidence * 100).toFixed(2) + '%' : '';
           row.confidence = (result.confidence * 100).toFixed(2) + '%';
+          row.calibration = result.calibrated ?? '';
+          row.toxicity_score = result.toxicity ? (result.toxicity.score * 100).toFixed(2) + '%' : '';
           row.positive_score = (result.scores.positive * 100).toFixed(2) + '%';
           row.negative_score = (result.scores.negative * 100).toFixed(2) + '%';
           row.neutral_score = (result.scores.neutral * 100).toFixed(2) + '%';
+          Object.entries(result.labels?.scores ?? {}).forEach(([id, score]) => {
+            row[`label_${id}`] = (score * 100).toFixed(2) + '%';
+          });
         }
         
         if (options.includeKeywords) {
-          row.keywords = result.keywords.map(k => k.word).join(', ');
+          row.keywords = result.keywords.map(k => this.mask(k.word, options)).join(', ');
+          row.lexicon_version = result.lexiconVersion ?? '';
         }
         
         if (options.includeTimestamp) {
@@ -31,27 +71,83 @@ class ExportService {
         return row;
       });
 
-    const csv = Papa.unparse(data);
+    const failedRows = failures.map(item => ({
+      row: item.index + 1,
+      text: this.mask(item.text, options),
+      status: 'failed',
+      error: `${item.errorCode}: ${item.errorMessage}`
+    }));
+    const rows = [...data, ...failedRows];
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+
+    const csv = Papa.unparse(rows, { columns });
     this.downloadFile(csv, 'sentiment-analysis-results.csv', 'text/csv');
   }
 
-  exportToJSON(results: SentimentResult[], options: ExportOptions): void {
+  exportToJSON(results: SentimentResult[], options: ExportOptions, failures: FailedBatchItem[] = []): void {
     const filteredResults = results
       .filter(result => this.isWithinDateRange(result, options.dateRange))
       .map(result => {
         const exported: any = {
           id: result.id,
-          text: result.text,
+          text: this.mask(result.text, options),
           sentiment: result.sentiment,
         };
         
+        if (result.language) {
+          exported.language = result.language;
+        }
+        
+        if (result.rating) {
+          exported.rating = options.includeConfidence
+            ? result.rating
+            : { stars: result.rating.stars, expected: result.rating.expected };
+        }
+        
+        if (result.actualRating !== undefined) {
+          exported.actual_rating = result.actualRating;
+          exported.rating_mismatch = isRatingMismatch(result);
+        }
+        
+        if (result.labels) {
+          exported.labels = options.includeConfidence
+            ? { ...result.labels, name: modelRegistry.labelName(result.labels) }
+            : { schema_id: result.labels.schemaId, label: result.labels.label, name: modelRegistry.labelName(result.labels) };
+        }
+        
+        if (result.emotion) {
+          exported.emotion = options.includeConfidence
+            ? result.emotion
+            : { label: result.emotion.label, source: result.emotion.source };
+        }
+        
+        if (result.toxicity) {
+          exported.toxicity = options.includeConfidence
+            ? result.toxicity
+            : { toxic: result.toxicity.toxic, flagged: result.toxicity.flagged, source: result.toxicity.source };
+        }
+        
+        if (result.topics) {
+          exported.topics = options.includeConfidence
+            ? result.topics
+            : { labels: result.topics.labels, source: result.topics.source };
+        }
+        
         if (options.includeConfidence) {
           exported.confidence = result.confidence;
+          if (result.calibrated) exported.calibration = result.calibrated;
           exported.scores = result.scores;
         }
         
+        if (result.ensemble) {
+          exported.ensemble = options.includeConfidence
+            ? result.ensemble
+            : { agreement: result.ensemble.agreement, needs_review: result.ensemble.needsReview };
+        }
+        
         if (options.includeKeywords) {
-          exported.keywords = result.keywords;
+          exported.keywords = result.keywords.map(k => ({ ...k, word: this.mask(k.word, options) }));
+          if (result.lexiconVersion !== undefined) exported.lexicon_version = result.lexiconVersion;
         }
         
         if (options.includeTimestamp) {
@@ -64,7 +160,16 @@ class ExportService {
     const json = JSON.stringify({
       exported_at: new Date().toISOString(),
       total_results: filteredResults.length,
-      results: filteredResults
+      results: filteredResults,
+      ...(failures.length > 0 && {
+        failed: failures.map(item => ({
+          row: item.index + 1,
+          text: this.mask(item.text, options),
+          status: 'failed',
+          error_code: item.errorCode,
+          error_message: item.errorMessage
+        }))
+      })
     }, null, 2);
 
     this.downloadFile(json, 'sentiment-analysis-results.json', 'application/json');
@@ -101,7 +206,8 @@ class ExportService {
         yPosition = 20;
       }
       
-      doc.text(`${index + 1}. ${result.text.substring(0, 80)}${result.text.length > 80 ? '...' : ''}`, 20, yPosition);
+      const text = this.mask(result.text, options);
+      doc.text(`${index + 1}. ${text.substring(0, 80)}${text.length > 80 ? '...' : ''}`, 20, yPosition);
       yPosition += 8;
       doc.text(`   Sentiment: ${result.sentiment.toUpperCase()}`, 25, yPosition);
       
@@ -132,6 +238,9 @@ class ExportService {
     doc.text(`Created: ${format(batch.createdAt, 'PPpp')}`, 20, 55);
     doc.text(`Total Texts: ${batch.summary.totalTexts}`, 20, 65);
     doc.text(`Average Confidence: ${(batch.summary.averageConfidence * 100).toFixed(1)}%`, 20, 75);
+    if (batch.summary.failedCount) {
+      doc.text(`Failed Texts: ${batch.summary.failedCount} (not included below)`, 110, 65);
+    }
     
     // Summary
     doc.text(`Positive: ${batch.summary.positiveCount} (${((batch.summary.positiveCount / batch.summary.totalTexts) * 100).toFixed(1)}%)`, 20, 90);
@@ -141,6 +250,19 @@ class ExportService {
     doc.save(`batch-analysis-${batch.name}.pdf`);
   }
 
+  exportLexicon(lexicon: CustomLexicon, workspaceName: string): void {
+    const csv = Papa.unparse(
+      lexicon.entries.map(entry => ({ term: entry.term, valence: entry.valence })),
+      { columns: ['term', 'valence'] }
+    );
+    const slug = workspaceName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+    this.downloadFile(csv, `lexicon-${slug}-v${lexicon.version}.csv`, 'text/csv');
+  }
+
+  private mask(text: string, options: ExportOptions): string {
+    return options.maskOffensiveWords ? maskOffensiveWords(text) : text;
+  }
+
   private isWithinDateRange(result: SentimentResult, dateRange?: { start: Date; end: Date }): boolean {
     if (!dateRange) return true;
     return result.timestamp >= dateRange.start && result.timestamp <= dateRange.end;
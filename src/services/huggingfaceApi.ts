@@ -1,25 +1,126 @@
-const HUGGINGFACE_API_URL = 'https://api-inference.huggingface.co/models/cardiffnlp/twitter-roberta-base-sentiment-latest';
-const FALLBACK_API_URL = 'https://api-inference.huggingface.co/models/nlptown/bert-base-multilingual-uncased-sentiment';
+import { SentimentProvider, SentimentAnalysis, AnalyzeOptions, ProviderCapabilities } from '../types/provider';
+import { RawLabelScore, buildAnalysis, parseLabelScores, parseBatchLabelScores } from './sentimentUtils';
+import { RetryableError, withRetry, parseRetryAfter } from './retryPolicy';
+import { checkpoint, JobCancelledError } from './jobStore';
+import { ProviderError } from './providerErrors';
+import { analysisCache } from './analysisCache';
+import { credentialStore } from './credentialStore';
 
-interface HuggingFaceResponse {
-  label: string;
-  score: number;
+const HUGGINGFACE_MODELS_URL = 'https://api-inference.huggingface.co/models/';
+export const PRIMARY_MODEL_ID = 'cardiffnlp/twitter-roberta-base-sentiment-latest';
+export const FALLBACK_MODEL_ID = 'nlptown/bert-base-multilingual-uncased-sentiment';
+const HUGGINGFACE_API_URL = `${HUGGINGFACE_MODELS_URL}${PRIMARY_MODEL_ID}`;
+const FALLBACK_API_URL = `${HUGGINGFACE_MODELS_URL}${FALLBACK_MODEL_ID}`;
+const DEFAULT_BATCH_SIZE = 32;
+const PROXY_STORAGE_KEY = 'huggingface_proxy_url';
+
+interface QueuedRequest {
+  run: () => Promise<void>;
+  signal?: AbortSignal;
+}
+
+// Limits the proxy server reports on /health
+interface ProxyLimits {
+  maxBatchSize: number;
+}
+
+// The model that answered, which differs from the requested one after a failover
+interface ModelResponse {
+  data: unknown;
+  modelUrl: string;
+}
+
+interface ModelResults {
+  results: RawLabelScore[];
+  modelUrl: string;
 }
 
+export interface ClassifiedText extends ModelResults {
+  cached: boolean;
+}
+
+// Task parameters sent along with the inputs, e.g. zero-shot candidate labels
+type TaskParameters = Record<string, unknown>;
+
 interface HuggingFaceError {
   error: string;
   estimated_time?: number;
 }
 
-class HuggingFaceService {
-  private apiKey: string | null = null;
-  private requestQueue: Array<() => Promise<any>> = [];
+class HuggingFaceService implements SentimentProvider {
+  readonly id = 'huggingface';
+  readonly name = 'Hugging Face Inference API';
+  readonly capabilities: ProviderCapabilities = {
+    requiresApiKey: true,
+    requiresNetwork: true,
+    ruleBased: false,
+    sendsToHuggingFace: true,
+    acceptsModel: true,
+    maxInputChars: 500
+  };
+
+  private requestQueue: QueuedRequest[] = [];
   private isProcessing = false;
   private rateLimitDelay = 2000; // 2 seconds between requests for better reliability
   private currentApiUrl = HUGGINGFACE_API_URL;
+  // Base URL of the proxy server (see server/), or '' to call the API directly
+  private proxyUrl = localStorage.getItem(PROXY_STORAGE_KEY) ?? '';
+  private proxyLimits: Promise<ProxyLimits | null> | null = null;
+
+  get description(): string {
+    return this.proxyUrl
+      ? `Hosted transformer models via the proxy server at ${this.proxyUrl}`
+      : 'Hosted transformer models via api-inference.huggingface.co';
+  }
+
+  // Read from the credential store, so it is only there while unlocked
+  private get apiKey(): string | null {
+    return credentialStore.get(this.id);
+  }
+
+  // The proxy holds the API key, so the browser needs none
+  isConfigured(): boolean {
+    return /^https?:\/\//.test(this.proxyUrl) || (!!this.apiKey && this.apiKey.startsWith('hf_'));
+  }
+
+  // Extra model passes only run here alongside a provider that already sends
+  // its texts to Hugging Face, so picking an offline provider keeps them local
+  canRunAlongside(provider: SentimentProvider): boolean {
+    return provider.capabilities.sendsToHuggingFace && this.isConfigured();
+  }
+
+  getProxyUrl(): string {
+    return this.proxyUrl;
+  }
 
-  setApiKey(apiKey: string) {
-    this.apiKey = apiKey?.trim();
+  setProxyUrl(url: string) {
+    this.proxyUrl = url.trim().replace(/\/+$/, '');
+    this.proxyLimits = null;
+    if (this.proxyUrl) {
+      localStorage.setItem(PROXY_STORAGE_KEY, this.proxyUrl);
+    } else {
+      localStorage.removeItem(PROXY_STORAGE_KEY);
+    }
+  }
+
+  subscribe(listener: () => void) {
+    return credentialStore.subscribe(listener);
+  }
+
+  // Fetched once per proxy URL; a failed lookup is retried on the next batch
+  private getProxyLimits(): Promise<ProxyLimits | null> {
+    if (!this.proxyUrl) return Promise.resolve(null);
+    if (!this.proxyLimits) {
+      const limits = fetch(`${this.proxyUrl}/health`)
+        .then(response => (response.ok ? response.json() : null))
+        .then(health => (health?.limits?.maxBatchSize > 0 ? { maxBatchSize: health.limits.maxBatchSize } : null))
+        .catch(() => null);
+      this.proxyLimits = limits;
+      limits.then(result => {
+        if (!result && this.proxyLimits === limits) this.proxyLimits = null;
+      });
+    }
+    return this.proxyLimits;
   }
 
   private async processQueue() {
@@ -30,11 +131,14 @@ class HuggingFaceService {
     while (this.requestQueue.length > 0) {
       const request = this.requestQueue.shift();
       if (request) {
+        const skipped = request.signal?.aborted;
         try {
-          await request();
+          await request.run();
         } catch (error) {
           console.error('Request failed:', error);
         }
+        // Cancelled requests never reach the API, so they need no spacing
+        if (skipped) continue;
         // Rate limiting - increased delay for better reliability
         await new Promise(resolve => setTimeout(resolve, this.rateLimitDelay));
       }
@@ -43,47 +147,99 @@ class HuggingFaceService {
     this.isProcessing = false;
   }
 
-  private async makeApiCall(text: string, useFailover: boolean = false): Promise<HuggingFaceResponse[]> {
+  private enqueue<T>(call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.requestQueue.push({
+        signal,
+        run: async () => {
+          try {
+            resolve(await call());
+          } catch (error) {
+            reject(error);
+          }
+        }
+      });
+      
+      this.processQueue();
+    });
+  }
+
+  private assertApiKey() {
+    if (!this.apiKey && credentialStore.has(this.id)) {
+      throw new ProviderError('Credentials are locked. Unlock them in Settings to use the Hugging Face API.', 'not_configured');
+    }
     if (!this.apiKey || this.apiKey.length === 0) {
-      throw new Error('Hugging Face API key not set. Please add your API key in the settings.');
+      throw new ProviderError('Hugging Face API key not set. Please add your API key in the settings.', 'not_configured');
     }
 
     // Validate API key format
     if (!this.apiKey.startsWith('hf_')) {
-      throw new Error('Invalid API key format. Hugging Face API keys should start with "hf_".');
+      throw new ProviderError('Invalid API key format. Hugging Face API keys should start with "hf_".', 'auth');
     }
+  }
 
-    const apiUrl = useFailover ? FALLBACK_API_URL : this.currentApiUrl;
-
-    try {
-      const response = await fetch(apiUrl, {
+  // The proxy takes the model by id and adds the key and API options itself
+  private buildRequest(inputs: string | string[], apiUrl: string, parameters?: TaskParameters): [string, RequestInit] {
+    const truncated = Array.isArray(inputs) ? inputs.map(this.truncate) : this.truncate(inputs);
+    if (this.proxyUrl) {
+      return [`${this.proxyUrl}/analyze${Array.isArray(inputs) ? '/batch' : ''}`, {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'User-Agent': 'SentimentAnalysisDashboard/1.0'
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          inputs: text.substring(0, 500), // Limit text length to avoid issues
-          options: {
-            wait_for_model: true,
-            use_cache: false
-          }
-        }),
-      });
+          inputs: truncated,
+          model: apiUrl.slice(HUGGINGFACE_MODELS_URL.length),
+          ...(parameters && { parameters })
+        })
+      }];
+    }
+
+    this.assertApiKey();
+    return [apiUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'SentimentAnalysisDashboard/1.0'
+      },
+      body: JSON.stringify({
+        inputs: truncated,
+        ...(parameters && { parameters }),
+        options: {
+          wait_for_model: true,
+          use_cache: false
+        }
+      })
+    }];
+  }
+
+  // Sends one request; `inputs` may be a single text or an array of texts,
+  // which the API answers with one label/score list per input.
+  private async makeApiCall(
+    inputs: string | string[],
+    useFailover: boolean = false,
+    modelUrl?: string,
+    signal?: AbortSignal,
+    parameters?: TaskParameters
+  ): Promise<ModelResponse> {
+    const apiUrl = modelUrl || (useFailover ? FALLBACK_API_URL : this.currentApiUrl);
+    const [url, init] = this.buildRequest(inputs, apiUrl, parameters);
+
+    try {
+      const response = await fetch(url, { ...init, signal });
 
       const responseText = await response.text();
       
       if (!response.ok) {
+        let estimatedTime: number | undefined;
         let errorMessage = `API request failed (${response.status}): ${response.statusText}`;
         
         // Handle 404 specifically
-        if (response.status === 404) {
+        if (response.status === 404 && !modelUrl) {
           if (!useFailover) {
             console.log('Primary model not found, trying fallback model...');
-            return this.makeApiCall(text, true);
+            return this.makeApiCall(inputs, true, undefined, signal, parameters);
           } else {
-            throw new Error('Model not found. The sentiment analysis model may be temporarily unavailable. Please try again later.');
+            throw new ProviderError('Model not found. The sentiment analysis model may be temporarily unavailable. Please try again later.', 'model_not_found');
           }
         }
         
@@ -93,6 +249,7 @@ class HuggingFaceService {
             errorMessage = errorData.error;
             
             if (errorData.estimated_time) {
+              estimatedTime = errorData.estimated_time;
               errorMessage += ` Model is loading, estimated time: ${errorData.estimated_time}s. Please try again in a moment.`;
             }
           }
@@ -100,231 +257,201 @@ class HuggingFaceService {
           // Use the default error message if JSON parsing fails
         }
 
-        if (response.status === 401) {
-          throw new Error('Invalid API key. Please check your Hugging Face API key in Settings.');
+        if (this.proxyUrl && (response.status === 401 || response.status === 403)) {
+          throw new ProviderError(`The proxy server refused the request: ${errorMessage}`, 'auth');
+        } else if (response.status === 401) {
+          throw new ProviderError('Invalid API key. Please check your Hugging Face API key in Settings.', 'auth');
         } else if (response.status === 403) {
-          throw new Error('Access forbidden. Please check your API key permissions or try a different model.');
+          throw new ProviderError('Access forbidden. Please check your API key permissions or try a different model.', 'auth');
         } else if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please wait a moment before making more requests.');
+          throw new RetryableError(
+            'Rate limit exceeded. Please wait a moment before making more requests.',
+            'rate_limited',
+            parseRetryAfter(response.headers.get('Retry-After'))
+          );
         } else if (response.status === 503) {
-          throw new Error('Model is currently loading. Please try again in a few moments.');
+          throw new RetryableError(
+            'Model is currently loading. Please try again in a few moments.',
+            'model_loading',
+            estimatedTime !== undefined ? estimatedTime * 1000 : parseRetryAfter(response.headers.get('Retry-After'))
+          );
+        } else if (response.status === 502 || response.status === 504) {
+          throw new RetryableError(errorMessage, 'server_error');
+        } else if (response.status === 404) {
+          throw new ProviderError(errorMessage, 'model_not_found');
         } else {
-          throw new Error(errorMessage);
+          throw new ProviderError(errorMessage, response.status >= 500 ? 'server_error' : 'unknown');
         }
       }
 
-      let data;
       try {
-        data = JSON.parse(responseText);
+        return { data: JSON.parse(responseText), modelUrl: apiUrl };
       } catch (parseError) {
-        throw new Error('Invalid response format from API. Please try again.');
-      }
-      
-      // Handle different response formats
-      if (Array.isArray(data) && data.length > 0) {
-        if (Array.isArray(data[0])) {
-          return data[0]; // Standard format
-        } else if (data[0].label && data[0].score !== undefined) {
-          return data; // Alternative format
-        }
+        throw new ProviderError('Invalid response format from API. Please try again.', 'bad_response');
       }
-      
-      throw new Error('Unexpected API response format. Please try again.');
     } catch (error) {
+      if (signal?.aborted) {
+        throw new JobCancelledError();
+      }
+      if (error instanceof TypeError && error.message.includes('fetch') && this.proxyUrl) {
+        throw new RetryableError(`Could not reach the proxy server at ${this.proxyUrl}. Is it running?`, 'network');
+      }
       if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new Error('Network error. Please check your internet connection and try again.');
+        throw new RetryableError('Network error. Please check your internet connection and try again.', 'network');
       }
       throw error;
     }
   }
 
-  private mapSentimentLabel(label: string): 'positive' | 'negative' | 'neutral' {
-    const normalizedLabel = label.toLowerCase();
-    
-    // Handle different label formats from various models
-    if (normalizedLabel.includes('positive') || normalizedLabel === 'label_2' || normalizedLabel === 'pos' || normalizedLabel.includes('5 stars') || normalizedLabel.includes('4 stars')) {
-      return 'positive';
-    } else if (normalizedLabel.includes('negative') || normalizedLabel === 'label_0' || normalizedLabel === 'neg' || normalizedLabel.includes('1 star') || normalizedLabel.includes('2 stars')) {
-      return 'negative';
-    } else {
-      return 'neutral';
-    }
+  private truncate = (text: string) => text.substring(0, this.capabilities.maxInputChars); // Limit text length to avoid issues
+
+  // Retries wait inside the queue slot, so they hold up every caller; paused
+  // jobs wait before joining the queue, so other analyses keep going.
+  private async send(inputs: string | string[], options: AnalyzeOptions, modelUrl?: string, parameters?: TaskParameters): Promise<ModelResponse> {
+    await checkpoint(options);
+    return this.enqueue(async () => {
+      if (options.signal?.aborted) throw new JobCancelledError();
+      return withRetry(
+        () => this.makeApiCall(inputs, false, modelUrl, options.signal, parameters),
+        options.retry,
+        options.onRetry,
+        options.signal
+      );
+    }, options.signal);
   }
 
-  private extractKeywords(text: string, sentiment: 'positive' | 'negative' | 'neutral'): Array<{
-    word: string;
-    sentiment: 'positive' | 'negative' | 'neutral';
-    weight: number;
-  }> {
-    // Enhanced keyword extraction
-    const positiveWords = [
-      'good', 'great', 'excellent', 'amazing', 'wonderful', 'fantastic', 'love', 'best', 'perfect', 'awesome',
-      'outstanding', 'brilliant', 'superb', 'magnificent', 'incredible', 'marvelous', 'exceptional', 'delightful',
-      'impressive', 'remarkable', 'beautiful', 'lovely', 'nice', 'pleasant', 'enjoyable', 'satisfying'
-    ];
-    
-    const negativeWords = [
-      'bad', 'terrible', 'awful', 'horrible', 'hate', 'worst', 'disappointing', 'poor', 'useless', 'disgusting',
-      'dreadful', 'appalling', 'atrocious', 'abysmal', 'pathetic', 'miserable', 'unpleasant', 'annoying',
-      'frustrating', 'irritating', 'boring', 'stupid', 'ridiculous', 'waste', 'failure', 'broken'
-    ];
-    
-    const words = text.toLowerCase().match(/\b\w+\b/g) || [];
-    const keywords: Array<{ word: string; sentiment: 'positive' | 'negative' | 'neutral'; weight: number; }> = [];
-    
-    words.forEach(word => {
-      if (positiveWords.includes(word)) {
-        keywords.push({ word, sentiment: 'positive', weight: 0.8 });
-      } else if (negativeWords.includes(word)) {
-        keywords.push({ word, sentiment: 'negative', weight: 0.8 });
-      }
-    });
-    
-    // Remove duplicates and return top 5
-    const uniqueKeywords = keywords.filter((keyword, index, self) => 
-      index === self.findIndex(k => k.word === keyword.word)
-    );
-    
-    return uniqueKeywords.slice(0, 5);
+  private async classifySingle(
+    text: string,
+    options: AnalyzeOptions,
+    modelUrl?: string,
+    parameters?: TaskParameters
+  ): Promise<ModelResults> {
+    const response = await this.send(text, options, modelUrl, parameters);
+    return { results: parseLabelScores(response.data), modelUrl: response.modelUrl };
   }
 
-  async analyzeSentiment(text: string): Promise<{
-    sentiment: 'positive' | 'negative' | 'neutral';
-    confidence: number;
-    scores: { positive: number; negative: number; neutral: number };
-    keywords: Array<{ word: string; sentiment: 'positive' | 'negative' | 'neutral'; weight: number; }>;
-    explanation: string;
-  }> {
-    return new Promise((resolve, reject) => {
-      this.requestQueue.push(async () => {
+  /**
+   * Classifies texts in groups of `batchSize`, one request per group, capped
+   * at the proxy's batch limit when going through one. Items the batched
+   * response does not cover, or whole groups whose request fails, are retried
+   * one text at a time.
+   */
+  private async requestBatched(
+    texts: string[],
+    options: AnalyzeOptions,
+    modelUrl?: string,
+    onProgress?: (completed: number) => void,
+    parameters?: TaskParameters
+  ): Promise<ModelResults[]> {
+    const proxyLimit = (await this.getProxyLimits())?.maxBatchSize ?? Infinity;
+    const size = Math.max(1, Math.min(proxyLimit, Math.floor(options.batchSize ?? DEFAULT_BATCH_SIZE)));
+    const results: ModelResults[] = [];
+
+    for (let start = 0; start < texts.length; start += size) {
+      const group = texts.slice(start, start + size);
+      let batched: Array<ModelResults | null> = group.map(() => null);
+
+      if (group.length > 1) {
         try {
-          const results = await this.makeApiCall(text);
-          
-          // Initialize scores
-          const scores = { positive: 0, negative: 0, neutral: 0 };
-          
-          // Process results and normalize scores
-          let totalScore = 0;
-          results.forEach((result: HuggingFaceResponse) => {
-            const mappedSentiment = this.mapSentimentLabel(result.label);
-            scores[mappedSentiment] = Math.max(0, Math.min(1, result.score)); // Ensure score is between 0 and 1
-            totalScore += scores[mappedSentiment];
-          });
-          
-          // Normalize scores to sum to 1 if needed
-          if (totalScore > 0 && Math.abs(totalScore - 1) > 0.01) {
-            Object.keys(scores).forEach(key => {
-              scores[key as keyof typeof scores] = scores[key as keyof typeof scores] / totalScore;
-            });
-          }
-          
-          // Find the highest scoring sentiment
-          const sentiment = Object.entries(scores).reduce((a, b) => 
-            scores[a[0] as keyof typeof scores] > scores[b[0] as keyof typeof scores] ? a : b
-          )[0] as 'positive' | 'negative' | 'neutral';
-          
-          const confidence = scores[sentiment];
-          const keywords = this.extractKeywords(text, sentiment);
-          const explanation = this.generateExplanation(sentiment, confidence, keywords);
-          
-          resolve({
-            sentiment,
-            confidence,
-            scores,
-            keywords,
-            explanation
-          });
+          const response = await this.send(group, options, modelUrl, parameters);
+          batched = parseBatchLabelScores(response.data, group.length)
+            .map(item => item && { results: item, modelUrl: response.modelUrl });
         } catch (error) {
-          reject(error);
+          if (error instanceof JobCancelledError) throw error;
+          console.warn(`Batched request for ${group.length} texts failed, retrying individually:`, error);
         }
-      });
-      
-      this.processQueue();
+      }
+
+      for (let i = 0; i < group.length; i++) {
+        results.push(batched[i] ?? await this.classifySingle(group[i], options, modelUrl, parameters));
+      }
+      onProgress?.(results.length);
+    }
+
+    return results;
+  }
+
+  // Answers what it can from the local cache and only queues the rest.
+  // Bypassing the cache skips the lookup but still stores fresh results.
+  // Task parameters are part of the cache key, since they change the answer,
+  // and fresh results are keyed by the model that actually answered, so a
+  // failover answer is never served as the requested model's later.
+  private async classifyCached(
+    texts: string[],
+    options: AnalyzeOptions,
+    modelUrl?: string,
+    parameters?: TaskParameters
+  ): Promise<ClassifiedText[]> {
+    const requestedUrl = modelUrl ?? this.currentApiUrl;
+    const keyFor = (url: string, text: string) =>
+      analysisCache.keyFor(this.id, `${url}${parameters ? `|${JSON.stringify(parameters)}` : ''}`, this.truncate(text));
+    const keys = await Promise.all(texts.map(text => keyFor(requestedUrl, text)));
+    const cached = options.bypassCache ? keys.map(() => undefined) : await analysisCache.getMany(keys);
+
+    const missing = texts.map((_, i) => i).filter(i => !cached[i]);
+    const hitCount = texts.length - missing.length;
+    const fresh = await this.requestBatched(
+      missing.map(i => texts[i]),
+      options,
+      modelUrl,
+      completed => options.onProgress?.(hitCount + completed, texts.length),
+      parameters
+    );
+    if (missing.length === 0) options.onProgress?.(texts.length, texts.length);
+    const freshKeys = await Promise.all(missing.map((i, j) =>
+      fresh[j].modelUrl === requestedUrl ? keys[i] : keyFor(fresh[j].modelUrl, texts[i])
+    ));
+    await analysisCache.putMany(missing.map((_, j) => ({ key: freshKeys[j], results: fresh[j].results })));
+
+    const freshByIndex = new Map(missing.map((i, j) => [i, fresh[j]]));
+    return texts.map((_, i) => {
+      const hit = cached[i];
+      return hit ? { results: hit, modelUrl: requestedUrl, cached: true } : { ...freshByIndex.get(i)!, cached: false };
     });
   }
 
-  private generateExplanation(
-    sentiment: 'positive' | 'negative' | 'neutral',
-    confidence: number,
-    keywords: Array<{ word: string; sentiment: string; weight: number; }>
-  ): string {
-    const confidenceLevel = confidence > 0.8 ? 'high' : confidence > 0.6 ? 'moderate' : 'low';
-    const keywordText = keywords.length > 0 
-      ? ` Key indicators include words like: ${keywords.map(k => k.word).join(', ')}.`
-      : '';
-    
-    return `This text shows ${sentiment} sentiment with ${confidenceLevel} confidence (${(confidence * 100).toFixed(1)}%).${keywordText}`;
+  private toAnalysis(text: string, classified: ClassifiedText, options: AnalyzeOptions): SentimentAnalysis {
+    const analysis = buildAnalysis(text, classified.results, classified.modelUrl.slice(HUGGINGFACE_MODELS_URL.length), options);
+    return classified.cached ? { ...analysis, cached: true } : analysis;
   }
 
-  // Enhanced demo mode
-  async analyzeSentimentDemo(text: string): Promise<{
-    sentiment: 'positive' | 'negative' | 'neutral';
-    confidence: number;
-    scores: { positive: number; negative: number; neutral: number };
-    keywords: Array<{ word: string; sentiment: 'positive' | 'negative' | 'neutral'; weight: number; }>;
-    explanation: string;
-  }> {
-    // Simulate realistic API delay
-    await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000));
-    
-    // Enhanced rule-based sentiment analysis for demo
-    const positiveWords = [
-      'good', 'great', 'excellent', 'amazing', 'wonderful', 'fantastic', 'love', 'best', 'perfect', 'awesome',
-      'outstanding', 'brilliant', 'superb', 'magnificent', 'incredible', 'marvelous', 'exceptional', 'delightful'
-    ];
-    
-    const negativeWords = [
-      'bad', 'terrible', 'awful', 'horrible', 'hate', 'worst', 'disappointing', 'poor', 'useless', 'disgusting',
-      'dreadful', 'appalling', 'atrocious', 'abysmal', 'pathetic', 'miserable', 'unpleasant', 'annoying'
-    ];
-    
-    const words = text.toLowerCase().match(/\b\w+\b/g) || [];
-    let positiveScore = 0;
-    let negativeScore = 0;
-    
-    words.forEach(word => {
-      if (positiveWords.includes(word)) positiveScore++;
-      if (negativeWords.includes(word)) negativeScore++;
-    });
-    
-    let sentiment: 'positive' | 'negative' | 'neutral';
-    let confidence: number;
-    
-    if (positiveScore > negativeScore) {
-      sentiment = 'positive';
-      confidence = Math.min(0.65 + (positiveScore * 0.08), 0.92);
-    } else if (negativeScore > positiveScore) {
-      sentiment = 'negative';
-      confidence = Math.min(0.65 + (negativeScore * 0.08), 0.92);
-    } else {
-      sentiment = 'neutral';
-      confidence = 0.55 + Math.random() * 0.25;
-    }
-    
-    // Create realistic score distribution
-    const remaining = 1 - confidence;
-    const scores = {
-      positive: sentiment === 'positive' ? confidence : Math.random() * remaining * 0.6,
-      negative: sentiment === 'negative' ? confidence : Math.random() * remaining * 0.6,
-      neutral: sentiment === 'neutral' ? confidence : Math.random() * remaining * 0.6
-    };
-    
-    // Normalize scores to sum to 1
-    const total = scores.positive + scores.negative + scores.neutral;
-    scores.positive /= total;
-    scores.negative /= total;
-    scores.neutral /= total;
-    
-    const keywords = this.extractKeywords(text, sentiment);
-    const explanation = this.generateExplanation(sentiment, confidence, keywords);
-    
-    return { sentiment, confidence, scores, keywords, explanation };
+  async analyze(text: string, options: AnalyzeOptions = {}): Promise<SentimentAnalysis> {
+    const [classified] = await this.classifyCached([text], options);
+    return this.toAnalysis(text, classified, options);
+  }
+
+  // Runs any text-classification model on the hosted API, e.g. an emotion model
+  async classify(text: string, modelId: string, options: AnalyzeOptions = {}): Promise<RawLabelScore[]> {
+    const [classified] = await this.classifyCached([text], options, `${HUGGINGFACE_MODELS_URL}${modelId}`);
+    return classified.results;
+  }
+
+  async classifyMany(texts: string[], modelId: string, options: AnalyzeOptions = {}): Promise<ClassifiedText[]> {
+    return this.classifyCached(texts, options, `${HUGGINGFACE_MODELS_URL}${modelId}`);
+  }
+
+  // Zero-shot classification: scores every text against free-form labels,
+  // each label on its own, so a text can fit several or none
+  async zeroShotMany(texts: string[], modelId: string, labels: string[], options: AnalyzeOptions = {}): Promise<RawLabelScore[][]> {
+    const classified = await this.classifyCached(
+      texts,
+      options,
+      `${HUGGINGFACE_MODELS_URL}${modelId}`,
+      { candidate_labels: labels, multi_label: true }
+    );
+    return classified.map(item => item.results);
+  }
+
+  async analyzeMany(texts: string[], options: AnalyzeOptions = {}): Promise<SentimentAnalysis[]> {
+    const modelUrl = options.model ? `${HUGGINGFACE_MODELS_URL}${options.model}` : undefined;
+    const classified = await this.classifyCached(texts, options, modelUrl);
+    return classified.map((item, i) => this.toAnalysis(texts[i], item, options));
   }
 
   // Test connection method with fallback
   async testConnection(): Promise<boolean> {
     try {
-      await this.analyzeSentiment('This is a test message.');
+      await this.analyze('This is a test message.', { bypassCache: true });
       return true;
     } catch (error) {
       throw error;
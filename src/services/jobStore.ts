@@ -0,0 +1,113 @@
+import { BatchJob, JobStatus } from '../types/job';
+import { AnalyzeOptions } from '../types/provider';
+import { ProviderError } from './providerErrors';
+
+export class JobCancelledError extends ProviderError {
+  constructor() {
+    super('Batch job was cancelled.', 'cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Throws if the job behind `options` was cancelled and waits while it is
+ * paused. Providers call this before each request, and before queueing it
+ * where requests share a queue, so a paused job sends nothing and holds up
+ * no one else.
+ */
+export const checkpoint = async (options: AnalyzeOptions) => {
+  if (options.signal?.aborted) throw new JobCancelledError();
+  await options.waitForResume?.();
+  if (options.signal?.aborted) throw new JobCancelledError();
+};
+
+interface JobControl {
+  controller: AbortController;
+  resume: (() => void) | null;
+  resumed: Promise<void> | null;
+}
+
+export interface JobHandle {
+  id: string;
+  signal: AbortSignal;
+  waitForResume: () => Promise<void>;
+  setProgress: (completed: number) => void;
+  finish: (status: Extract<JobStatus, 'completed' | 'cancelled' | 'failed'>, error?: string) => void;
+}
+
+/**
+ * Tracks running batch jobs. Jobs live in memory only: a page reload stops
+ * the underlying requests, so there is nothing to resume afterwards.
+ */
+class JobStore {
+  private jobs: BatchJob[] = [];
+  private controls = new Map<string, JobControl>();
+  private listeners = new Set<() => void>();
+
+  getJobs = (): BatchJob[] => this.jobs;
+
+  private updateJob(id: string, changes: Partial<BatchJob>) {
+    this.jobs = this.jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    this.listeners.forEach(listener => listener());
+  }
+
+  start(name: string, total: number): JobHandle {
+    const id = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const control: JobControl = { controller: new AbortController(), resume: null, resumed: null };
+    this.controls.set(id, control);
+    this.jobs = [{ id, name, status: 'running', total, completed: 0, startedAt: new Date() }, ...this.jobs];
+    this.listeners.forEach(listener => listener());
+
+    return {
+      id,
+      signal: control.controller.signal,
+      waitForResume: () => control.resumed ?? Promise.resolve(),
+      setProgress: (completed) => this.updateJob(id, { completed }),
+      finish: (status, error) => {
+        this.controls.delete(id);
+        this.updateJob(id, { status, error, finishedAt: new Date() });
+      }
+    };
+  }
+
+  pause(id: string) {
+    const control = this.controls.get(id);
+    if (!control || control.resumed) return;
+    control.resumed = new Promise(resolve => {
+      control.resume = resolve;
+    });
+    this.updateJob(id, { status: 'paused' });
+  }
+
+  resume(id: string) {
+    const control = this.controls.get(id);
+    if (!control?.resume) return;
+    control.resume();
+    control.resume = null;
+    control.resumed = null;
+    this.updateJob(id, { status: 'running' });
+  }
+
+  // Aborts in-flight requests; a paused job is released so it can wind down.
+  cancel(id: string) {
+    const control = this.controls.get(id);
+    if (!control) return;
+    control.controller.abort();
+    control.resume?.();
+  }
+
+  dismiss(id: string) {
+    if (this.controls.has(id)) return;
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const jobStore = new JobStore();
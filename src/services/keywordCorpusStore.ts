@@ -0,0 +1,54 @@
+import { KeywordCorpus } from '../types/sentiment';
+import { keywordTerms } from './keywordExtractor';
+
+const STORAGE_KEY = 'keyword_corpus';
+
+// Rarest terms are dropped beyond this; they get the top IDF either way
+const MAX_TERMS = 5000;
+
+const EMPTY_CORPUS: KeywordCorpus = { documents: 0, frequencies: {} };
+
+const prune = (frequencies: Record<string, number>): Record<string, number> => {
+  const entries = Object.entries(frequencies);
+  if (entries.length <= MAX_TERMS) return frequencies;
+  return Object.fromEntries(entries.sort((a, b) => b[1] - a[1]).slice(0, MAX_TERMS));
+};
+
+/**
+ * Per-workspace document frequencies of keyword terms, built up from every
+ * analyzed text so keyword extraction can tell a workspace's everyday
+ * vocabulary from what makes a text stand out.
+ */
+class KeywordCorpusStore {
+  private corpora: Record<string, KeywordCorpus> = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+
+  private commit(corpora: Record<string, KeywordCorpus>) {
+    this.corpora = corpora;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(corpora));
+  }
+
+  get(workspaceId: string): KeywordCorpus {
+    return this.corpora[workspaceId] ?? EMPTY_CORPUS;
+  }
+
+  addDocuments(workspaceId: string, texts: string[]) {
+    if (texts.length === 0) return;
+    const corpus = this.get(workspaceId);
+    const frequencies = { ...corpus.frequencies };
+    texts.forEach(text => {
+      keywordTerms(text).forEach(term => {
+        frequencies[term] = (frequencies[term] ?? 0) + 1;
+      });
+    });
+    this.commit({
+      ...this.corpora,
+      [workspaceId]: { documents: corpus.documents + texts.length, frequencies: prune(frequencies) }
+    });
+  }
+
+  clear() {
+    this.commit({});
+  }
+}
+
+export const keywordCorpusStore = new KeywordCorpusStore();
@@ -0,0 +1,251 @@
+import { DetectedLanguage, KeywordCorpus, LanguageCode, SentimentKeyword, SentimentLabel, SentimentResult } from '../types/sentiment';
+import { CustomLexiconEntry } from '../types/workspace';
+import { detectLanguage } from './languageDetector';
+
+const STOP_WORDS: Record<LanguageCode, Set<string>> = {
+  en: new Set([
+    'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', "aren't",
+    'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', "can't",
+    'cannot', 'could', "couldn't", 'did', "didn't", 'do', 'does', "doesn't", 'doing', "don't", 'down', 'during',
+    'each', 'even', 'ever', 'every', 'few', 'for', 'from', 'further', 'get', 'gets', 'got', 'had', "hadn't", 'has',
+    "hasn't", 'have', "haven't", 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how',
+    'i', "i'd", "i'll", "i'm", "i've", 'if', 'in', 'into', 'is', "isn't", 'it', "it's", 'its', 'itself', 'just',
+    'less', 'let', 'like', 'made', 'make', 'many', 'me', 'more', 'most', 'much', 'must', 'my', 'myself', 'never',
+    'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'ourselves',
+    'out', 'over', 'own', 'quite', 'rather', 'really', 'same', 'she', 'should', "shouldn't", 'so', 'some', 'still',
+    'such', 'than', 'that', "that's", 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', "there's",
+    'these', 'they', "they're", 'thing', 'things', 'this', 'those', 'though', 'through', 'to', 'too', 'under',
+    'until', 'up', 'us', 'very', 'was', "wasn't", 'we', "we're", 'were', "weren't", 'what', 'when', 'where',
+    'which', 'while', 'who', 'whom', 'why', 'will', 'with', "won't", 'would', "wouldn't", 'yet', 'you', "you're",
+    'your', 'yours', 'yourself', 'yourselves'
+  ]),
+  de: new Set([
+    'aber', 'alle', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'bist', 'da', 'damit',
+    'dann', 'das', 'dass', 'dem', 'den', 'der', 'des', 'die', 'dies', 'diese', 'dieser', 'doch', 'du', 'ein', 'eine',
+    'einem', 'einen', 'einer', 'es', 'etwas', 'für', 'gar', 'habe', 'haben', 'hat', 'hatte', 'ich', 'ihr', 'im',
+    'in', 'ist', 'ja', 'jetzt', 'kann', 'kein', 'keine', 'man', 'mehr', 'mein', 'meine', 'mich', 'mir', 'mit',
+    'nach', 'nicht', 'noch', 'nur', 'ob', 'oder', 'schon', 'sehr', 'sich', 'sie', 'sind', 'so', 'über', 'um',
+    'und', 'uns', 'unter', 'viel', 'vom', 'von', 'vor', 'war', 'waren', 'was', 'weil', 'wenn', 'wie', 'wir',
+    'wird', 'wurde', 'zu', 'zum', 'zur'
+  ]),
+  es: new Set([
+    'a', 'al', 'algo', 'como', 'con', 'de', 'del', 'el', 'ella', 'en', 'era', 'es', 'esa', 'ese', 'eso', 'esta',
+    'está', 'este', 'esto', 'fue', 'ha', 'han', 'hay', 'la', 'las', 'le', 'lo', 'los', 'me', 'mi', 'muy', 'más',
+    'mucho', 'nada', 'ni', 'no', 'nos', 'o', 'para', 'pero', 'por', 'porque', 'que', 'qué', 'se', 'si', 'sin',
+    'sobre', 'son', 'su', 'sus', 'también', 'te', 'tiene', 'todo', 'un', 'una', 'uno', 'y', 'ya', 'yo'
+  ]),
+  fr: new Set([
+    'a', 'au', 'aussi', 'avec', 'avoir', 'bien', 'c', 'ce', 'cela', 'ces', 'cet', 'cette', 'd', 'dans', 'de',
+    'des', 'du', 'elle', 'en', 'est', 'et', 'été', 'il', 'ils', 'j', 'je', 'l', 'la', 'le', 'les', 'leur', 'lui',
+    'm', 'ma', 'mais', 'me', 'mes', 'moi', 'mon', 'même', 'n', 'ne', 'ni', 'nous', 'on', 'ou', 'où', 'par', 'pas',
+    'plus', 'pour', 'qu', 'que', 'qui', 's', 'sa', 'se', 'ses', 'si', 'son', 'sont', 'sur', 't', 'ta', 'te',
+    'tout', 'très', 'trop', 'tu', 'un', 'une', 'vous', 'y', 'était'
+  ])
+};
+
+const MAX_PHRASE_WORDS = 3;
+const MAX_KEYWORDS = 8;
+
+// Texts of unknown language are checked against every stop word list
+export const isStopWord = (word: string, language: DetectedLanguage): boolean => {
+  const lower = word.toLowerCase().replace(/’/g, "'");
+  return language === 'unknown'
+    ? Object.values(STOP_WORDS).some(stopWords => stopWords.has(lower))
+    : STOP_WORDS[language].has(lower);
+};
+
+// Punctuation that ends a candidate phrase
+const PHRASE_BREAK = /[.,;:!?()[\]{}"“”«»…–—\n\r\t/|]+/u;
+const WORD = /[\p{L}\p{N}]+(?:'[\p{L}]+)*/gu;
+
+/**
+ * Folds plurals onto their singular so "battery" and "batteries" count as
+ * one keyword. Deliberately light: only endings that are unambiguous in the
+ * language are touched, and German is left alone.
+ */
+export const lemmatize = (word: string, language: LanguageCode): string => {
+  if (language === 'en') {
+    const base = word.replace(/'s$/, '');
+    if (base.length <= 3) return base;
+    if (base.endsWith('ies') && base.length > 4) return `${base.slice(0, -3)}y`;
+    if (base.endsWith('sses')) return base.slice(0, -2);
+    if (/(?:ch|sh|x|zz)es$/.test(base)) return base.slice(0, -2);
+    if (base.endsWith('s') && !/(?:ss|us|is)$/.test(base)) return base.slice(0, -1);
+    return base;
+  }
+  if ((language === 'es' || language === 'fr') && word.length > 4 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+};
+
+/**
+ * RAKE-style candidates: runs of content words between stop words and
+ * punctuation, lemmatized and capped at three words. Numbers and single
+ * letters break a run like stop words do.
+ */
+const candidatePhrases = (text: string, language: LanguageCode): string[][] => {
+  const stopWords = STOP_WORDS[language];
+  const phrases: string[][] = [];
+
+  text.toLowerCase().replace(/’/g, "'").split(PHRASE_BREAK).forEach(fragment => {
+    let run: string[] = [];
+    const flush = () => {
+      for (let i = 0; i < run.length; i += MAX_PHRASE_WORDS) {
+        phrases.push(run.slice(i, i + MAX_PHRASE_WORDS));
+      }
+      run = [];
+    };
+    (fragment.match(WORD) || []).forEach(word => {
+      if (stopWords.has(word) || word.length < 2 || /^\p{N}+$/u.test(word)) {
+        flush();
+      } else {
+        run.push(lemmatize(word, language));
+      }
+    });
+    flush();
+  });
+  return phrases;
+};
+
+const resolveLanguage = (text: string, language?: DetectedLanguage): LanguageCode => {
+  const detected = language ?? detectLanguage(text).language;
+  return detected === 'unknown' ? 'en' : detected;
+};
+
+// Distinct candidate terms of a text, as counted in a keyword corpus
+export const keywordTerms = (text: string, language?: DetectedLanguage): string[] =>
+  Array.from(new Set(candidatePhrases(text, resolveLanguage(text, language)).map(phrase => phrase.join(' '))));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive match of a word or phrase
+const containsTerm = (text: string, term: string): boolean =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+
+// Smoothed, so terms the corpus has never seen get the largest boost and
+// terms in every text keep a weight of 1
+const inverseDocumentFrequency = (term: string, corpus?: KeywordCorpus): number =>
+  corpus && corpus.documents > 0
+    ? Math.log((1 + corpus.documents) / (1 + (corpus.frequencies[term] ?? 0))) + 1
+    : 1;
+
+export interface KeywordOptions {
+  language?: DetectedLanguage;
+  // Workspace domain terms, reported ahead of extracted keywords
+  lexicon?: CustomLexiconEntry[];
+  // Document frequencies of earlier texts in the workspace
+  corpus?: KeywordCorpus;
+  // Sentiment of the text, attached to the keywords it yields
+  sentiment?: SentimentLabel;
+}
+
+/**
+ * Key words and phrases of a text. Candidates are scored with RAKE (word
+ * degree over frequency, summed over the phrase, so "battery life" outranks
+ * "battery" alone), boosted by repetition and weighted by inverse document
+ * frequency against the workspace corpus, which pushes down terms that occur
+ * in nearly every text of the workspace. Weights are relative to the
+ * strongest keyword of the text.
+ *
+ * Workspace lexicon terms found in the text come first with their own
+ * polarity and weight; a term with valence 0 is never reported. Other
+ * keywords carry the sentiment of the text they were found in.
+ */
+export const extractKeywords = (text: string, options: KeywordOptions = {}): SentimentKeyword[] => {
+  const { lexicon = [], corpus, sentiment = 'neutral' } = options;
+  const language = resolveLanguage(text, options.language);
+  const phrases = candidatePhrases(text, language);
+
+  const frequency = new Map<string, number>();
+  const degree = new Map<string, number>();
+  phrases.forEach(phrase => {
+    phrase.forEach(word => {
+      frequency.set(word, (frequency.get(word) ?? 0) + 1);
+      degree.set(word, (degree.get(word) ?? 0) + phrase.length);
+    });
+  });
+
+  const suppressed = new Set(lexicon.map(entry =>
+    entry.term.trim().toLowerCase().split(/\s+/).map(word => lemmatize(word, language)).join(' ')
+  ));
+  const occurrences = new Map<string, { words: string[]; count: number }>();
+  phrases.forEach(phrase => {
+    const term = phrase.join(' ');
+    if (suppressed.has(term)) return;
+    const existing = occurrences.get(term);
+    occurrences.set(term, { words: phrase, count: (existing?.count ?? 0) + 1 });
+  });
+
+  const scored = Array.from(occurrences.entries()).map(([term, { words, count }]) => {
+    const rake = words.reduce((sum, word) => sum + degree.get(word)! / frequency.get(word)!, 0);
+    return { term, score: rake * (1 + Math.log(count)) * inverseDocumentFrequency(term, corpus) };
+  }).sort((a, b) => b.score - a.score);
+
+  const domainKeywords: SentimentKeyword[] = lexicon
+    .filter(entry => entry.valence !== 0 && containsTerm(text, entry.term))
+    .sort((a, b) => Math.abs(b.valence) - Math.abs(a.valence))
+    .map(entry => ({
+      word: entry.term.trim().toLowerCase(),
+      sentiment: entry.valence > 0 ? 'positive' : 'negative',
+      weight: Math.min(1, Math.abs(entry.valence) / 4)
+    }));
+
+  const topScore = scored[0]?.score ?? 1;
+  const keywords: SentimentKeyword[] = scored.map(({ term, score }) => ({
+    word: term,
+    sentiment,
+    weight: Math.round((score / topScore) * 1000) / 1000
+  }));
+
+  return [...domainKeywords, ...keywords]
+    .filter((keyword, index, self) => index === self.findIndex(k => k.word === keyword.word))
+    .slice(0, MAX_KEYWORDS);
+};
+
+// Net sentiment beyond which a keyword counts as leaning one way
+const ASSOCIATION_THRESHOLD = 0.15;
+
+export interface RankedKeyword {
+  word: string;
+  // Results the keyword was extracted from
+  count: number;
+  // Sum of its weights across those results
+  weight: number;
+  // Mean positive minus negative score of those results, -1..1
+  association: number;
+  sentiment: SentimentLabel;
+}
+
+/**
+ * Ranks keywords across results by summed weight, so a term that is central
+ * to many texts beats one that was mentioned in passing. Each keyword's
+ * sentiment comes from the results it appears in.
+ */
+export const rankKeywords = (results: SentimentResult[], limit = 10): RankedKeyword[] => {
+  const totals = new Map<string, { count: number; weight: number; net: number }>();
+  results.forEach(result => {
+    const net = result.scores.positive - result.scores.negative;
+    const seen = new Set<string>();
+    result.keywords.forEach(keyword => {
+      if (seen.has(keyword.word)) return;
+      seen.add(keyword.word);
+      const total = totals.get(keyword.word) ?? { count: 0, weight: 0, net: 0 };
+      total.count++;
+      total.weight += keyword.weight;
+      total.net += net;
+      totals.set(keyword.word, total);
+    });
+  });
+
+  return Array.from(totals.entries())
+    .map(([word, { count, weight, net }]) => {
+      const association = net / count;
+      const sentiment: SentimentLabel = association > ASSOCIATION_THRESHOLD
+        ? 'positive'
+        : association < -ASSOCIATION_THRESHOLD ? 'negative' : 'neutral';
+      return { word, count, weight, association, sentiment };
+    })
+    .sort((a, b) => b.weight - a.weight || b.count - a.count)
+    .slice(0, limit);
+};
@@ -0,0 +1,160 @@
+import { ChunkAggregation, LabelSchema, LabelScores, SchemaLabel, SentimentLabel, SentimentScores } from '../types/sentiment';
+
+export const DEFAULT_SCHEMA_ID = 'three-point';
+
+export const BUILT_IN_SCHEMAS: LabelSchema[] = [
+  {
+    id: DEFAULT_SCHEMA_ID,
+    name: 'Three-point (negative, neutral, positive)',
+    builtIn: true,
+    labels: [
+      { id: 'negative', name: 'Negative', value: -1 },
+      { id: 'neutral', name: 'Neutral', value: 0 },
+      { id: 'positive', name: 'Positive', value: 1 }
+    ]
+  },
+  {
+    id: 'five-point',
+    name: 'Five-point (very negative to very positive)',
+    builtIn: true,
+    labels: [
+      { id: 'very-negative', name: 'Very negative', value: -2 },
+      { id: 'negative', name: 'Negative', value: -1 },
+      { id: 'neutral', name: 'Neutral', value: 0 },
+      { id: 'positive', name: 'Positive', value: 1 },
+      { id: 'very-positive', name: 'Very positive', value: 2 }
+    ]
+  },
+  {
+    id: 'three-point-mixed',
+    name: 'Three-point with mixed',
+    builtIn: true,
+    labels: [
+      { id: 'negative', name: 'Negative', value: -1 },
+      { id: 'neutral', name: 'Neutral', value: 0 },
+      { id: 'mixed', name: 'Mixed', value: 0, mixed: true },
+      { id: 'positive', name: 'Positive', value: 1 }
+    ]
+  }
+];
+
+// A text counts as mixed when both polarities carry at least this much
+const MIXED_MIN_SHARE = 0.3;
+
+export const labelPolarity = (label: SchemaLabel): SentimentLabel =>
+  label.mixed || label.value === 0 ? 'neutral' : label.value > 0 ? 'positive' : 'negative';
+
+export const labelColor = (label: SchemaLabel): string => {
+  if (label.mixed) return '#F59E0B';
+  if (label.value === 0) return '#6B7280';
+  const strong = Math.abs(label.value) > 1;
+  if (label.value > 0) return strong ? '#047857' : '#10B981';
+  return strong ? '#B91C1C' : '#EF4444';
+};
+
+export const collapseLabelScores = (scores: Record<string, number>, schema: LabelSchema): SentimentScores => {
+  const collapsed = { positive: 0, negative: 0, neutral: 0 };
+  schema.labels.forEach(label => {
+    collapsed[labelPolarity(label)] += scores[label.id] || 0;
+  });
+  return collapsed;
+};
+
+/**
+ * Picks the reported label: first the winning polarity, then the strongest
+ * label of that polarity. Schemas with a mixed label report it when both
+ * polarities are substantial or the model scored it highest.
+ */
+export const pickLabel = (scores: Record<string, number>, schema: LabelSchema): string => {
+  const collapsed = collapseLabelScores(scores, schema);
+  const mixed = schema.labels.find(label => label.mixed);
+  if (mixed) {
+    const mixedScore = scores[mixed.id] || 0;
+    const bothSides = collapsed.positive >= MIXED_MIN_SHARE && collapsed.negative >= MIXED_MIN_SHARE;
+    if (bothSides || schema.labels.every(label => (scores[label.id] || 0) <= mixedScore)) return mixed.id;
+  }
+
+  const polarity = (Object.keys(collapsed) as SentimentLabel[]).reduce((a, b) => (collapsed[a] >= collapsed[b] ? a : b));
+  const candidates = schema.labels.filter(label => !label.mixed && labelPolarity(label) === polarity);
+  // Schemas without a label of that polarity (e.g. no neutral) take the top label
+  return (candidates.length > 0 ? candidates : schema.labels)
+    .reduce((a, b) => ((scores[b.id] || 0) > (scores[a.id] || 0) ? b : a)).id;
+};
+
+const targetLabel = (label: SchemaLabel, to: LabelSchema): SchemaLabel => {
+  const same = to.labels.find(candidate => candidate.id === label.id);
+  if (same) return same;
+  const candidates = to.labels.filter(candidate => !!candidate.mixed === !!label.mixed);
+  const pool = candidates.length > 0 ? candidates : to.labels.filter(candidate => !candidate.mixed);
+  // Nearest position on the scale; ties go to the milder label
+  return pool.reduce((a, b) => {
+    const da = Math.abs(a.value - label.value);
+    const db = Math.abs(b.value - label.value);
+    return db < da || (db === da && Math.abs(b.value) < Math.abs(a.value)) ? b : a;
+  });
+};
+
+/**
+ * Moves scores from one schema to another. Labels with the same id carry
+ * over, others land on the nearest label of the target scale, so five-point
+ * "very positive" becomes three-point "positive".
+ */
+export const projectLabelScores = (labels: LabelScores, from: LabelSchema, to: LabelSchema): LabelScores => {
+  if (from.id === to.id) return labels;
+
+  const scores: Record<string, number> = Object.fromEntries(to.labels.map(label => [label.id, 0]));
+  from.labels.forEach(label => {
+    scores[targetLabel(label, to).id] += labels.scores[label.id] || 0;
+  });
+  return { schemaId: to.id, label: pickLabel(scores, to), scores };
+};
+
+// Three-class scores expressed in the default schema
+export const labelsFromScores = (scores: SentimentScores): LabelScores => ({
+  schemaId: DEFAULT_SCHEMA_ID,
+  label: pickLabel({ ...scores }, BUILT_IN_SCHEMAS[0]),
+  scores: { ...scores }
+});
+
+/**
+ * Rescales label scores so each polarity adds up to the given three-class
+ * scores, e.g. after calibration, keeping how a polarity is split between
+ * its labels. A polarity the labels gave nothing is shared evenly.
+ */
+export const rescaleLabelScores = (labels: LabelScores, schema: LabelSchema, to: SentimentScores): LabelScores => {
+  const from = collapseLabelScores(labels.scores, schema);
+  const scores: Record<string, number> = {};
+  schema.labels.forEach(label => {
+    const polarity = labelPolarity(label);
+    const share = from[polarity] > 0
+      ? (labels.scores[label.id] || 0) / from[polarity]
+      : 1 / schema.labels.filter(other => labelPolarity(other) === polarity).length;
+    scores[label.id] = to[polarity] * share;
+  });
+  return { schemaId: schema.id, label: pickLabel(scores, schema), scores };
+};
+
+/**
+ * Label scores for a chunked text, combined like the three-class chunk
+ * scores: averaged (optionally by length), or taken from the most negative
+ * chunk.
+ */
+export const aggregateLabelScores = (
+  chunks: Array<{ labels: LabelScores; negative: number; length: number }>,
+  strategy: ChunkAggregation,
+  schema: LabelSchema
+): LabelScores => {
+  if (strategy === 'max-negative') {
+    return chunks.reduce((a, b) => (b.negative > a.negative ? b : a)).labels;
+  }
+
+  const weights = chunks.map(chunk => (strategy === 'length-weighted' ? chunk.length : 1));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0) || 1;
+  const scores: Record<string, number> = Object.fromEntries(schema.labels.map(label => [label.id, 0]));
+  chunks.forEach((chunk, i) => {
+    schema.labels.forEach(label => {
+      scores[label.id] += (chunk.labels.scores[label.id] || 0) * (weights[i] / totalWeight);
+    });
+  });
+  return { schemaId: schema.id, label: pickLabel(scores, schema), scores };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage } from './languageDetector';
+
+// None of these share phrasing with the language profiles
+const SHORT_ENGLISH = [
+  'Terrible app, logs me out constantly',
+  'The hotel room smelled of smoke',
+  'My order is still missing after ten days',
+  'Checkout keeps failing on my phone',
+  'Honestly the best pizza in town',
+  'Rude driver, dirty car, late pickup',
+  'Love the new dark mode',
+  'Why is there no search button anymore?',
+  'Waited an hour on hold, then got disconnected',
+  'The update broke my calendar sync',
+  'Shoes fell apart within a month',
+  'Loud neighbours, thin walls, would not stay again',
+  'Game crashes whenever I open the map',
+  'Wonderful teacher, patient with beginners',
+  'Quick fix, friendly plumber, fair bill',
+  'Flight delayed twice, lost my luggage',
+  'Subscription renewed without asking me',
+  'Package left in the rain, box soaked'
+];
+
+// English made of words French or Spanish share, where unknown is fine
+const AMBIGUOUS_ENGLISH = [
+  'Tastes like cardboard',
+  'Portable, durable, affordable',
+  'Excellent communication, rapid response',
+  'Fantastic restaurant, delicious dessert',
+  'Horrible experience, impossible to contact'
+];
+
+describe('detectLanguage', () => {
+  it.each(SHORT_ENGLISH)('identifies short English reviews: %s', text => {
+    expect(detectLanguage(text).language).toBe('en');
+  });
+
+  it.each(AMBIGUOUS_ENGLISH)('never routes ambiguous English to another language: %s', text => {
+    expect(['en', 'unknown']).toContain(detectLanguage(text).language);
+  });
+
+  it.each([
+    ['de', 'Das Hotelzimmer roch nach Rauch'],
+    ['de', 'Die Kellnerin war unhöflich und das Essen kalt'],
+    ['es', 'Mi pedido sigue sin llegar después de diez días'],
+    ['es', 'La camarera fue grosera y la comida llegó fría'],
+    ['fr', "L'application plante tout le temps, c'est pénible"],
+    ['fr', 'La serveuse était impolie et le plat froid']
+  ])('identifies short %s reviews: %s', (language, text) => {
+    expect(detectLanguage(text).language).toBe(language);
+  });
+
+  it('leaves texts too short to identify unknown', () => {
+    expect(detectLanguage('Great')).toEqual({ language: 'unknown', confidence: 0 });
+  });
+});
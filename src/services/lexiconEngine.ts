@@ -0,0 +1,257 @@
+import { VALENCE_LEXICON, BOOSTERS, NEGATIONS, CONTRASTS, EMOJI_VALENCE, EMOTICON_VALENCE } from './sentimentLexicon';
+import { CustomLexiconEntry } from '../types/workspace';
+
+// Constants from VADER (Hutto & Gilbert, 2014)
+const CAPS_INCREMENT = 0.733;
+const NEGATION_SCALAR = -0.74;
+const BEFORE_CONTRAST = 0.5;
+const AFTER_CONTRAST = 1.5;
+const EXCLAMATION_INCREMENT = 0.292;
+const MAX_EXCLAMATIONS = 4;
+const QUESTION_INCREMENT = 0.18;
+const MAX_QUESTION_EMPHASIS = 0.96;
+const NORMALIZATION_ALPHA = 15;
+// Boosters and negations reach this many words ahead, fading with distance
+const SCOPE = 3;
+const DISTANCE_DAMPING = [1, 0.95, 0.9];
+
+export type LexiconRule =
+  | 'negation'
+  | 'intensifier'
+  | 'diminisher'
+  | 'contrast'
+  | 'capitalization'
+  | 'punctuation'
+  | 'emoji'
+  | 'domain';
+
+export interface LexiconRuleHit {
+  rule: LexiconRule;
+  description: string;
+}
+
+export interface LexiconTerm {
+  term: string;
+  valence: number;
+}
+
+export interface LexiconScore {
+  // Normalized sum of valences in [-1, 1]
+  compound: number;
+  // Shares of positive, negative and neutral weight; they sum to 1
+  positive: number;
+  negative: number;
+  neutral: number;
+  terms: LexiconTerm[];
+  rules: LexiconRuleHit[];
+}
+
+interface Token {
+  raw: string;
+  key: string;
+  kind: 'word' | 'emoji' | 'emoticon';
+  clause: number;
+}
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+const CLAUSE_END = /[.,;:!?]$/;
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let clause = 0;
+
+  text.split(/\s+/).filter(Boolean).forEach(part => {
+    const trimmed = part.replace(/[.,;!?]+$/, '');
+    if (EMOTICON_VALENCE[trimmed] !== undefined) {
+      tokens.push({ raw: trimmed, key: trimmed, kind: 'emoticon', clause });
+    } else {
+      (part.match(EMOJI_PATTERN) || []).forEach(emoji => tokens.push({ raw: emoji, key: emoji, kind: 'emoji', clause }));
+      const raw = part.replace(EMOJI_PATTERN, '').replace(/[\uFE0F\u200D]/g, '').replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+      if (raw) {
+        tokens.push({ raw, key: toKey(raw), kind: 'word', clause });
+      }
+    }
+    if (CLAUSE_END.test(part)) clause++;
+  });
+
+  return tokens;
+};
+
+const toKey = (word: string) => word.toLowerCase().replace(/['’]/g, '');
+
+interface DomainTerm {
+  keys: string[];
+  valence: number;
+}
+
+// Longer phrases first, so "no refund" wins over "refund"
+const domainTerms = (entries: CustomLexiconEntry[]): DomainTerm[] =>
+  entries
+    .map(entry => ({
+      keys: (entry.term.match(/[\p{L}\p{N}'’]+/gu) || []).map(toKey),
+      valence: entry.valence
+    }))
+    .filter(term => term.keys.length > 0)
+    .sort((a, b) => b.keys.length - a.keys.length);
+
+interface DomainMatch {
+  length: number;
+  valence: number;
+}
+
+// Domain terms found in the token stream, keyed by the index of their first word
+const matchDomainTerms = (tokens: Token[], terms: DomainTerm[]): Map<number, DomainMatch> => {
+  const matches = new Map<number, DomainMatch>();
+  for (let i = 0; i < tokens.length; i++) {
+    const term = terms.find(candidate => candidate.keys.every((key, offset) => {
+      const token = tokens[i + offset];
+      return token?.kind === 'word' && token.key === key && token.clause === tokens[i].clause;
+    }));
+    if (term) {
+      matches.set(i, { length: term.keys.length, valence: term.valence });
+      i += term.keys.length - 1;
+    }
+  }
+  return matches;
+};
+
+const isAllCaps = (word: string) => word.length > 1 && word === word.toUpperCase() && word !== word.toLowerCase();
+
+const signOf = (value: number) => (value > 0 ? 1 : value < 0 ? -1 : 0);
+
+/**
+ * Rule-based sentiment scoring in the spirit of VADER. Each lexicon word
+ * contributes its valence, adjusted by the words before it (intensifiers,
+ * diminishers, negations within the same clause), by capitalization when the
+ * rest of the text is not shouted, and by a "but" contrast that weights the
+ * second half over the first. Exclamation and question marks push the total
+ * further in its direction. Workspace domain terms override the built-in
+ * valences, and phrases among them score as one unit. The result is
+ * deterministic and lists every rule that changed a score.
+ */
+export const scoreLexicon = (text: string, lexicon: CustomLexiconEntry[] = []): LexiconScore => {
+  const tokens = tokenize(text);
+  const domain = matchDomainTerms(tokens, domainTerms(lexicon));
+  // Words inside a matched phrase after its first word
+  const covered = new Set(
+    Array.from(domain.entries()).flatMap(([start, match]) =>
+      Array.from({ length: match.length - 1 }, (_, offset) => start + offset + 1))
+  );
+  const valenceAt = (i: number): number | undefined =>
+    domain.has(i) ? domain.get(i)!.valence : covered.has(i) ? undefined : VALENCE_LEXICON[tokens[i].key];
+  const words = tokens.filter(token => token.kind === 'word');
+  const capsDifferential = words.some(token => isAllCaps(token.raw)) && words.some(token => !isAllCaps(token.raw));
+  const rules: LexiconRuleHit[] = [];
+  const valences = tokens.map(() => 0);
+  const terms = tokens.map(token => token.raw);
+
+  tokens.forEach((token, i) => {
+    if (token.kind !== 'word') {
+      const valence = token.kind === 'emoji' ? EMOJI_VALENCE[token.key] : EMOTICON_VALENCE[token.key];
+      if (valence !== undefined) {
+        valences[i] = valence;
+        rules.push({ rule: 'emoji', description: `${token.raw} scored ${valence > 0 ? '+' : ''}${valence}` });
+      }
+      return;
+    }
+
+    const base = valenceAt(i);
+    const next = tokens[i + 1];
+    const modifiesNext = BOOSTERS[token.key] !== undefined && next?.kind === 'word' && !!valenceAt(i + 1);
+    if (!base || (modifiesNext && !domain.has(i))) return;
+
+    const match = domain.get(i);
+    const term = match ? tokens.slice(i, i + match.length).map(t => t.raw).join(' ') : token.raw;
+    if (match) {
+      rules.push({ rule: 'domain', description: `"${term}" scored ${base > 0 ? '+' : ''}${base} by the workspace lexicon` });
+    }
+
+    let valence = base;
+    if (capsDifferential && isAllCaps(token.raw)) {
+      valence += signOf(base) * CAPS_INCREMENT;
+      rules.push({ rule: 'capitalization', description: `"${token.raw}" is emphasized by capitals` });
+    }
+
+    let negatedBy: string | null = null;
+    for (let distance = 1; distance <= SCOPE; distance++) {
+      const previous = tokens[i - distance];
+      if (!previous || previous.kind !== 'word' || previous.clause !== token.clause) break;
+
+      const boost = BOOSTERS[previous.key];
+      if (boost !== undefined) {
+        const capsBoost = capsDifferential && isAllCaps(previous.raw) ? CAPS_INCREMENT * signOf(boost) : 0;
+        valence += signOf(base) * (boost + capsBoost) * DISTANCE_DAMPING[distance - 1];
+        rules.push({
+          rule: boost > 0 ? 'intensifier' : 'diminisher',
+          description: `"${previous.raw}" ${boost > 0 ? 'strengthens' : 'weakens'} "${term}"`
+        });
+      }
+      if (!negatedBy && NEGATIONS.has(previous.key)) {
+        negatedBy = previous.raw;
+      }
+    }
+    if (negatedBy) {
+      valence *= NEGATION_SCALAR;
+      rules.push({ rule: 'negation', description: `"${negatedBy}" flips "${term}"` });
+    }
+
+    valences[i] = valence;
+    terms[i] = term;
+  });
+
+  const contrastIndex = tokens.findIndex(token => token.kind === 'word' && CONTRASTS.has(token.key));
+  if (contrastIndex > 0 && valences.some(valence => valence !== 0)) {
+    valences.forEach((valence, i) => {
+      if (i < contrastIndex) valences[i] = valence * BEFORE_CONTRAST;
+      if (i > contrastIndex) valences[i] = valence * AFTER_CONTRAST;
+    });
+    rules.push({
+      rule: 'contrast',
+      description: `"${tokens[contrastIndex].raw}" weights what follows over what came before`
+    });
+  }
+
+  let sum = valences.reduce((total, valence) => total + valence, 0);
+
+  const exclamations = Math.min(MAX_EXCLAMATIONS, (text.match(/!/g) || []).length);
+  const questions = (text.match(/\?/g) || []).length;
+  const questionEmphasis = questions > 1 ? Math.min(MAX_QUESTION_EMPHASIS, questions * QUESTION_INCREMENT) : 0;
+  const emphasis = exclamations * EXCLAMATION_INCREMENT + questionEmphasis;
+  if (sum !== 0 && emphasis > 0) {
+    sum += signOf(sum) * emphasis;
+    rules.push({
+      rule: 'punctuation',
+      description: [
+        exclamations > 0 && `${exclamations} exclamation mark${exclamations > 1 ? 's' : ''}`,
+        questionEmphasis > 0 && `${questions} question marks`
+      ].filter(Boolean).join(' and ') + ' add emphasis'
+    });
+  }
+
+  const compound = Math.max(-1, Math.min(1, sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA)));
+
+  // Shares follow VADER: polar words count their valence plus one, every
+  // other word counts one toward neutral, and emphasis joins the larger side.
+  let positiveWeight = 0;
+  let negativeWeight = 0;
+  let neutralWeight = 0;
+  tokens.forEach((token, i) => {
+    if (valences[i] > 0) positiveWeight += valences[i] + 1;
+    else if (valences[i] < 0) negativeWeight += 1 - valences[i];
+    else if (token.kind === 'word' && !covered.has(i)) neutralWeight += 1;
+  });
+  if (positiveWeight > negativeWeight) positiveWeight += emphasis;
+  else if (negativeWeight > positiveWeight) negativeWeight += emphasis;
+  const total = positiveWeight + negativeWeight + neutralWeight;
+
+  return {
+    compound,
+    positive: total > 0 ? positiveWeight / total : 0,
+    negative: total > 0 ? negativeWeight / total : 0,
+    neutral: total > 0 ? neutralWeight / total : 1,
+    terms: tokens
+      .map((_, i) => ({ term: terms[i], valence: valences[i] }))
+      .filter(term => term.valence !== 0),
+    rules
+  };
+};
@@ -0,0 +1,89 @@
+import { SentimentProvider, SentimentAnalysis, AnalyzeOptions, ProviderCapabilities } from '../types/provider';
+import { SentimentLabel, SentimentScores } from '../types/sentiment';
+import { generateExplanation } from './sentimentUtils';
+import { extractKeywords } from './keywordExtractor';
+import { scoreLexicon, LexiconScore } from './lexiconEngine';
+import { checkpoint } from './jobStore';
+
+// VADER's conventional cut-offs on the compound score
+const POSITIVE_THRESHOLD = 0.05;
+const NEGATIVE_THRESHOLD = -0.05;
+
+/**
+ * Turns a compound score into label scores whose top label always matches
+ * the compound's verdict. The winning label gets at least half, and the
+ * remainder is shared between neutral and the opposite polarity in the
+ * proportion the text's words support.
+ */
+const toScores = (score: LexiconScore): { sentiment: SentimentLabel; scores: SentimentScores } => {
+  const strength = Math.abs(score.compound);
+  const polarWeight = score.positive + score.negative;
+
+  if (score.compound > NEGATIVE_THRESHOLD && score.compound < POSITIVE_THRESHOLD) {
+    const polar = strength * 2;
+    const positiveShare = polarWeight > 0 ? score.positive / polarWeight : 0.5;
+    return {
+      sentiment: 'neutral',
+      scores: { positive: polar * positiveShare, negative: polar * (1 - positiveShare), neutral: 1 - polar }
+    };
+  }
+
+  const sentiment: SentimentLabel = score.compound > 0 ? 'positive' : 'negative';
+  const top = 0.5 + strength / 2;
+  const opposite = sentiment === 'positive' ? score.negative : score.positive;
+  const oppositeWeight = (1 - top) * (polarWeight > 0 ? opposite / polarWeight : 0);
+  const scores = { positive: 0, negative: 0, neutral: 1 - top - oppositeWeight };
+  scores[sentiment] = top;
+  scores[sentiment === 'positive' ? 'negative' : 'positive'] = oppositeWeight;
+  return { sentiment, scores };
+};
+
+class LexiconSentimentService implements SentimentProvider {
+  readonly id = 'lexicon';
+  readonly name = 'Lexicon Engine';
+  readonly description = 'Deterministic rule-based scoring with negation, intensifiers and emoji, no network required';
+  readonly capabilities: ProviderCapabilities = {
+    requiresApiKey: false,
+    requiresNetwork: false,
+    ruleBased: true,
+    sendsToHuggingFace: false,
+    acceptsModel: false,
+    maxInputChars: Infinity
+  };
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async analyze(text: string, options: AnalyzeOptions = {}): Promise<SentimentAnalysis> {
+    const score = scoreLexicon(text, options.lexicon);
+    const { sentiment, scores } = toScores(score);
+    const confidence = scores[sentiment];
+    const keywords = extractKeywords(text, { sentiment, lexicon: options.lexicon, corpus: options.keywordCorpus });
+
+    return {
+      sentiment,
+      confidence,
+      scores,
+      keywords,
+      explanation: `${generateExplanation(sentiment, confidence, keywords)} Compound score ${score.compound.toFixed(2)}.`,
+      rules: score.rules.map(hit => hit.description)
+    };
+  }
+
+  async analyzeMany(texts: string[], options: AnalyzeOptions = {}): Promise<SentimentAnalysis[]> {
+    const analyses: SentimentAnalysis[] = [];
+    for (const text of texts) {
+      await checkpoint(options);
+      analyses.push(await this.analyze(text, options));
+      options.onProgress?.(analyses.length, texts.length);
+    }
+    return analyses;
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+}
+
+export const lexiconService = new LexiconSentimentService();
@@ -0,0 +1,271 @@
+import { SentimentProvider, SentimentAnalysis, AnalyzeOptions, ProviderCapabilities } from '../types/provider';
+import { TokenizerJson } from './tokenizer';
+import { RawLabelScore, buildAnalysis } from './sentimentUtils';
+import { dbGet, dbPut, dbDelete } from './browserDb';
+import { checkpoint } from './jobStore';
+import { ProviderError } from './providerErrors';
+import { guessSentimentLabel, modelRegistry } from './modelRegistry';
+import { DEFAULT_SCHEMA_ID } from './labelSchemas';
+import type { LocalModelConfig, WorkerRequest, WorkerResponse } from '../workers/onnxSentiment.worker';
+
+export type LocalModelStatus = 'empty' | 'loading' | 'ready' | 'error';
+
+interface StoredModel {
+  name: string;
+  model: ArrayBuffer;
+  tokenizer: TokenizerJson;
+  config: LocalModelConfig;
+}
+
+const MODEL_KEY = 'local-onnx';
+const BUNDLED_MODEL_PATH = `${import.meta.env.BASE_URL}models/sentiment/`;
+
+/**
+ * The id results, label mappings and calibrations are keyed by. It comes
+ * from the exported config rather than the file name, so renaming or
+ * re-uploading the same model keeps them; configs without a name fall back
+ * to the model's label set.
+ */
+const localModelId = (config: LocalModelConfig): string => {
+  const name = config._name_or_path?.trim().replace(/\/+$/, '');
+  if (name) return name;
+  const labels = Object.values(config.id2label ?? {});
+  return labels.length > 0 ? `local-onnx:${labels.join(',')}` : 'local-onnx';
+};
+
+interface PendingRequest {
+  resolve: (results: RawLabelScore[][]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs an ONNX export of a sequence-classification model entirely in the
+ * browser. Inference happens in a Web Worker on the WASM CPU backend, so no
+ * text ever leaves the machine. Loaded models are kept in IndexedDB and
+ * restored on the next visit.
+ */
+class LocalOnnxService implements SentimentProvider {
+  readonly id = 'local-onnx';
+  readonly name = 'Local ONNX Model';
+  readonly description = 'Runs a model you supply in a Web Worker, fully offline';
+  readonly capabilities: ProviderCapabilities = {
+    requiresApiKey: false,
+    requiresNetwork: false,
+    ruleBased: false,
+    sendsToHuggingFace: false,
+    acceptsModel: false,
+    // Most exports take 512 tokens; the worker splits anything that still
+    // runs over, but chunking here keeps the pipeline's aggregation in charge
+    maxInputChars: 500
+  };
+
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+  private listeners = new Set<() => void>();
+  private loadResolver: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+  status: LocalModelStatus = 'empty';
+  modelName: string | null = null;
+  modelId: string | null = null;
+  labels: string[] = [];
+  lastError: string | null = null;
+
+  constructor() {
+    this.restore();
+  }
+
+  isConfigured(): boolean {
+    return this.status === 'ready';
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: LocalModelStatus, error: string | null = null) {
+    this.status = status;
+    this.lastError = error;
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async restore() {
+    try {
+      const stored = await dbGet<StoredModel>('models', MODEL_KEY);
+      if (stored) {
+        await this.startWorker(stored);
+      }
+    } catch (error) {
+      console.error('Failed to restore local model:', error);
+    }
+  }
+
+  /**
+   * Loads a model from user-picked files: one `.onnx` file plus the
+   * `tokenizer.json` and `config.json` from the same Hugging Face repository.
+   */
+  async loadFromFiles(files: File[]): Promise<void> {
+    const modelFile = files.find(f => f.name.endsWith('.onnx'));
+    const tokenizerFile = files.find(f => f.name === 'tokenizer.json');
+    const configFile = files.find(f => f.name === 'config.json');
+
+    if (!modelFile || !tokenizerFile) {
+      throw new Error('Please select the .onnx model file together with its tokenizer.json (and config.json for label names).');
+    }
+
+    const stored: StoredModel = {
+      name: modelFile.name,
+      model: await modelFile.arrayBuffer(),
+      tokenizer: JSON.parse(await tokenizerFile.text()),
+      config: configFile ? JSON.parse(await configFile.text()) : {}
+    };
+
+    await this.startWorker(stored);
+    await dbPut('models', MODEL_KEY, stored);
+  }
+
+  /**
+   * Loads a model shipped with the build under `public/models/sentiment/`
+   * (`model.onnx`, `tokenizer.json`, `config.json`).
+   */
+  async loadBundled(): Promise<void> {
+    const fetchFile = async (file: string) => {
+      const response = await fetch(`${BUNDLED_MODEL_PATH}${file}`);
+      if (!response.ok) {
+        throw new Error(`Bundled model file ${file} not found. Place it in public/models/sentiment/ before building.`);
+      }
+      return response;
+    };
+
+    const [model, tokenizer, config] = await Promise.all([
+      fetchFile('model.onnx').then(r => r.arrayBuffer()),
+      fetchFile('tokenizer.json').then(r => r.json()),
+      fetchFile('config.json').then(r => r.json())
+    ]);
+
+    const stored: StoredModel = { name: 'Bundled model', model, tokenizer, config };
+    await this.startWorker(stored);
+    await dbPut('models', MODEL_KEY, stored);
+  }
+
+  async unload(): Promise<void> {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectPending(new Error('Local model was unloaded.'));
+    this.modelName = null;
+    this.modelId = null;
+    this.labels = [];
+    await dbDelete('models', MODEL_KEY);
+    this.setStatus('empty');
+  }
+
+  private startWorker(stored: StoredModel): Promise<void> {
+    this.worker?.terminate();
+    this.rejectPending(new Error('Local model was replaced.'));
+    this.modelName = stored.name;
+    this.modelId = localModelId(stored.config);
+    this.setStatus('loading');
+
+    this.worker = new Worker(new URL('../workers/onnxSentiment.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => {
+      this.handleMessage({ type: 'error', message: event.message || 'Local model worker crashed' });
+    };
+
+    return new Promise((resolve, reject) => {
+      this.loadResolver = { resolve, reject };
+      // Copy the buffer so the IndexedDB copy stays intact after transfer.
+      const model = stored.model.slice(0);
+      const request: WorkerRequest = { type: 'load', model, tokenizer: stored.tokenizer, config: stored.config };
+      this.worker!.postMessage(request, [model]);
+    });
+  }
+
+  private handleMessage(message: WorkerResponse) {
+    switch (message.type) {
+      case 'loaded':
+        this.labels = message.labels;
+        this.registerLabels();
+        this.setStatus('ready');
+        this.loadResolver?.resolve();
+        this.loadResolver = null;
+        break;
+      case 'result':
+        this.pending.get(message.requestId)?.resolve(message.results);
+        this.pending.delete(message.requestId);
+        break;
+      case 'error':
+        if (message.requestId !== undefined) {
+          this.pending.get(message.requestId)?.reject(new Error(message.message));
+          this.pending.delete(message.requestId);
+        } else {
+          this.setStatus('error', message.message);
+          this.loadResolver?.reject(new Error(message.message));
+          this.loadResolver = null;
+        }
+        break;
+    }
+  }
+
+  /**
+   * Maps the model's labels when nobody has yet, so results don't rely on
+   * guessing per response. Only mappings that place every label are saved;
+   * others are left for the user to define in Settings.
+   */
+  private registerLabels() {
+    if (!this.modelId || this.labels.length === 0 || modelRegistry.getModel(this.modelId)) return;
+    const mapped = this.labels.map(label => [label, guessSentimentLabel(label)] as const);
+    if (mapped.some(([, sentiment]) => !sentiment)) return;
+    modelRegistry.saveModel({
+      id: this.modelId,
+      schemaId: DEFAULT_SCHEMA_ID,
+      labels: Object.fromEntries(mapped) as Record<string, string>
+    });
+  }
+
+  private rejectPending(error: Error) {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+
+  private classify(texts: string[]): Promise<RawLabelScore[][]> {
+    if (!this.worker || this.status !== 'ready') {
+      return Promise.reject(new ProviderError('No local model loaded. Please load an ONNX model in Settings.', 'not_configured'));
+    }
+
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      const request: WorkerRequest = { type: 'analyze', requestId, texts };
+      this.worker!.postMessage(request);
+    });
+  }
+
+  async analyze(text: string, options: AnalyzeOptions = {}): Promise<SentimentAnalysis> {
+    const [results] = await this.classify([text]);
+    return buildAnalysis(text, results, this.modelId ?? undefined, options);
+  }
+
+  async analyzeMany(texts: string[], options: AnalyzeOptions = {}): Promise<SentimentAnalysis[]> {
+    const batchSize = Math.max(1, options.batchSize ?? 1);
+    const analyses: SentimentAnalysis[] = [];
+    for (let start = 0; start < texts.length; start += batchSize) {
+      const group = texts.slice(start, start + batchSize);
+      await checkpoint(options);
+      const results = await this.classify(group);
+      analyses.push(...results.map((result, i) => buildAnalysis(group[i], result, this.modelId ?? undefined, options)));
+      options.onProgress?.(analyses.length, texts.length);
+    }
+    return analyses;
+  }
+
+  async testConnection(): Promise<boolean> {
+    await this.analyze('This is a test message.');
+    return true;
+  }
+}
+
+export const localOnnxService = new LocalOnnxService();
@@ -0,0 +1,186 @@
+import { LabelSchema, LabelScores, ModelDefinition, SentimentLabel } from '../types/sentiment';
+import { RawLabelScore } from './sentimentUtils';
+import { BUILT_IN_SCHEMAS, DEFAULT_SCHEMA_ID, pickLabel } from './labelSchemas';
+import { ProviderError } from './providerErrors';
+
+const STORAGE_KEY = 'model_registry';
+
+const THREE_WAY = { negative: 'negative', neutral: 'neutral', positive: 'positive' };
+
+const BUILT_IN_MODELS: ModelDefinition[] = [
+  { id: 'cardiffnlp/twitter-roberta-base-sentiment-latest', schemaId: 'three-point', labels: THREE_WAY, builtIn: true },
+  { id: 'cardiffnlp/twitter-xlm-roberta-base-sentiment', schemaId: 'three-point', labels: THREE_WAY, builtIn: true },
+  {
+    id: 'cardiffnlp/twitter-roberta-base-sentiment',
+    schemaId: 'three-point',
+    labels: { LABEL_0: 'negative', LABEL_1: 'neutral', LABEL_2: 'positive' },
+    builtIn: true
+  },
+  {
+    id: 'nlptown/bert-base-multilingual-uncased-sentiment',
+    schemaId: 'five-point',
+    labels: {
+      '1 star': 'very-negative',
+      '2 stars': 'negative',
+      '3 stars': 'neutral',
+      '4 stars': 'positive',
+      '5 stars': 'very-positive'
+    },
+    builtIn: true
+  },
+  {
+    id: 'distilbert-base-uncased-finetuned-sst-2-english',
+    schemaId: 'three-point',
+    labels: { NEGATIVE: 'negative', POSITIVE: 'positive' },
+    builtIn: true
+  }
+];
+
+/**
+ * Best guess for labels of models nobody registered. Labels it cannot place
+ * return null rather than defaulting to neutral, so "3 stars" and an
+ * unknown label stay distinguishable.
+ */
+export const guessSentimentLabel = (label: string): SentimentLabel | null => {
+  const normalized = label.toLowerCase().trim();
+  if (/positi/.test(normalized) || normalized === 'label_2' || normalized === 'pos' || /^[45] stars?$/.test(normalized)) {
+    return 'positive';
+  }
+  if (/n[eé]gati/.test(normalized) || normalized === 'label_0' || normalized === 'neg' || /^[12] stars?$/.test(normalized)) {
+    return 'negative';
+  }
+  if (/neutr/.test(normalized) || normalized === 'label_1' || normalized === 'neu' || /^3 stars?$/.test(normalized)) {
+    return 'neutral';
+  }
+  return null;
+};
+
+interface RegistryState {
+  // User-defined entries; a model with a built-in id overrides the built-in
+  models: ModelDefinition[];
+  schemas: LabelSchema[];
+}
+
+/**
+ * Knows which raw labels each model returns and where they sit in a label
+ * schema, and holds the schemas themselves: the built-in three-point,
+ * five-point and mixed schemas plus any the user defines.
+ */
+class ModelRegistry {
+  private state: RegistryState = {
+    models: [],
+    schemas: [],
+    ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+  };
+  private listeners = new Set<() => void>();
+
+  getState = (): RegistryState => this.state;
+
+  private commit(state: RegistryState) {
+    this.state = state;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    this.listeners.forEach(listener => listener());
+  }
+
+  getModels(): ModelDefinition[] {
+    const overridden = new Set(this.state.models.map(model => model.id));
+    return [...BUILT_IN_MODELS.filter(model => !overridden.has(model.id)), ...this.state.models];
+  }
+
+  getModel(id?: string): ModelDefinition | undefined {
+    if (!id) return undefined;
+    return this.state.models.find(model => model.id === id) ?? BUILT_IN_MODELS.find(model => model.id === id);
+  }
+
+  saveModel(model: ModelDefinition) {
+    this.commit({
+      ...this.state,
+      models: [...this.state.models.filter(existing => existing.id !== model.id), { ...model, builtIn: undefined }]
+    });
+  }
+
+  deleteModel(id: string) {
+    this.commit({ ...this.state, models: this.state.models.filter(model => model.id !== id) });
+  }
+
+  getSchemas(): LabelSchema[] {
+    return [...BUILT_IN_SCHEMAS, ...this.state.schemas];
+  }
+
+  // Unknown ids (e.g. a deleted custom schema) fall back to three-point
+  getSchema(id?: string): LabelSchema {
+    return this.getSchemas().find(schema => schema.id === id) ?? BUILT_IN_SCHEMAS[0];
+  }
+
+  labelName(labels: LabelScores): string {
+    return this.getSchema(labels.schemaId).labels.find(label => label.id === labels.label)?.name ?? labels.label;
+  }
+
+  saveSchema(schema: LabelSchema) {
+    this.commit({
+      ...this.state,
+      schemas: [...this.state.schemas.filter(existing => existing.id !== schema.id), schema]
+    });
+  }
+
+  deleteSchema(id: string) {
+    this.commit({ ...this.state, schemas: this.state.schemas.filter(schema => schema.id !== id) });
+  }
+
+  /**
+   * Converts a model's raw label/score list into scores in the model's
+   * schema. Unregistered models, and responses none of whose labels the
+   * registered mapping knows (e.g. after a failover to another model), fall
+   * back to guessing three-point labels. Labels that cannot be placed are
+   * dropped; if none can, the response is rejected.
+   */
+  mapLabels(modelId: string | undefined, results: RawLabelScore[]): LabelScores {
+    const definition = this.getModel(modelId);
+    const fromDefinition = definition && this.collect(results, this.getSchema(definition.schemaId), label => {
+      const key = Object.keys(definition.labels).find(raw => raw.toLowerCase() === label.toLowerCase());
+      return key ? definition.labels[key] : null;
+    });
+    const labels = fromDefinition ?? this.collect(results, this.getSchema(DEFAULT_SCHEMA_ID), guessSentimentLabel);
+
+    if (!labels) {
+      throw new ProviderError(
+        `The model returned labels (${results.map(result => result.label).join(', ')}) that are not mapped to a sentiment. ` +
+          `Add a label mapping for ${modelId ?? 'this model'} in Settings.`,
+        'bad_response'
+      );
+    }
+    return labels;
+  }
+
+  private collect(
+    results: RawLabelScore[],
+    schema: LabelSchema,
+    mapLabel: (label: string) => string | null
+  ): LabelScores | null {
+    const scores: Record<string, number> = Object.fromEntries(schema.labels.map(label => [label.id, 0]));
+    let total = 0;
+    results.forEach(result => {
+      const id = mapLabel(result.label);
+      if (id && id in scores) {
+        const score = Math.max(0, Math.min(1, result.score));
+        scores[id] += score;
+        total += score;
+      }
+    });
+    if (total === 0) return null;
+
+    Object.keys(scores).forEach(id => {
+      scores[id] /= total;
+    });
+    return { schemaId: schema.id, label: pickLabel(scores, schema), scores };
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const modelRegistry = new ModelRegistry();
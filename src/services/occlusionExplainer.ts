@@ -0,0 +1,73 @@
+import { SentimentProvider, AnalyzeOptions } from '../types/provider';
+import { Attribution, SentimentResult, SentimentScores } from '../types/sentiment';
+
+// Longer texts mask windows of several tokens so the cost stays bounded
+export const MAX_OCCLUSION_UNITS = 40;
+
+// Words (with their apostrophes) and runs of punctuation or emoji
+const TOKEN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]+/gu;
+
+// Stand-in for a text with nothing left to score
+const EMPTY_SCORES: SentimentScores = { positive: 1 / 3, negative: 1 / 3, neutral: 1 / 3 };
+
+interface OcclusionUnit {
+  start: number;
+  end: number;
+}
+
+const occlusionUnits = (text: string): { units: OcclusionUnit[]; window: number } => {
+  const tokens = Array.from(text.matchAll(TOKEN), match => ({ start: match.index!, end: match.index! + match[0].length }));
+  const window = Math.max(1, Math.ceil(tokens.length / MAX_OCCLUSION_UNITS));
+  const units: OcclusionUnit[] = [];
+  for (let i = 0; i < tokens.length; i += window) {
+    const group = tokens.slice(i, i + window);
+    units.push({ start: group[0].start, end: group[group.length - 1].end });
+  }
+  return { units, window };
+};
+
+const occlude = (text: string, unit: OcclusionUnit): string => `${text.slice(0, unit.start)}${text.slice(unit.end)}`.trim();
+
+// Provider requests an explanation takes at most: the full text plus one per
+// masked unit. Cached texts cost nothing.
+export const occlusionCost = (text: string): number => occlusionUnits(text).units.length + 1;
+
+/**
+ * Explains a result by occlusion: each token (or window of tokens, for long
+ * texts) is left out in turn and the text re-scored, and the drop in the
+ * predicted sentiment's score is that token's contribution. Positive weights
+ * pushed the model toward its prediction, negative ones away from it.
+ * Scores are the provider's raw ones, before any calibration, and the full
+ * text is re-scored too so both sides of the difference come from the same
+ * call. Requests go through `analyzeMany`, so they are batched and retried
+ * under the usual rate-limit policy.
+ */
+export const explainByOcclusion = async (
+  provider: SentimentProvider,
+  result: SentimentResult,
+  options: AnalyzeOptions = {}
+): Promise<Attribution> => {
+  const { units, window } = occlusionUnits(result.text);
+  const variants = units.map(unit => occlude(result.text, unit));
+  const texts = Array.from(new Set([result.text, ...variants.filter(Boolean)]));
+  const analyses = await provider.analyzeMany(texts, {
+    ...options,
+    model: result.model && result.model !== provider.id ? result.model : undefined
+  });
+  const scoresByText = new Map(texts.map((text, i) => [text, analyses[i].scores]));
+
+  const sentiment = result.sentiment;
+  const full = scoresByText.get(result.text)![sentiment];
+  return {
+    method: 'occlusion',
+    sentiment,
+    window,
+    requests: texts.length,
+    model: result.model,
+    tokens: units.map((unit, i) => ({
+      start: unit.start,
+      end: unit.end,
+      weight: full - (variants[i] ? scoresByText.get(variants[i])! : EMPTY_SCORES)[sentiment]
+    }))
+  };
+};
@@ -0,0 +1,30 @@
+export type ProviderErrorCode =
+  | 'not_configured'
+  | 'auth'
+  | 'model_not_found'
+  | 'rate_limited'
+  | 'model_loading'
+  | 'network'
+  | 'server_error'
+  | 'bad_response'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * An error from a sentiment provider tagged with a machine-readable code, so
+ * batch runs can record why an item failed and tell fatal failures (a bad
+ * key fails every text) from ones worth retrying later.
+ */
+export class ProviderError extends Error {
+  constructor(message: string, readonly code: ProviderErrorCode) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export const FATAL_ERROR_CODES: ProviderErrorCode[] = ['not_configured', 'auth', 'model_not_found'];
+
+export const describeError = (error: unknown): { code: ProviderErrorCode; message: string } => ({
+  code: error instanceof ProviderError ? error.code : 'unknown',
+  message: error instanceof Error ? error.message : String(error)
+});
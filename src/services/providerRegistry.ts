@@ -0,0 +1,88 @@
+import { SentimentProvider } from '../types/provider';
+import { huggingFaceService } from './huggingfaceApi';
+import { lexiconService } from './lexiconService';
+import { customEndpointService } from './customEndpointApi';
+import { localOnnxService } from './localOnnxService';
+import { ensembleService } from './ensembleService';
+import { ProviderError } from './providerErrors';
+
+const STORAGE_KEY = 'sentiment_provider';
+
+class ProviderRegistry {
+  private providers = new Map<string, SentimentProvider>();
+  private activeId: string = localStorage.getItem(STORAGE_KEY) || huggingFaceService.id;
+  private listeners = new Set<() => void>();
+  private revision = 0;
+
+  register(provider: SentimentProvider) {
+    this.providers.set(provider.id, provider);
+    provider.subscribe?.(() => this.notifyChange());
+    this.notifyChange();
+  }
+
+  get(id: string): SentimentProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): SentimentProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getActiveId(): string {
+    return this.activeId;
+  }
+
+  setActive(id: string) {
+    if (!this.providers.has(id)) {
+      throw new Error(`Unknown sentiment provider: ${id}`);
+    }
+    this.activeId = id;
+    localStorage.setItem(STORAGE_KEY, id);
+    this.notifyChange();
+  }
+
+  // The selected provider, whether or not it is configured yet
+  getActive(): SentimentProvider {
+    return this.providers.get(this.activeId) ?? lexiconService;
+  }
+
+  /**
+   * The provider analyses run on. Throws while the selected provider is
+   * missing its configuration (e.g. no API key, locked credentials), rather
+   * than scoring with another engine under the selected one's name.
+   */
+  resolve(): SentimentProvider {
+    const active = this.getActive();
+    if (!active.isConfigured()) {
+      throw new ProviderError(
+        `${active.name} is not configured yet. Set it up in Settings, or select the Lexicon Engine to analyze offline.`,
+        'not_configured'
+      );
+    }
+    return active;
+  }
+
+  // Providers are configured outside the registry, so callers that change
+  // credentials or endpoints call this to refresh subscribed components.
+  notifyChange() {
+    this.revision++;
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getRevision = () => this.revision;
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register(huggingFaceService);
+providerRegistry.register(lexiconService);
+providerRegistry.register(localOnnxService);
+providerRegistry.register(customEndpointService);
+providerRegistry.register(ensembleService);
@@ -0,0 +1,93 @@
+import { RetryPolicy, RetryStatus } from '../types/provider';
+import { AnalysisSettings } from '../types/settings';
+import { JobCancelledError } from './jobStore';
+import { ProviderError, ProviderErrorCode } from './providerErrors';
+
+/**
+ * Thrown for failures worth retrying: rate limits, models still loading,
+ * gateway errors and dropped connections. `retryAfterMs` is set when the
+ * server said how long to wait.
+ */
+export class RetryableError extends ProviderError {
+  constructor(message: string, code: ProviderErrorCode, readonly retryAfterMs?: number) {
+    super(message, code);
+    this.name = 'RetryableError';
+  }
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000
+};
+
+export const retryPolicyFromSettings = (settings: AnalysisSettings): RetryPolicy => ({
+  maxAttempts: settings.retryMaxAttempts,
+  baseDelayMs: settings.retryBaseDelaySeconds * 1000,
+  maxDelayMs: settings.retryMaxDelaySeconds * 1000
+});
+
+// Retry-After is either a number of seconds or an HTTP date.
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Full jitter: a random wait between half and all of the exponential step.
+const backoffDelay = (attempt: number, policy: RetryPolicy) => {
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return step / 2 + Math.random() * (step / 2);
+};
+
+/**
+ * Runs `call`, retrying RetryableErrors up to `policy.maxAttempts` attempts in
+ * total. Waits the server-reported delay when there is one (capped at
+ * `maxDelayMs`), otherwise backs off exponentially with jitter. `onRetry`
+ * receives the pending retry before each wait and null once the call settles.
+ * Aborting `signal` ends a pending wait with a JobCancelledError.
+ */
+export const withRetry = async <T>(
+  call: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (status: RetryStatus | null) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  let retried = false;
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await call();
+      } catch (error) {
+        if (!(error instanceof RetryableError) || attempt >= policy.maxAttempts || signal?.aborted) {
+          throw error;
+        }
+
+        const delayMs = Math.min(policy.maxDelayMs, error.retryAfterMs ?? backoffDelay(attempt, policy));
+        retried = true;
+        onRetry?.({
+          attempt: attempt + 1,
+          maxAttempts: policy.maxAttempts,
+          retryAt: Date.now() + delayMs,
+          reason: error.message
+        });
+        await new Promise<void>((resolve, reject) => {
+          const onAbort = () => {
+            clearTimeout(timer);
+            reject(new JobCancelledError());
+          };
+          const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+          }, delayMs);
+          signal?.addEventListener('abort', onAbort, { once: true });
+        });
+      }
+    }
+  } finally {
+    if (retried) onRetry?.(null);
+  }
+};
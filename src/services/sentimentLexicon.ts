@@ -0,0 +1,86 @@
+// Word valences on VADER's scale, from -4 (most negative) to +4 (most
+// positive). Entries are lowercase; matching happens after lowercasing.
+export const VALENCE_LEXICON: Record<string, number> = {
+  // positive
+  'good': 1.9, 'great': 3.1, 'excellent': 3.2, 'amazing': 2.8, 'wonderful': 2.7, 'fantastic': 2.6,
+  'love': 3.2, 'loved': 2.9, 'loves': 2.7, 'loving': 2.9, 'lovely': 2.8, 'best': 3.2, 'better': 1.9,
+  'perfect': 2.7, 'perfectly': 2.7, 'awesome': 3.1, 'outstanding': 3.0, 'brilliant': 2.8, 'superb': 3.1,
+  'magnificent': 3.0, 'incredible': 2.5, 'marvelous': 2.9, 'exceptional': 2.9, 'delightful': 2.8,
+  'impressive': 2.5, 'impressed': 2.2, 'remarkable': 2.2, 'beautiful': 2.9, 'nice': 1.8, 'pleasant': 2.3,
+  'enjoyable': 2.1, 'enjoy': 2.2, 'enjoyed': 2.3, 'satisfying': 2.0, 'satisfied': 1.8, 'happy': 2.7,
+  'glad': 2.0, 'pleased': 1.9, 'fine': 0.8, 'ok': 0.9, 'okay': 0.9, 'decent': 1.0, 'solid': 1.2,
+  'reliable': 1.6, 'fast': 1.0, 'quick': 1.0, 'easy': 1.9, 'smooth': 1.4, 'helpful': 1.9, 'friendly': 2.2,
+  'recommend': 1.5, 'recommended': 1.5, 'worth': 0.9, 'like': 1.5, 'liked': 1.8, 'likes': 1.8,
+  'thanks': 1.9, 'thank': 1.5, 'fun': 2.3, 'cool': 1.3, 'wow': 2.8, 'yay': 2.4, 'win': 2.8, 'winner': 2.8,
+  'success': 2.7, 'successful': 2.8, 'favorite': 2.0, 'favourite': 2.0, 'comfortable': 1.5, 'clean': 1.7,
+  'fresh': 1.3, 'affordable': 1.3, 'bargain': 1.4, 'gorgeous': 3.0, 'stunning': 2.8, 'elegant': 2.1,
+  'intuitive': 1.6, 'responsive': 1.2, 'efficient': 1.5, 'works': 0.7, 'fixed': 0.9, 'resolved': 1.3,
+  'improved': 1.9, 'improvement': 1.3, 'exciting': 2.2, 'excited': 1.4, 'thrilled': 2.5, 'grateful': 2.0,
+  'appreciate': 1.7, 'appreciated': 2.3, 'polite': 1.8, 'super': 2.9, 'top': 0.8,
+  'flawless': 2.3, 'superior': 2.2, 'valuable': 2.1, 'useful': 1.9, 'convenient': 1.5, 'safe': 1.9,
+  'calm': 1.3, 'trust': 2.3, 'trusted': 2.1, 'wonderfully': 2.7, 'beautifully': 2.7, 'glorious': 2.4,
+  'charming': 2.8, 'positive': 2.6, 'prompt': 1.0, 'generous': 2.3, 'lucky': 1.8, 'delighted': 2.6,
+
+  // negative
+  'bad': -2.5, 'terrible': -2.1, 'awful': -2.0, 'horrible': -2.5, 'hate': -2.7, 'hated': -3.2,
+  'hates': -1.9, 'worst': -3.1, 'worse': -2.1, 'disappointing': -2.2, 'disappointed': -1.9,
+  'disappointment': -2.3, 'poor': -2.1, 'poorly': -1.7, 'useless': -1.8, 'disgusting': -2.4,
+  'dreadful': -1.9, 'appalling': -2.1, 'atrocious': -3.1, 'abysmal': -2.5, 'pathetic': -2.2,
+  'miserable': -2.2, 'unpleasant': -2.1, 'annoying': -1.7, 'annoyed': -1.6, 'frustrating': -1.9,
+  'frustrated': -1.5, 'irritating': -2.0, 'boring': -1.3, 'bored': -1.1, 'stupid': -2.4, 'ridiculous': -1.5,
+  'waste': -1.8, 'wasted': -2.2, 'failure': -2.3, 'fail': -2.5, 'failed': -2.3, 'fails': -1.8,
+  'broken': -2.1, 'broke': -1.8, 'crash': -1.7, 'crashes': -1.7, 'crashed': -1.7, 'bug': -1.2,
+  'buggy': -1.6, 'slow': -1.0, 'sluggish': -1.3, 'late': -0.8, 'delayed': -1.0, 'expensive': -0.9,
+  'overpriced': -1.6, 'cheap': -0.5, 'flimsy': -1.4, 'damaged': -1.9, 'defective': -1.9, 'faulty': -1.7,
+  'problem': -1.7, 'problems': -1.7, 'issue': -0.8, 'issues': -0.8, 'error': -1.4, 'errors': -1.4,
+  'wrong': -2.1, 'rude': -2.0, 'unhelpful': -1.8, 'confusing': -1.3, 'confused': -1.3, 'difficult': -1.5,
+  'hard': -0.4, 'mess': -1.5, 'messy': -1.2, 'dirty': -1.9, 'sad': -2.1, 'unhappy': -1.8, 'angry': -2.3,
+  'upset': -1.6, 'worried': -1.2, 'scared': -1.9, 'afraid': -2.0, 'sucks': -1.5, 'suck': -1.9,
+  'crap': -1.6, 'garbage': -1.9, 'junk': -1.4, 'trash': -1.6, 'scam': -2.6, 'fraud': -2.8,
+  'refund': -0.5, 'complaint': -1.6, 'complain': -1.3, 'unacceptable': -2.0, 'lacking': -1.2,
+  'lack': -1.3, 'lost': -1.3, 'lose': -1.7, 'missing': -1.2, 'noisy': -1.0, 'uncomfortable': -1.6,
+  'unreliable': -1.6, 'mediocre': -1.0, 'meh': -0.3, 'regret': -1.8, 'sorry': -0.3, 'pain': -2.3,
+  'painful': -1.9, 'nightmare': -2.3, 'disaster': -3.1, 'hell': -3.6, 'negative': -2.7, 'insulting': -2.2,
+  'cancel': -0.8, 'cancelled': -1.0, 'unusable': -2.2, 'dead': -3.3, 'ugly': -2.3, 'fake': -2.1,
+  'misleading': -1.7, 'dishonest': -2.7, 'incompetent': -2.5, 'ignored': -1.3, 'hostile': -2.2
+};
+
+// Words that scale the valence of the sentiment word after them. Positive
+// values intensify ("very good"), negative values dampen ("slightly good").
+export const BOOSTERS: Record<string, number> = {
+  'absolutely': 0.293, 'amazingly': 0.293, 'completely': 0.293, 'considerably': 0.293, 'deeply': 0.293,
+  'enormously': 0.293, 'entirely': 0.293, 'especially': 0.293, 'exceptionally': 0.293, 'extremely': 0.293,
+  'fully': 0.293, 'greatly': 0.293, 'highly': 0.293, 'hugely': 0.293, 'incredibly': 0.293, 'most': 0.293,
+  'much': 0.293, 'particularly': 0.293, 'purely': 0.293, 'quite': 0.293, 'really': 0.293, 'remarkably': 0.293,
+  'so': 0.293, 'substantially': 0.293, 'thoroughly': 0.293, 'totally': 0.293, 'tremendously': 0.293,
+  'truly': 0.293, 'unbelievably': 0.293, 'utterly': 0.293, 'very': 0.293, 'super': 0.293, 'too': 0.293,
+  'almost': -0.293, 'barely': -0.293, 'hardly': -0.293, 'less': -0.293, 'little': -0.293, 'marginally': -0.293,
+  'occasionally': -0.293, 'partly': -0.293, 'scarcely': -0.293, 'slightly': -0.293, 'somewhat': -0.293,
+  'fairly': -0.293, 'rather': -0.293, 'kinda': -0.293, 'sorta': -0.293
+};
+
+// Tokens that flip the sentiment of the words following them
+export const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'nowhere', 'without', 'cannot',
+  'aint', 'arent', 'cant', 'couldnt', 'didnt', 'doesnt', 'dont', 'hadnt', 'hasnt', 'havent', 'isnt',
+  'mightnt', 'mustnt', 'neednt', 'shant', 'shouldnt', 'wasnt', 'werent', 'wont', 'wouldnt'
+]);
+
+// Contrast words: what follows outweighs what came before
+export const CONTRASTS = new Set(['but', 'however']);
+
+export const EMOJI_VALENCE: Record<string, number> = {
+  '😀': 2.0, '😃': 2.2, '😄': 2.2, '😁': 2.1, '😆': 1.9, '😊': 2.2, '🙂': 1.3, '😍': 2.9, '🥰': 2.9,
+  '😘': 2.3, '😎': 1.8, '🤩': 2.8, '😂': 1.8, '🤣': 1.7, '👍': 1.9, '👏': 2.0, '🙌': 2.1, '💯': 2.4,
+  '🎉': 2.4, '❤': 2.9, '💕': 2.7, '💖': 2.7, '⭐': 1.6, '🌟': 1.9, '✅': 1.4, '🔥': 1.5,
+  '😐': -0.2, '😕': -1.2, '🙁': -1.4, '☹': -1.6, '😞': -2.0, '😔': -1.8, '😟': -1.7, '😢': -2.1,
+  '😭': -2.2, '😠': -2.5, '😡': -2.8, '🤬': -3.0, '😤': -1.7, '😩': -2.0, '😫': -2.0, '🤮': -2.7,
+  '🤢': -2.3, '👎': -2.0, '💔': -2.5, '❌': -1.6, '😒': -1.6, '🙄': -1.4
+};
+
+export const EMOTICON_VALENCE: Record<string, number> = {
+  ':)': 2.0, ':-)': 2.0, '(:': 2.0, ':]': 2.0, '=)': 2.0, ':D': 2.3, ':-D': 2.3, 'xD': 1.8, 'XD': 1.8,
+  ';)': 1.6, ';-)': 1.6, ':P': 1.4, ':-P': 1.4, '<3': 2.9, ':*': 2.1,
+  ':(': -1.9, ':-(': -1.9, '):': -1.9, ':[': -1.9, '=(': -1.9, ":'(": -2.2, ':/': -1.1, ':-/': -1.1,
+  ':|': -0.4, '>:(': -2.6, 'D:': -1.6, '</3': -2.5
+};
@@ -0,0 +1,110 @@
+import { SentimentLabel, SentimentKeyword, SentimentScores } from '../types/sentiment';
+import { AnalyzeOptions, SentimentAnalysis } from '../types/provider';
+import { modelRegistry } from './modelRegistry';
+import { collapseLabelScores } from './labelSchemas';
+import { extractKeywords } from './keywordExtractor';
+import { ConfidenceThresholds } from '../types/calibration';
+
+export interface RawLabelScore {
+  label: string;
+  score: number;
+}
+
+export const topSentiment = (scores: SentimentScores): SentimentLabel =>
+  (Object.keys(scores) as SentimentLabel[]).reduce((a, b) => (scores[a] >= scores[b] ? a : b));
+
+// Used for models without a calibration
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = { high: 0.8, moderate: 0.6 };
+
+export const generateExplanation = (
+  sentiment: SentimentLabel,
+  confidence: number,
+  keywords: SentimentKeyword[],
+  thresholds: ConfidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS
+): string => {
+  const confidenceLevel = confidence >= thresholds.high ? 'high' : confidence >= thresholds.moderate ? 'moderate' : 'low';
+  const keywordText = keywords.length > 0
+    ? ` Key terms: ${keywords.slice(0, 5).map(k => k.word).join(', ')}.`
+    : '';
+
+  return `This text shows ${sentiment} sentiment with ${confidenceLevel} confidence (${(confidence * 100).toFixed(1)}%).${keywordText}`;
+};
+
+/**
+ * Turns a model's raw label/score list into a normalized analysis. Shared by
+ * every provider that talks to a classification endpoint. Raw labels are
+ * mapped through the model registry, so `modelId` selects the mapping.
+ */
+export const buildAnalysis = (
+  text: string,
+  results: RawLabelScore[],
+  modelId?: string,
+  options: Pick<AnalyzeOptions, 'lexicon' | 'keywordCorpus'> = {}
+): SentimentAnalysis => {
+  const labels = modelRegistry.mapLabels(modelId, results);
+  const scores = collapseLabelScores(labels.scores, modelRegistry.getSchema(labels.schemaId));
+  const sentiment = topSentiment(scores);
+  const confidence = scores[sentiment];
+  const keywords = extractKeywords(text, { sentiment, lexicon: options.lexicon, corpus: options.keywordCorpus });
+  const explanation = generateExplanation(sentiment, confidence, keywords);
+
+  return { sentiment, confidence, scores, keywords, explanation, labels, model: modelId };
+};
+
+// Zero-shot pipelines answer with parallel label and score lists
+interface ZeroShotOutput {
+  labels: string[];
+  scores: number[];
+}
+
+const isZeroShotOutput = (value: unknown): value is ZeroShotOutput =>
+  !!value &&
+  Array.isArray((value as ZeroShotOutput).labels) &&
+  Array.isArray((value as ZeroShotOutput).scores) &&
+  (value as ZeroShotOutput).labels.length === (value as ZeroShotOutput).scores.length;
+
+const fromZeroShot = (output: ZeroShotOutput): RawLabelScore[] =>
+  output.labels.map((label, i) => ({ label, score: output.scores[i] }));
+
+/**
+ * Accepts the response shapes classification endpoints commonly return:
+ * `[[{label, score}, ...]]` for a single input, `[{label, score}, ...]`, or
+ * zero-shot `{labels, scores}`.
+ */
+export const parseLabelScores = (data: unknown): RawLabelScore[] => {
+  if (isZeroShotOutput(data)) {
+    return fromZeroShot(data);
+  }
+  if (Array.isArray(data) && data.length > 0) {
+    if (isZeroShotOutput(data[0])) {
+      return fromZeroShot(data[0]);
+    }
+    if (Array.isArray(data[0])) {
+      return data[0]; // Standard format
+    } else if (data[0].label && data[0].score !== undefined) {
+      return data; // Alternative format
+    }
+  }
+
+  throw new Error('Unexpected API response format. Please try again.');
+};
+
+const isLabelScoreList = (value: unknown): value is RawLabelScore[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(item => item && typeof item.label === 'string' && typeof item.score === 'number');
+
+/**
+ * Maps a batched response (one label/score list per input, in input order)
+ * back to the inputs. Entries that are missing or malformed come back as
+ * null so the caller can retry just those items.
+ */
+export const parseBatchLabelScores = (data: unknown, count: number): Array<RawLabelScore[] | null> => {
+  if (!Array.isArray(data)) {
+    throw new Error('Unexpected API response format. Please try again.');
+  }
+
+  return Array.from({ length: count }, (_, i) =>
+    isZeroShotOutput(data[i]) ? fromZeroShot(data[i]) : isLabelScoreList(data[i]) ? data[i] : null
+  );
+};
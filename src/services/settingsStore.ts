@@ -0,0 +1,57 @@
+import { AnalysisSettings } from '../types/settings';
+
+const STORAGE_KEY = 'analysis_settings';
+
+const DEFAULT_SETTINGS: AnalysisSettings = {
+  chunkAggregation: 'length-weighted',
+  sentenceSegments: true,
+  emotionSource: 'lexicon',
+  emotionModel: 'j-hartmann/emotion-english-distilroberta-base',
+  toxicitySource: 'lexicon',
+  toxicityModel: 'unitary/toxic-bert',
+  toxicityThreshold: 0.5,
+  maskOffensiveWords: false,
+  topicSource: 'keywords',
+  topicModel: 'facebook/bart-large-mnli',
+  topicThreshold: 0.5,
+  detectEntities: true,
+  requestBatchSize: 32,
+  retryMaxAttempts: 5,
+  retryBaseDelaySeconds: 1,
+  retryMaxDelaySeconds: 60,
+  cacheMaxEntries: 10000,
+  languageRouting: false,
+  languageModels: {
+    en: '',
+    de: 'nlptown/bert-base-multilingual-uncased-sentiment',
+    es: 'nlptown/bert-base-multilingual-uncased-sentiment',
+    fr: 'nlptown/bert-base-multilingual-uncased-sentiment'
+  },
+  ratingMode: false,
+  ratingModel: 'nlptown/bert-base-multilingual-uncased-sentiment'
+};
+
+class SettingsStore {
+  private settings: AnalysisSettings = {
+    ...DEFAULT_SETTINGS,
+    ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+  };
+  private listeners = new Set<() => void>();
+
+  get = (): AnalysisSettings => this.settings;
+
+  update(changes: Partial<AnalysisSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const settingsStore = new SettingsStore();
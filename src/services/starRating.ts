@@ -0,0 +1,61 @@
+import { LabelScores, SentimentResult, StarRating } from '../types/sentiment';
+import { modelRegistry } from './modelRegistry';
+
+const FIVE_POINT_SCHEMA_ID = 'five-point';
+
+// A rating this far from the text's expected rating counts as a mismatch
+export const RATING_MISMATCH_GAP = 2;
+
+export const STAR_VALUES = [1, 2, 3, 4, 5];
+
+/**
+ * Star rating for label scores. Five-point labels map one-to-one onto stars
+ * and keep their distribution; other schemas are spread over the 1-5 range
+ * by label position, so a confident three-point "positive" lands near five.
+ */
+export const predictRating = (labels: LabelScores): StarRating => {
+  const schema = modelRegistry.getSchema(labels.schemaId);
+
+  if (schema.id === FIVE_POINT_SCHEMA_ID) {
+    const distribution = schema.labels
+      .slice()
+      .sort((a, b) => a.value - b.value)
+      .map(label => labels.scores[label.id] || 0);
+    const expected = distribution.reduce((sum, p, i) => sum + p * STAR_VALUES[i], 0);
+    const stars = STAR_VALUES[distribution.indexOf(Math.max(...distribution))];
+    return { stars, expected, distribution, source: 'model' };
+  }
+
+  const span = Math.max(1, ...schema.labels.map(label => Math.abs(label.value)));
+  const expected = 3 + 2 * schema.labels.reduce((sum, label) => sum + (labels.scores[label.id] || 0) * (label.value / span), 0);
+  return { stars: Math.min(5, Math.max(1, Math.round(expected))), expected, source: 'derived' };
+};
+
+/**
+ * Reads a rating cell: "4", "4.5", "4 stars", "4/5" or "8/10". Ratings on
+ * other scales are rescaled to 1-5; anything else is ignored.
+ */
+export const parseRating = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const match = String(value).trim().match(/^(\d+(?:[.,]\d+)?)\s*(?:\/\s*(\d+)|stars?)?$/i);
+  if (!match) return undefined;
+
+  const rating = Number(match[1].replace(',', '.'));
+  const scale = match[2] ? Number(match[2]) : 5;
+  if (scale <= 0 || rating > scale) return undefined;
+  const rescaled = scale === 5 ? rating : 1 + (rating / scale) * 4;
+  return rescaled >= 1 ? Math.round(rescaled * 10) / 10 : undefined;
+};
+
+/**
+ * True when a text and the rating given with it disagree: the rating is on
+ * the other side of three stars from the text's sentiment, or far from the
+ * predicted rating.
+ */
+export const isRatingMismatch = (result: Pick<SentimentResult, 'sentiment' | 'rating' | 'actualRating'>): boolean => {
+  const actual = result.actualRating;
+  if (actual === undefined) return false;
+  if (actual >= 4 && result.sentiment === 'negative') return true;
+  if (actual <= 2 && result.sentiment === 'positive') return true;
+  return !!result.rating && Math.abs(result.rating.expected - actual) >= RATING_MISMATCH_GAP;
+};
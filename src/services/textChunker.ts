@@ -0,0 +1,149 @@
+import { ChunkAggregation, SentimentScores } from '../types/sentiment';
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface TextChunk extends TextSpan {
+  text: string;
+}
+
+const SENTENCE_BOUNDARY = /[.!?]+["'”’)\]]*(?=\s|$)|\n+/g;
+const PARAGRAPH_BREAK = /\n\s*\n/;
+const CLAUSE_BOUNDARY = /[,;:](?=\s)|\s(?=(?:but|however|although|though|whereas|while|yet)\b)/gi;
+
+const pushTrimmed = (spans: TextSpan[], text: string, start: number, end: number) => {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (start < end) spans.push({ start, end });
+};
+
+/**
+ * Splits text into sentence spans (offsets into the original string).
+ * Line breaks always end a sentence so bullet lists and pasted tickets
+ * split sensibly even without punctuation.
+ */
+export const splitSentences = (text: string): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = match.index! + match[0].length;
+    pushTrimmed(spans, text, start, end);
+    start = end;
+  }
+  pushTrimmed(spans, text, start, text.length);
+
+  return spans;
+};
+
+/**
+ * Splits text into clauses: sentences further broken at commas, semicolons
+ * and contrast words ("but", "although", ...), which start the next clause.
+ * "Great camera, but the battery is awful" yields two clauses.
+ */
+export const splitClauses = (text: string): TextSpan[] =>
+  splitSentences(text).flatMap(sentence => {
+    const spans: TextSpan[] = [];
+    let start = sentence.start;
+    for (const match of text.slice(sentence.start, sentence.end).matchAll(CLAUSE_BOUNDARY)) {
+      const end = sentence.start + match.index! + match[0].length;
+      pushTrimmed(spans, text, start, end);
+      start = end;
+    }
+    pushTrimmed(spans, text, start, sentence.end);
+    return spans;
+  });
+
+// Last resort for a single sentence longer than the budget: pack whole words,
+// hard-cutting only words that alone exceed it.
+const splitWords = (text: string, span: TextSpan, maxChars: number): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  let current: TextSpan | null = null;
+
+  for (const match of text.slice(span.start, span.end).matchAll(/\S+/g)) {
+    const start = span.start + match.index!;
+    const end = start + match[0].length;
+
+    if (current && end - current.start <= maxChars) {
+      current.end = end;
+      continue;
+    }
+    if (current) spans.push(current);
+
+    let pieceStart = start;
+    while (end - pieceStart > maxChars) {
+      spans.push({ start: pieceStart, end: pieceStart + maxChars });
+      pieceStart += maxChars;
+    }
+    current = { start: pieceStart, end };
+  }
+  if (current) spans.push(current);
+
+  return spans;
+};
+
+/**
+ * Splits text into chunks of at most `maxChars`, packing whole sentences and
+ * preferring to break at paragraph boundaries. Text that already fits is
+ * returned as a single chunk.
+ */
+export const chunkText = (text: string, maxChars: number): TextChunk[] => {
+  if (text.length <= maxChars || !Number.isFinite(maxChars)) {
+    return [{ text, start: 0, end: text.length }];
+  }
+
+  const units = splitSentences(text).flatMap(span =>
+    span.end - span.start > maxChars ? splitWords(text, span, maxChars) : [span]
+  );
+
+  const chunks: TextSpan[] = [];
+  let current: TextSpan | null = null;
+
+  units.forEach(unit => {
+    if (current) {
+      const fits = unit.end - current.start <= maxChars;
+      const atParagraph = PARAGRAPH_BREAK.test(text.slice(current.end, unit.start));
+      const halfFull = current.end - current.start >= maxChars / 2;
+
+      if (fits && !(atParagraph && halfFull)) {
+        current.end = unit.end;
+        return;
+      }
+      chunks.push(current);
+    }
+    current = { ...unit };
+  });
+  if (current) chunks.push(current);
+
+  return chunks.map(span => ({ ...span, text: text.slice(span.start, span.end) }));
+};
+
+/**
+ * Combines per-chunk scores into document scores.
+ * - length-weighted: average weighted by chunk length
+ * - mean: unweighted average
+ * - max-negative: the scores of the most negative chunk, so one angry
+ *   paragraph is not diluted by a polite opening and closing
+ */
+export const aggregateChunkScores = (
+  chunks: Array<{ scores: SentimentScores; length: number }>,
+  strategy: ChunkAggregation
+): SentimentScores => {
+  if (strategy === 'max-negative') {
+    return { ...chunks.reduce((a, b) => (b.scores.negative > a.scores.negative ? b : a)).scores };
+  }
+
+  const weights = chunks.map(chunk => (strategy === 'length-weighted' ? chunk.length : 1));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0) || 1;
+  const scores = { positive: 0, negative: 0, neutral: 0 };
+
+  chunks.forEach((chunk, i) => {
+    (Object.keys(scores) as Array<keyof SentimentScores>).forEach(key => {
+      scores[key] += chunk.scores[key] * (weights[i] / totalWeight);
+    });
+  });
+
+  return scores;
+};
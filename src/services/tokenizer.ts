@@ -0,0 +1,215 @@
+/**
+ * Minimal reader for Hugging Face `tokenizer.json` files, covering the two
+ * model families sentiment checkpoints ship with: byte-level BPE (RoBERTa,
+ * GPT-2) and WordPiece (BERT, DistilBERT). Only what inference needs is
+ * implemented: encoding a single sequence with its special tokens.
+ */
+
+export interface TokenizerJson {
+  added_tokens?: Array<{ id: number; content: string }>;
+  normalizer?: { type: string; lowercase?: boolean; strip_accents?: boolean | null } | null;
+  pre_tokenizer?: { type: string; add_prefix_space?: boolean; pretokenizers?: Array<{ type: string; add_prefix_space?: boolean }> } | null;
+  post_processor?: {
+    type: string;
+    cls?: [string, number];
+    sep?: [string, number];
+    single?: Array<{ SpecialToken?: { id: string } }>;
+  } | null;
+  model: {
+    type: string;
+    vocab: Record<string, number>;
+    merges?: Array<string | [string, string]>;
+    unk_token?: string;
+    continuing_subword_prefix?: string;
+    max_input_chars_per_word?: number;
+  };
+}
+
+export interface EncodedText {
+  inputIds: number[];
+  attentionMask: number[];
+}
+
+const BYTE_LEVEL_SPLIT = /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+const WORDPIECE_SPLIT = /[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu;
+
+// GPT-2's reversible byte -> printable character table.
+const createByteEncoder = (): string[] => {
+  const printable: number[] = [];
+  for (let b = 33; b <= 126; b++) printable.push(b);
+  for (let b = 161; b <= 172; b++) printable.push(b);
+  for (let b = 174; b <= 255; b++) printable.push(b);
+
+  const encoder: string[] = new Array(256);
+  let extra = 0;
+  for (let b = 0; b < 256; b++) {
+    encoder[b] = printable.includes(b)
+      ? String.fromCharCode(b)
+      : String.fromCharCode(256 + extra++);
+  }
+  return encoder;
+};
+
+export class Tokenizer {
+  private vocab: Map<string, number>;
+  private mergeRanks = new Map<string, number>();
+  private bpeCache = new Map<string, string[]>();
+  private byteEncoder = createByteEncoder();
+  private textEncoder = new TextEncoder();
+  private clsId: number | null = null;
+  private sepId: number | null = null;
+  private unkId: number;
+
+  constructor(private json: TokenizerJson) {
+    if (json.model.type !== 'BPE' && json.model.type !== 'WordPiece') {
+      throw new Error(`Unsupported tokenizer model "${json.model.type}". Expected a BPE or WordPiece tokenizer.json.`);
+    }
+
+    this.vocab = new Map(Object.entries(json.model.vocab));
+    json.added_tokens?.forEach(token => this.vocab.set(token.content, token.id));
+
+    (json.model.merges || []).forEach((merge, rank) => {
+      const pair = Array.isArray(merge) ? merge.join(' ') : merge;
+      this.mergeRanks.set(pair, rank);
+    });
+
+    const processor = json.post_processor;
+    if (processor?.cls && processor.sep) {
+      this.clsId = processor.cls[1];
+      this.sepId = processor.sep[1];
+    } else if (processor?.single) {
+      const specials = processor.single
+        .map(piece => piece.SpecialToken?.id)
+        .filter((id): id is string => !!id);
+      if (specials.length >= 2) {
+        this.clsId = this.vocab.get(specials[0]) ?? null;
+        this.sepId = this.vocab.get(specials[specials.length - 1]) ?? null;
+      }
+    }
+
+    this.unkId = this.vocab.get(json.model.unk_token || '') ?? 0;
+  }
+
+  get isByteLevel(): boolean {
+    return this.json.model.type === 'BPE';
+  }
+
+  tokenize(text: string): number[] {
+    return this.isByteLevel ? this.tokenizeBpe(text) : this.tokenizeWordPiece(text);
+  }
+
+  countTokens(text: string): number {
+    return this.tokenize(text).length + (this.clsId !== null ? 2 : 0);
+  }
+
+  encode(text: string, maxLength: number = 512): EncodedText {
+    const specialCount = this.clsId !== null ? 2 : 0;
+    const ids = this.tokenize(text).slice(0, maxLength - specialCount);
+    const inputIds = this.clsId !== null && this.sepId !== null
+      ? [this.clsId, ...ids, this.sepId]
+      : ids;
+
+    return { inputIds, attentionMask: inputIds.map(() => 1) };
+  }
+
+  private addPrefixSpace(): boolean {
+    const pre = this.json.pre_tokenizer;
+    if (!pre) return false;
+    if (pre.type === 'ByteLevel') return !!pre.add_prefix_space;
+    return !!pre.pretokenizers?.some(p => p.type === 'ByteLevel' && p.add_prefix_space);
+  }
+
+  private tokenizeBpe(text: string): number[] {
+    const input = this.addPrefixSpace() && !text.startsWith(' ') ? ` ${text}` : text;
+    const ids: number[] = [];
+
+    for (const word of input.match(BYTE_LEVEL_SPLIT) || []) {
+      const encoded = Array.from(this.textEncoder.encode(word), b => this.byteEncoder[b]).join('');
+      for (const piece of this.bpe(encoded)) {
+        ids.push(this.vocab.get(piece) ?? this.unkId);
+      }
+    }
+
+    return ids;
+  }
+
+  private bpe(word: string): string[] {
+    const cached = this.bpeCache.get(word);
+    if (cached) return cached;
+
+    let parts = Array.from(word);
+    while (parts.length > 1) {
+      let bestRank = Infinity;
+      let bestIndex = -1;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.mergeRanks.get(`${parts[i]} ${parts[i + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          bestIndex = i;
+        }
+      }
+      if (bestIndex === -1) break;
+
+      const first = parts[bestIndex];
+      const second = parts[bestIndex + 1];
+      const next: string[] = [];
+      for (let i = 0; i < parts.length; i++) {
+        if (i < parts.length - 1 && parts[i] === first && parts[i + 1] === second) {
+          next.push(first + second);
+          i++;
+        } else {
+          next.push(parts[i]);
+        }
+      }
+      parts = next;
+    }
+
+    this.bpeCache.set(word, parts);
+    return parts;
+  }
+
+  private tokenizeWordPiece(text: string): number[] {
+    let normalized = text;
+    if (this.json.normalizer?.lowercase) {
+      normalized = normalized.toLowerCase();
+    }
+    if (this.json.normalizer?.strip_accents !== false && this.json.normalizer?.lowercase) {
+      normalized = normalized.normalize('NFD').replace(/\p{Mn}/gu, '');
+    }
+
+    const prefix = this.json.model.continuing_subword_prefix ?? '##';
+    const maxChars = this.json.model.max_input_chars_per_word ?? 100;
+    const ids: number[] = [];
+
+    for (const word of normalized.match(WORDPIECE_SPLIT) || []) {
+      if (word.length > maxChars) {
+        ids.push(this.unkId);
+        continue;
+      }
+
+      const pieces: number[] = [];
+      let start = 0;
+      let failed = false;
+      while (start < word.length) {
+        let end = word.length;
+        let match: number | undefined;
+        while (start < end) {
+          const candidate = (start > 0 ? prefix : '') + word.slice(start, end);
+          match = this.vocab.get(candidate);
+          if (match !== undefined) break;
+          end--;
+        }
+        if (match === undefined) {
+          failed = true;
+          break;
+        }
+        pieces.push(match);
+        start = end;
+      }
+
+      ids.push(...(failed ? [this.unkId] : pieces));
+    }
+
+    return ids;
+  }
+}
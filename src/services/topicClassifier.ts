@@ -0,0 +1,86 @@
+import { TopicResult } from '../types/sentiment';
+import { TopicDefinition } from '../types/workspace';
+import { AnalysisSettings } from '../types/settings';
+import { AnalyzeOptions, SentimentProvider } from '../types/provider';
+import { huggingFaceService } from './huggingfaceApi';
+import { findTermMentions } from './aspectAnalyzer';
+import { RawLabelScore } from './sentimentUtils';
+import { chunkText } from './textChunker';
+
+// Each distinct keyword found counts as an independent 60% signal, so one
+// hit passes the default threshold and more make the topic surer
+const KEYWORD_HIT_SCORE = 0.6;
+
+const toResult = (scores: Record<string, number>, threshold: number, source: TopicResult['source']): TopicResult => ({
+  labels: Object.keys(scores)
+    .filter(name => scores[name] >= threshold)
+    .sort((a, b) => scores[b] - scores[a]),
+  scores,
+  source
+});
+
+/**
+ * Tags a text with the topics whose name or keywords it mentions, matched
+ * as whole words regardless of case.
+ */
+export const classifyTopicsByKeywords = (text: string, topics: TopicDefinition[], threshold: number): TopicResult => {
+  const scores = Object.fromEntries(topics.map(topic => {
+    const hits = new Set(findTermMentions(text, [topic.name, ...topic.keywords]).map(m => m.term.toLowerCase()));
+    return [topic.name, 1 - Math.pow(1 - KEYWORD_HIT_SCORE, hits.size)];
+  }));
+  return toResult(scores, threshold, 'keywords');
+};
+
+// Each topic is scored independently per chunk and a text takes each topic's
+// best chunk, since a topic raised anywhere in the text is raised.
+const classifyTopicsByModel = async (
+  texts: string[],
+  topics: TopicDefinition[],
+  settings: AnalysisSettings,
+  options: AnalyzeOptions
+): Promise<TopicResult[]> => {
+  const names = topics.map(topic => topic.name);
+  const chunks = texts.map(text => chunkText(text, huggingFaceService.capabilities.maxInputChars));
+  const results = await huggingFaceService.zeroShotMany(
+    chunks.flat().map(chunk => chunk.text),
+    settings.topicModel,
+    names,
+    options
+  );
+
+  let offset = 0;
+  return chunks.map(textChunks => {
+    const scores = Object.fromEntries(names.map(name => [name, 0]));
+    results.slice(offset, offset + textChunks.length).forEach((result: RawLabelScore[]) => {
+      result.forEach(({ label, score }) => {
+        if (label in scores) scores[label] = Math.max(scores[label], score);
+      });
+    });
+    offset += textChunks.length;
+    return toResult(scores, settings.topicThreshold, 'model');
+  });
+};
+
+/**
+ * Tags each text with the workspace topics. The model source runs zero-shot
+ * classification on Hugging Face, so topics can change without training
+ * anything. It only runs alongside a provider that sends texts there anyway;
+ * otherwise, and without a connection, the keyword rules are used.
+ */
+export const classifyTopics = async (
+  provider: SentimentProvider,
+  texts: string[],
+  topics: TopicDefinition[],
+  settings: AnalysisSettings,
+  options: AnalyzeOptions = {}
+): Promise<Array<TopicResult | undefined>> => {
+  if (settings.topicSource === 'off' || topics.length === 0) {
+    return texts.map(() => undefined);
+  }
+
+  if (settings.topicSource === 'model' && huggingFaceService.canRunAlongside(provider) && navigator.onLine) {
+    return classifyTopicsByModel(texts, topics, settings, options);
+  }
+
+  return texts.map(text => classifyTopicsByKeywords(text, topics, settings.topicThreshold));
+};
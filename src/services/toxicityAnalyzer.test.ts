@@ -0,0 +1,49 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { analyzeToxicityLexicon, maskOffensiveWords } from './toxicityAnalyzer';
+
+const THRESHOLD = 0.5;
+
+describe('analyzeToxicityLexicon', () => {
+  it.each([
+    'Johnny Depp was great in this film',
+    'Our cocker spaniel loves the new bed',
+    'The shop sells riding gear for horses and asses',
+    "Bought it at Dick's Sporting Goods",
+    'Mr. Dicks from accounting approved the refund',
+    'The needle pricks were barely noticeable',
+    'I was pissed that the order came late',
+    'Great product, fast shipping, would buy again'
+  ])('does not flag ordinary text: %s', text => {
+    const result = analyzeToxicityLexicon(text, THRESHOLD);
+    expect(result.score).toBe(0);
+    expect(result.toxic).toBe(false);
+  });
+
+  it('flags profanity, including disguised and suffixed forms', () => {
+    ['This is fucking useless', 'What a pile of sh1t', 'f*ck this update', 'Shitty support'].forEach(text => {
+      expect(analyzeToxicityLexicon(text, THRESHOLD).flagged).toContain('obscene');
+    });
+  });
+
+  it('flags the whole-word stems only as bare words', () => {
+    expect(analyzeToxicityLexicon('The manager was a total prick', THRESHOLD).flagged).toContain('obscene');
+    expect(analyzeToxicityLexicon("Don't be a dick", THRESHOLD).flagged).toContain('obscene');
+  });
+
+  it('scores insults aimed at someone higher', () => {
+    const directed = analyzeToxicityLexicon('you idiot', THRESHOLD).categories.insult;
+    const undirected = analyzeToxicityLexicon('what an idiot', THRESHOLD).categories.insult;
+    expect(directed).toBeGreaterThan(undirected);
+  });
+
+  it('flags threats', () => {
+    expect(analyzeToxicityLexicon("I'll find you, I know where you live", THRESHOLD).flagged).toContain('threat');
+  });
+});
+
+describe('maskOffensiveWords', () => {
+  it('masks offensive words and leaves names alone', () => {
+    expect(maskOffensiveWords('Johnny Depp said shit')).toBe('Johnny Depp said s***');
+  });
+});
@@ -0,0 +1,274 @@
+import { ToxicityCategory, ToxicityResult } from '../types/sentiment';
+import { AnalysisSettings } from '../types/settings';
+import { AnalyzeOptions, SentimentProvider } from '../types/provider';
+import { huggingFaceService } from './huggingfaceApi';
+import { RawLabelScore } from './sentimentUtils';
+import { chunkText } from './textChunker';
+
+export const TOXICITY_CATEGORIES: ToxicityCategory[] = ['obscene', 'insult', 'threat', 'identity_attack', 'severe_toxicity'];
+
+export const TOXICITY_CATEGORY_NAMES: Record<ToxicityCategory, string> = {
+  obscene: 'Obscene',
+  insult: 'Insult',
+  threat: 'Threat',
+  identity_attack: 'Identity attack',
+  severe_toxicity: 'Severe'
+};
+
+type WordCategory = 'obscene' | 'insult';
+
+// Severity per word, 0..1. Identity attacks are left to the model rather
+// than kept as a slur list here.
+const TOXICITY_LEXICON: Record<WordCategory, Record<string, number>> = {
+  obscene: {
+    fuck: 0.9, motherfucker: 0.95, shit: 0.7, bullshit: 0.6, bitch: 0.85, asshole: 0.85, arsehole: 0.85,
+    arse: 0.5, bastard: 0.75, dick: 0.7, cunt: 0.95, twat: 0.85, prick: 0.7, wanker: 0.8, piss: 0.5,
+    crap: 0.35, damn: 0.25, bollocks: 0.5, douche: 0.6, douchebag: 0.75, slut: 0.85, whore: 0.85,
+    scheiße: 0.7, scheisse: 0.7, arschloch: 0.85, mierda: 0.7, puta: 0.85, cabrón: 0.8, merde: 0.7, putain: 0.7,
+    salope: 0.85, enculé: 0.9
+  },
+  insult: {
+    idiot: 0.7, moron: 0.75, imbecile: 0.75, stupid: 0.45, dumb: 0.45, dumbass: 0.8, dipshit: 0.85, loser: 0.6,
+    jerk: 0.55, scumbag: 0.8, clown: 0.35, pathetic: 0.35, incompetent: 0.4, trottel: 0.7, idiota: 0.7,
+    estúpido: 0.5, gilipollas: 0.85, imbécile: 0.75, crétin: 0.7, connard: 0.85
+  }
+};
+
+const THREAT_PATTERNS: RegExp[] = [
+  /\b(?:i'?ll|i will|i'?m going to|gonna|going to)\s+(?:kill|hurt|beat|find|destroy|stab|shoot)\s+(?:you|u|ya)\b/,
+  /\b(?:you'?re|you are|ur)\s+(?:dead|going to die|gonna die)\b/,
+  /\bkill\s+(?:yourself|urself|your ?self)\b/,
+  /\bwatch your back\b/,
+  /\bi know where you live\b/,
+  /\bburn (?:it|this place|your \w+) down\b/
+];
+
+// Insults aimed at someone ("you idiot", "you're stupid") count for more
+const DIRECTED_BOOST = 1.3;
+const DIRECTED_BEFORE = new Set(['you', 'your', "you're", 'youre', 'u', 'ur', 'such', 'total', 'complete']);
+
+const SUFFIXES = new Set(['', 's', 'es', 'ed', 'er', 'ers', 'ing', 'in', 'y', 'ty']);
+// Words whose suffixed forms are mostly innocent ("Dicks", "pricks",
+// "pissed"), so only the bare word counts
+const WHOLE_WORDS = new Set(['dick', 'prick', 'piss']);
+const NO_SUFFIXES = new Set(['']);
+
+const LEET: Record<string, string> = {
+  '@': 'a', '4': 'a', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't'
+};
+
+// Characters people put in place of letters they don't want to spell out
+const WILDCARDS = /[*#%]/g;
+
+/**
+ * Whether an (already lowercased, de-leeted) token spells the word, allowing
+ * stretched letters ("fuuuck"), wildcards for one or more letters ("f*ck",
+ * "f**k") and, except for `WHOLE_WORDS`, common suffixes ("fucking",
+ * "shitty"). The first letter and at least one other must be spelled out,
+ * so "f***" or "****" never match.
+ */
+const spells = (token: string, word: string): boolean => {
+  if (token[0] !== word[0] || token.replace(/\*/g, '').length < 2) return false;
+  const suffixes = WHOLE_WORDS.has(word) ? NO_SUFFIXES : SUFFIXES;
+  const memo = new Map<number, boolean>();
+
+  const match = (i: number, j: number): boolean => {
+    const key = i * 64 + j;
+    if (memo.has(key)) return memo.get(key)!;
+    let result = false;
+    if (j === word.length) {
+      result = suffixes.has(token.slice(i)) || (token[i] === word[j - 1] && match(i + 1, j));
+    } else if (i < token.length) {
+      const c = token[i];
+      if (c === '*') {
+        for (let k = j + 1; k <= word.length && !result; k++) result = match(i + 1, k);
+      } else {
+        result = (c === word[j] && match(i + 1, j + 1)) || (j > 0 && c === word[j - 1] && match(i + 1, j));
+      }
+    }
+    memo.set(key, result);
+    return result;
+  };
+  return match(0, 0);
+};
+
+interface Token {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const normalizeToken = (raw: string): string => {
+  const lower = raw.toLowerCase().replace(WILDCARDS, '*');
+  // Separators between single letters ("f.u.c.k") are dropped
+  const joined = /^(?:\p{L}[._-])+\p{L}$/u.test(lower) ? lower.replace(/[._-]/g, '') : lower;
+  return /\p{L}/u.test(joined) ? joined.replace(/[@4310!$57]/g, c => LEET[c]) : joined;
+};
+
+/**
+ * Whitespace-separated tokens, trimmed of surrounding punctuation. Runs of
+ * three or more single letters ("f u c k") are joined into one token.
+ */
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    const raw = match[0];
+    const lead = raw.match(/^[^\p{L}\p{N}*$@]*/u)![0].length;
+    const trail = raw.slice(lead).match(/[^\p{L}\p{N}*]*$/u)![0].length;
+    const core = raw.slice(lead, raw.length - trail);
+    if (core) {
+      tokens.push({ start: match.index! + lead, end: match.index! + raw.length - trail, text: normalizeToken(core) });
+    }
+  }
+
+  const merged: Token[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    let j = i;
+    while (j < tokens.length && /^\p{L}$/u.test(tokens[j].text)) j++;
+    if (j - i >= 3) {
+      merged.push({ start: tokens[i].start, end: tokens[j - 1].end, text: tokens.slice(i, j).map(t => t.text).join('') });
+      i = j - 1;
+    } else {
+      merged.push(tokens[i]);
+    }
+  }
+  return merged;
+};
+
+interface OffensiveHit {
+  start: number;
+  end: number;
+  category: WordCategory;
+  weight: number;
+}
+
+const findOffensiveWords = (text: string): OffensiveHit[] => {
+  const tokens = tokenize(text);
+  return tokens.flatMap((token, index) => {
+    for (const category of Object.keys(TOXICITY_LEXICON) as WordCategory[]) {
+      const word = Object.keys(TOXICITY_LEXICON[category]).find(candidate => spells(token.text, candidate));
+      if (word) {
+        const directed = index > 0 && DIRECTED_BEFORE.has(tokens[index - 1].text);
+        const weight = TOXICITY_LEXICON[category][word] * (category === 'insult' && directed ? DIRECTED_BOOST : 1);
+        return [{ start: token.start, end: token.end, category, weight: Math.min(1, weight) }];
+      }
+    }
+    return [];
+  });
+};
+
+// Keeps the first letter and the length, so offsets into the text still hold
+export const maskOffensiveWords = (text: string): string => {
+  const hits = findOffensiveWords(text);
+  if (hits.length === 0) return text;
+  let masked = text;
+  hits.forEach(hit => {
+    masked = `${masked.slice(0, hit.start + 1)}${'*'.repeat(hit.end - hit.start - 1)}${masked.slice(hit.end)}`;
+  });
+  return masked;
+};
+
+const emptyCategories = (): Record<ToxicityCategory, number> =>
+  Object.fromEntries(TOXICITY_CATEGORIES.map(category => [category, 0])) as Record<ToxicityCategory, number>;
+
+// Probability that at least one of several independent signals is real
+const noisyOr = (values: number[]): number => 1 - values.reduce((product, value) => product * (1 - value), 1);
+
+const toResult = (
+  score: number,
+  categories: Record<ToxicityCategory, number>,
+  source: ToxicityResult['source'],
+  threshold: number
+): ToxicityResult => ({
+  score,
+  toxic: score >= threshold,
+  categories,
+  flagged: TOXICITY_CATEGORIES.filter(category => categories[category] >= threshold),
+  source
+});
+
+/**
+ * Scores profanity, insults and threats from the word lists above. Category
+ * scores combine their hits as independent signals. Severe toxicity needs
+ * two kinds of abuse together, such as an insult with a threat or with
+ * profanity; swearing alone is not severe.
+ */
+export const analyzeToxicityLexicon = (text: string, threshold: number): ToxicityResult => {
+  const hits = findOffensiveWords(text);
+  const normalized = text.toLowerCase().replace(/’/g, "'");
+  const categories = emptyCategories();
+  categories.obscene = noisyOr(hits.filter(hit => hit.category === 'obscene').map(hit => hit.weight));
+  categories.insult = noisyOr(hits.filter(hit => hit.category === 'insult').map(hit => hit.weight));
+  categories.threat = noisyOr(THREAT_PATTERNS.filter(pattern => pattern.test(normalized)).map(() => 0.8));
+
+  const signals = [categories.obscene, categories.insult, categories.threat];
+  categories.severe_toxicity = noisyOr([
+    categories.obscene * categories.insult,
+    categories.obscene * categories.threat,
+    categories.insult * categories.threat
+  ]);
+  return toResult(noisyOr(signals), categories, 'lexicon', threshold);
+};
+
+// Label names of the common toxicity models; "toxic" is their overall score
+const MODEL_LABEL_ALIASES: Record<string, ToxicityCategory | 'toxic'> = {
+  toxic: 'toxic', toxicity: 'toxic',
+  severe_toxic: 'severe_toxicity', severe_toxicity: 'severe_toxicity',
+  obscene: 'obscene',
+  insult: 'insult',
+  threat: 'threat',
+  identity_hate: 'identity_attack', identity_attack: 'identity_attack'
+};
+
+// Labels are independent probabilities; a chunked text takes each label's
+// worst chunk, since one abusive passage makes the text abusive.
+const analyzeToxicityModel = async (
+  texts: string[],
+  settings: AnalysisSettings,
+  options: AnalyzeOptions
+): Promise<ToxicityResult[]> => {
+  const chunks = texts.map(text => chunkText(text, huggingFaceService.capabilities.maxInputChars));
+  const classified = await huggingFaceService.classifyMany(
+    chunks.flat().map(chunk => chunk.text),
+    settings.toxicityModel,
+    options
+  );
+  const results = classified.map(item => item.results);
+
+  let offset = 0;
+  return chunks.map(textChunks => {
+    const categories = emptyCategories();
+    let overall: number | undefined;
+    results.slice(offset, offset + textChunks.length).forEach((result: RawLabelScore[]) => {
+      result.forEach(({ label, score }) => {
+        const category = MODEL_LABEL_ALIASES[label.toLowerCase()];
+        if (category === 'toxic') overall = Math.max(overall ?? 0, score);
+        else if (category) categories[category] = Math.max(categories[category], score);
+      });
+    });
+    offset += textChunks.length;
+    return toResult(overall ?? Math.max(...Object.values(categories)), categories, 'model', settings.toxicityThreshold);
+  });
+};
+
+/**
+ * Rates how abusive each text is with the source chosen in settings. Like
+ * emotions, the model source only runs alongside a provider that sends
+ * texts to Hugging Face anyway, and falls back to the lexicon otherwise.
+ */
+export const analyzeToxicity = async (
+  provider: SentimentProvider,
+  texts: string[],
+  settings: AnalysisSettings,
+  options: AnalyzeOptions = {}
+): Promise<Array<ToxicityResult | undefined>> => {
+  if (settings.toxicitySource === 'off') {
+    return texts.map(() => undefined);
+  }
+
+  if (settings.toxicitySource === 'model' && huggingFaceService.canRunAlongside(provider)) {
+    return analyzeToxicityModel(texts, settings, options);
+  }
+
+  return texts.map(text => analyzeToxicityLexicon(text, settings.toxicityThreshold));
+};
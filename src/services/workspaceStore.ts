@@ -0,0 +1,119 @@
+import { Workspace, AspectDefinition, CustomLexiconEntry, EntityDefinition, TopicDefinition } from '../types/workspace';
+
+const STORAGE_KEY = 'workspaces';
+const ACTIVE_KEY = 'active_workspace';
+
+const DEFAULT_WORKSPACE: Workspace = {
+  id: 'default',
+  name: 'Default Workspace',
+  aspects: [
+    { id: 'price', name: 'Price', synonyms: ['price', 'cost', 'expensive', 'cheap', 'value'] },
+    { id: 'delivery', name: 'Delivery', synonyms: ['delivery', 'shipping', 'arrived', 'package'] },
+    { id: 'support', name: 'Support', synonyms: ['support', 'customer service', 'help desk', 'agent'] },
+    { id: 'quality', name: 'Quality', synonyms: ['quality', 'build', 'material', 'durable'] }
+  ],
+  topics: [
+    { id: 'billing', name: 'billing', keywords: ['invoice', 'charged', 'refund', 'payment', 'subscription', 'bill'] },
+    { id: 'shipping', name: 'shipping', keywords: ['delivery', 'shipped', 'package', 'courier', 'tracking', 'arrived'] },
+    { id: 'ui-bug', name: 'UI bug', keywords: ['bug', 'crash', 'crashes', 'broken', 'glitch', 'button', 'error message'] },
+    { id: 'feature-request', name: 'feature request', keywords: ['please add', 'would be nice', 'wish', 'feature', 'option to'] }
+  ]
+};
+
+interface WorkspaceState {
+  workspaces: Workspace[];
+  activeId: string;
+}
+
+const loadState = (): WorkspaceState => {
+  const workspaces: Workspace[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') || [DEFAULT_WORKSPACE];
+  const activeId = localStorage.getItem(ACTIVE_KEY) || workspaces[0].id;
+  return {
+    workspaces,
+    activeId: workspaces.some(w => w.id === activeId) ? activeId : workspaces[0].id
+  };
+};
+
+/**
+ * Workspaces group the user-defined configuration that shapes analysis
+ * (aspect dictionaries and the like), so different teams or product lines
+ * can keep separate vocabularies.
+ */
+class WorkspaceStore {
+  private state: WorkspaceState = loadState();
+  private listeners = new Set<() => void>();
+
+  getState = (): WorkspaceState => this.state;
+
+  getActive(): Workspace {
+    return this.state.workspaces.find(w => w.id === this.state.activeId)!;
+  }
+
+  private commit(state: WorkspaceState) {
+    this.state = state;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state.workspaces));
+    localStorage.setItem(ACTIVE_KEY, state.activeId);
+    this.listeners.forEach(listener => listener());
+  }
+
+  setActive(id: string) {
+    this.commit({ ...this.state, activeId: id });
+  }
+
+  createWorkspace(name: string): Workspace {
+    const workspace: Workspace = {
+      id: `workspace_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      aspects: []
+    };
+    this.commit({ workspaces: [...this.state.workspaces, workspace], activeId: workspace.id });
+    return workspace;
+  }
+
+  deleteWorkspace(id: string) {
+    if (this.state.workspaces.length <= 1) return;
+    const workspaces = this.state.workspaces.filter(w => w.id !== id);
+    this.commit({
+      workspaces,
+      activeId: this.state.activeId === id ? workspaces[0].id : this.state.activeId
+    });
+  }
+
+  updateActive(changes: Partial<Omit<Workspace, 'id'>>) {
+    this.commit({
+      ...this.state,
+      workspaces: this.state.workspaces.map(w => (w.id === this.state.activeId ? { ...w, ...changes } : w))
+    });
+  }
+
+  setAspects(aspects: AspectDefinition[]) {
+    this.updateActive({ aspects });
+  }
+
+  setEntities(entities: EntityDefinition[]) {
+    this.updateActive({ entities });
+  }
+
+  setTopics(topics: TopicDefinition[]) {
+    this.updateActive({ topics });
+  }
+
+  setLexiconEntries(entries: CustomLexiconEntry[]) {
+    this.updateActive({
+      lexicon: {
+        version: (this.getActive().lexicon?.version ?? 0) + 1,
+        entries,
+        updatedAt: new Date().toISOString()
+      }
+    });
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
+
+export const workspaceStore = new WorkspaceStore();
@@ -0,0 +1,35 @@
+export type CalibrationMethod = 'temperature' | 'isotonic';
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  // Mean top confidence of the samples in the bin
+  confidence: number;
+  // Share of those samples whose top label was right
+  accuracy: number;
+}
+
+// Lowest confidence reported as high or moderate; anything below is low
+export interface ConfidenceThresholds {
+  high: number;
+  moderate: number;
+}
+
+export interface Calibration {
+  // Hugging Face model id, local model name, endpoint URL or provider id
+  modelId: string;
+  method: CalibrationMethod;
+  temperature?: number;
+  // Piecewise-linear map from raw to calibrated top confidence
+  isotonic?: { x: number[]; y: number[] };
+  thresholds: ConfidenceThresholds;
+  sampleSize: number;
+  accuracy: number;
+  // Expected calibration error on the labelled sample, before and after
+  eceBefore: number;
+  eceAfter: number;
+  binsBefore: ReliabilityBin[];
+  binsAfter: ReliabilityBin[];
+  fittedAt: string;
+}
@@ -0,0 +1,12 @@
+export type JobStatus = 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  name: string;
+  status: JobStatus;
+  total: number;
+  completed: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
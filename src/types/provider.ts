@@ -0,0 +1,99 @@
+import { SentimentLabel, SentimentKeyword, SentimentScores, ChunkResult, ChunkAggregation, SentenceSegment, AspectResult, EntityResult, EmotionResult, EnsembleResult, DetectedLanguage, LabelScores, StarRating, KeywordCorpus, ToxicityResult, TopicResult } from './sentiment';
+import { CalibrationMethod } from './calibration';
+import { CustomLexiconEntry } from './workspace';
+
+export interface SentimentAnalysis {
+  sentiment: SentimentLabel;
+  confidence: number;
+  scores: SentimentScores;
+  keywords: SentimentKeyword[];
+  explanation: string;
+  chunks?: ChunkResult[];
+  chunkAggregation?: ChunkAggregation;
+  segments?: SentenceSegment[];
+  aspects?: AspectResult[];
+  entities?: EntityResult[];
+  emotion?: EmotionResult;
+  toxicity?: ToxicityResult;
+  topics?: TopicResult;
+  // Scores were reused from the local cache instead of a new request
+  cached?: boolean;
+  ensemble?: EnsembleResult;
+  language?: DetectedLanguage;
+  // Human-readable rules that changed the score, from rule-based providers
+  rules?: string[];
+  // Scores in the model's label schema, or the workspace's once the
+  // pipeline has projected them
+  labels?: LabelScores;
+  rating?: StarRating;
+  // Model that produced the scores, when the provider knows it
+  model?: string;
+  // Set when calibrated scores replaced the model's raw scores
+  calibrated?: CalibrationMethod;
+  // Version of the workspace lexicon the keywords were extracted with
+  lexiconVersion?: number;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryStatus {
+  attempt: number;
+  maxAttempts: number;
+  retryAt: number;
+  reason: string;
+}
+
+export interface AnalyzeOptions {
+  onProgress?: (completed: number, total: number) => void;
+  // Texts per request for providers that accept batched input
+  batchSize?: number;
+  retry?: RetryPolicy;
+  onRetry?: (status: RetryStatus | null) => void;
+  // Set by batch jobs: aborting cancels queued and in-flight requests,
+  // and requests wait on `waitForResume` while the job is paused.
+  signal?: AbortSignal;
+  waitForResume?: () => Promise<void>;
+  // Skip cached results for this run; fresh results still refresh the cache
+  bypassCache?: boolean;
+  // Hosted model to use instead of the provider's default; providers that
+  // serve a single model ignore it
+  model?: string;
+  // Workspace domain terms; every provider uses them for keywords and
+  // rule-based providers also for scoring
+  lexicon?: CustomLexiconEntry[];
+  // Workspace document frequencies that keyword extraction weighs terms by
+  keywordCorpus?: KeywordCorpus;
+}
+
+// Per-run choices made in the analyzer forms
+export type RunOptions = Pick<AnalyzeOptions, 'bypassCache'>;
+
+export interface ProviderCapabilities {
+  requiresApiKey: boolean;
+  requiresNetwork: boolean;
+  // Scores come from word rules rather than a trained model
+  ruleBased: boolean;
+  // Texts are sent to the Hugging Face API, so extra model passes there
+  // (emotions, toxicity, topics) send them nowhere new
+  sendsToHuggingFace: boolean;
+  // Honours `AnalyzeOptions.model`, so language routing and the rating
+  // model apply
+  acceptsModel: boolean;
+  maxInputChars: number;
+}
+
+export interface SentimentProvider {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+  isConfigured(): boolean;
+  analyze(text: string, options?: AnalyzeOptions): Promise<SentimentAnalysis>;
+  analyzeMany(texts: string[], options?: AnalyzeOptions): Promise<SentimentAnalysis[]>;
+  testConnection(): Promise<boolean>;
+  subscribe?(listener: () => void): () => void;
+}
@@ -1,22 +1,236 @@
+import { RetryStatus } from './provider';
+import { CalibrationMethod } from './calibration';
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export interface SentimentKeyword {
+  word: string;
+  sentiment: SentimentLabel;
+  weight: number;
+}
+
+// Document frequencies of keyword terms across a workspace's texts
+export interface KeywordCorpus {
+  documents: number;
+  frequencies: Record<string, number>;
+}
+
+export type ChunkAggregation = 'length-weighted' | 'mean' | 'max-negative';
+
+export interface SentimentScores {
+  positive: number;
+  negative: number;
+  neutral: number;
+}
+
+export interface ChunkResult {
+  text: string;
+  start: number;
+  end: number;
+  sentiment: SentimentLabel;
+  confidence: number;
+  scores: SentimentScores;
+}
+
+export type SentenceSegment = ChunkResult;
+
+export interface AspectMention {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export interface AspectResult {
+  name: string;
+  sentiment: SentimentLabel;
+  score: number;
+  mentions: AspectMention[];
+}
+
+export type EntityType = 'brand' | 'product' | 'competitor' | 'other';
+
+export interface EntityResult {
+  // Workspace entity id, or "detected:<name>" for names found in the text
+  id: string;
+  name: string;
+  type: EntityType;
+  source: 'gazetteer' | 'detected';
+  sentiment: SentimentLabel;
+  score: number;
+  scores: SentimentScores;
+  mentions: AspectMention[];
+}
+
+export type EmotionLabel = 'joy' | 'anger' | 'sadness' | 'fear' | 'surprise' | 'disgust' | 'neutral';
+
+export interface EmotionResult {
+  label: EmotionLabel;
+  confidence: number;
+  scores: Record<EmotionLabel, number>;
+  source: 'lexicon' | 'model';
+}
+
+export interface TopicResult {
+  // Topics scoring at or above the threshold, best first
+  labels: string[];
+  // Score per workspace topic name, 0..1
+  scores: Record<string, number>;
+  source: 'keywords' | 'model';
+}
+
+export type ToxicityCategory = 'obscene' | 'insult' | 'threat' | 'identity_attack' | 'severe_toxicity';
+
+export interface ToxicityResult {
+  // Overall likelihood the text is abusive, 0..1
+  score: number;
+  toxic: boolean;
+  categories: Record<ToxicityCategory, number>;
+  // Categories at or above the threshold in force when the text was analyzed
+  flagged: ToxicityCategory[];
+  source: 'lexicon' | 'model';
+}
+
+export interface SchemaLabel {
+  id: string;
+  name: string;
+  // Position on the negative..positive scale; 0 is neutral
+  value: number;
+  // Mixed labels sit at 0 but mean "both", not "neither"
+  mixed?: boolean;
+}
+
+export interface LabelSchema {
+  id: string;
+  name: string;
+  labels: SchemaLabel[];
+  builtIn?: boolean;
+}
+
+export interface ModelDefinition {
+  // Hugging Face model id, local model name or custom endpoint URL
+  id: string;
+  schemaId: string;
+  // Raw model label (matched case-insensitively) to schema label id
+  labels: Record<string, string>;
+  builtIn?: boolean;
+}
+
+export interface LabelScores {
+  schemaId: string;
+  label: string;
+  scores: Record<string, number>;
+}
+
+export interface StarRating {
+  // Predicted rating, 1 to 5
+  stars: number;
+  // Probability-weighted mean rating
+  expected: number;
+  // Probability per star, index 0 is one star; only for models that rate natively
+  distribution?: number[];
+  source: 'model' | 'derived';
+}
+
+export type LanguageCode = 'en' | 'de' | 'es' | 'fr';
+
+// 'unknown' when a text is too short or too mixed to tell
+export type DetectedLanguage = LanguageCode | 'unknown';
+
+export type EnsembleStrategy = 'weighted-average' | 'majority-vote';
+
+export interface ModelVote {
+  model: string;
+  weight: number;
+  sentiment: SentimentLabel;
+  confidence: number;
+  scores: SentimentScores;
+}
+
+export interface EnsembleResult {
+  strategy: EnsembleStrategy;
+  // Share of the total model weight whose top label matches the final label
+  agreement: number;
+  reviewThreshold: number;
+  needsReview: boolean;
+  models: ModelVote[];
+}
+
+export interface SentimentCounts {
+  positive: number;
+  negative: number;
+  neutral: number;
+}
+
+// Change in the predicted sentiment's score when the span is left out
+export interface TokenAttribution {
+  start: number;
+  end: number;
+  weight: number;
+}
+
+export interface Attribution {
+  method: 'occlusion';
+  // Sentiment the weights explain
+  sentiment: SentimentLabel;
+  // Tokens masked together; more than 1 for long texts
+  window: number;
+  requests: number;
+  model?: string;
+  tokens: TokenAttribution[];
+}
+
 export interface SentimentResult {
   id: string;
   text: string;
-  sentiment: 'positive' | 'negative' | 'neutral';
+  sentiment: SentimentLabel;
   confidence: number;
-  scores: {
-    positive: number;
-    negative: number;
-    neutral: number;
-  };
-  keywords: Array<{
-    word: string;
-    sentiment: 'positive' | 'negative' | 'neutral';
-    weight: number;
-  }>;
+  scores: SentimentScores;
+  keywords: SentimentKeyword[];
   timestamp: Date;
   explanation?: string;
+  providerId?: string;
+  chunks?: ChunkResult[];
+  chunkAggregation?: ChunkAggregation;
+  segments?: SentenceSegment[];
+  aspects?: AspectResult[];
+  entities?: EntityResult[];
+  emotion?: EmotionResult;
+  toxicity?: ToxicityResult;
+  topics?: TopicResult;
+  cached?: boolean;
+  ensemble?: EnsembleResult;
+  language?: DetectedLanguage;
+  rules?: string[];
+  labels?: LabelScores;
+  rating?: StarRating;
+  // Rating given with the text, e.g. from a review CSV
+  actualRating?: number;
+  model?: string;
+  calibrated?: CalibrationMethod;
+  lexiconVersion?: number;
+  attribution?: Attribution;
+}
+
+export interface SucceededBatchItem {
+  // Position in the submitted texts, counting blank ones
+  index: number;
+  status: 'ok';
+  resultId: string;
 }
 
+export interface FailedBatchItem {
+  // Position in the submitted texts, counting blank ones
+  index: number;
+  status: 'failed';
+  text: string;
+  actualRating?: number;
+  errorCode: string;
+  errorMessage: string;
+}
+
+// Outcome of one input text, by its position in the submitted batch
+export type BatchItem = SucceededBatchItem | FailedBatchItem;
+
 export interface BatchResult {
   id: string;
   name: string;
@@ -27,8 +241,15 @@ export interface BatchResult {
     negativeCount: number;
     neutralCount: number;
     averageConfidence: number;
+    aspectCounts?: Record<string, SentimentCounts>;
+    failedCount?: number;
+    ratingMismatchCount?: number;
   };
+  items?: BatchItem[];
   createdAt: Date;
+  // Set when the job was cancelled part-way; results cover the first texts only
+  partial?: boolean;
+  requestedTexts?: number;
 }
 
 export interface AnalysisState {
@@ -37,6 +258,7 @@ export interface AnalysisState {
   error: string | null;
   results: SentimentResult[];
   batches: BatchResult[];
+  retryStatus: RetryStatus | null;
 }
 
 export interface ExportOptions {
@@ -44,6 +266,7 @@ export interface ExportOptions {
   includeKeywords: boolean;
   includeConfidence: boolean;
   includeTimestamp: boolean;
+  maskOffensiveWords?: boolean;
   dateRange?: {
     start: Date;
     end: Date;
@@ -0,0 +1,32 @@
+import { ChunkAggregation, LanguageCode } from './sentiment';
+
+export interface AnalysisSettings {
+  chunkAggregation: ChunkAggregation;
+  sentenceSegments: boolean;
+  emotionSource: 'off' | 'lexicon' | 'model';
+  emotionModel: string;
+  toxicitySource: 'off' | 'lexicon' | 'model';
+  toxicityModel: string;
+  // Score from which a text or category counts as toxic
+  toxicityThreshold: number;
+  // Show offensive words as "f***" in the UI and exports
+  maskOffensiveWords: boolean;
+  topicSource: 'off' | 'keywords' | 'model';
+  // Zero-shot classification model scoring texts against the workspace topics
+  topicModel: string;
+  // Score from which a text is tagged with a topic
+  topicThreshold: number;
+  // Find capitalized names besides the workspace's entities
+  detectEntities: boolean;
+  requestBatchSize: number;
+  retryMaxAttempts: number;
+  retryBaseDelaySeconds: number;
+  retryMaxDelaySeconds: number;
+  cacheMaxEntries: number;
+  languageRouting: boolean;
+  // Model per detected language; empty means the provider's default model
+  languageModels: Record<LanguageCode, string>;
+  // Predict a 1-5 star rating per text; Hugging Face requests go to the rating model
+  ratingMode: boolean;
+  ratingModel: string;
+}
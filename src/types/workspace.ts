@@ -0,0 +1,51 @@
+import { EntityType } from './sentiment';
+
+export interface AspectDefinition {
+  id: string;
+  name: string;
+  synonyms: string[];
+}
+
+export interface EntityDefinition {
+  id: string;
+  name: string;
+  type: EntityType;
+  // Other spellings and product names that count as this entity
+  aliases: string[];
+}
+
+export interface TopicDefinition {
+  id: string;
+  // Also the candidate label sent to the zero-shot model
+  name: string;
+  // Words and phrases that tag the topic when no model is available
+  keywords: string[];
+}
+
+export interface CustomLexiconEntry {
+  id: string;
+  // Word or phrase, matched case-insensitively
+  term: string;
+  // -4 (very negative) to 4 (very positive); 0 stops a built-in word counting
+  valence: number;
+}
+
+export interface CustomLexicon {
+  // Increases with every change, so results can say which version they used
+  version: number;
+  entries: CustomLexiconEntry[];
+  updatedAt: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  aspects: AspectDefinition[];
+  // Brands, products and competitors to track; missing in older workspaces
+  entities?: EntityDefinition[];
+  // Categories texts are tagged with; missing in older workspaces
+  topics?: TopicDefinition[];
+  // Label schema results are reported in; three-point when unset
+  labelSchemaId?: string;
+  lexicon?: CustomLexicon;
+}
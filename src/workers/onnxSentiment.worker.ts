@@ -0,0 +1,130 @@
+import * as ort from 'onnxruntime-web/wasm';
+import { Tokenizer, TokenizerJson } from '../services/tokenizer';
+import { RawLabelScore } from '../services/sentimentUtils';
+import { chunkText } from '../services/textChunker';
+
+export interface LocalModelConfig {
+  // Hugging Face id (or export path) of the model the file was exported from
+  _name_or_path?: string;
+  id2label?: Record<string, string>;
+  max_position_embeddings?: number;
+}
+
+export type WorkerRequest =
+  | { type: 'load'; model: ArrayBuffer; tokenizer: TokenizerJson; config: LocalModelConfig }
+  | { type: 'analyze'; requestId: number; texts: string[] };
+
+export type WorkerResponse =
+  | { type: 'loaded'; labels: string[] }
+  | { type: 'result'; requestId: number; results: RawLabelScore[][] }
+  | { type: 'error'; requestId?: number; message: string };
+
+// Threaded WASM needs cross-origin isolation, which a static deployment
+// can't guarantee; a single thread inside the worker keeps the UI responsive.
+ort.env.wasm.numThreads = 1;
+
+const MAX_SEQUENCE_LENGTH = 512;
+
+let session: ort.InferenceSession | null = null;
+let tokenizer: Tokenizer | null = null;
+let labels: string[] = [];
+let maxLength = MAX_SEQUENCE_LENGTH;
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const softmax = (logits: number[]): number[] => {
+  const max = Math.max(...logits);
+  const exps = logits.map(l => Math.exp(l - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / sum);
+};
+
+const toTensor = (values: number[]) =>
+  new ort.Tensor('int64', BigInt64Array.from(values, v => BigInt(v)), [1, values.length]);
+
+// Only called once classify has checked a model is loaded
+const classifyPiece = async (text: string): Promise<number[]> => {
+  const encoded = tokenizer!.encode(text, maxLength);
+  const feeds: Record<string, ort.Tensor> = {
+    input_ids: toTensor(encoded.inputIds),
+    attention_mask: toTensor(encoded.attentionMask)
+  };
+  if (session!.inputNames.includes('token_type_ids')) {
+    feeds.token_type_ids = toTensor(encoded.inputIds.map(() => 0));
+  }
+
+  const output = await session!.run(feeds);
+  return softmax(Array.from(output[session!.outputNames[0]].data as Float32Array));
+};
+
+// Splits a text the model would truncate into pieces that fit, shrinking the
+// character budget by how far the longest piece overshoots, so the tail of a
+// dense text (digits, emoji, rare words) is scored rather than dropped
+const fitToModel = (text: string): string[] => {
+  let pieces = [text];
+  let maxChars = text.length;
+  let longest = tokenizer!.countTokens(text);
+  while (longest > maxLength && maxChars > 1) {
+    maxChars = Math.max(1, Math.floor(maxChars * (maxLength / longest) * 0.9));
+    pieces = chunkText(text, maxChars).map(chunk => chunk.text);
+    longest = Math.max(...pieces.map(piece => tokenizer!.countTokens(piece)));
+  }
+  return pieces;
+};
+
+// Pieces are averaged weighted by length, like the pipeline's default chunk aggregation
+const classify = async (text: string): Promise<RawLabelScore[]> => {
+  if (!session || !tokenizer) {
+    throw new Error('No local model loaded.');
+  }
+
+  const pieces = fitToModel(text);
+  const totalLength = pieces.reduce((sum, piece) => sum + piece.length, 0) || 1;
+  const scores: number[] = [];
+  for (const piece of pieces) {
+    const probabilities = await classifyPiece(piece);
+    probabilities.forEach((p, i) => {
+      scores[i] = (scores[i] ?? 0) + p * (piece.length / totalLength);
+    });
+  }
+  return scores.map((score, i) => ({ label: labels[i] ?? `LABEL_${i}`, score }));
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'load') {
+    try {
+      tokenizer = new Tokenizer(request.tokenizer);
+      session = await ort.InferenceSession.create(new Uint8Array(request.model), {
+        executionProviders: ['wasm']
+      });
+      const id2label = request.config.id2label || {};
+      labels = Object.keys(id2label)
+        .sort((a, b) => Number(a) - Number(b))
+        .map(key => id2label[key]);
+      // RoBERTa reserves two position slots for its padding offset.
+      maxLength = Math.min(MAX_SEQUENCE_LENGTH, (request.config.max_position_embeddings ?? MAX_SEQUENCE_LENGTH + 2) - 2);
+      post({ type: 'loaded', labels });
+    } catch (error) {
+      session = null;
+      tokenizer = null;
+      post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to load model' });
+    }
+    return;
+  }
+
+  try {
+    const results: RawLabelScore[][] = [];
+    for (const text of request.texts) {
+      results.push(await classify(text));
+    }
+    post({ type: 'result', requestId: request.requestId, results });
+  } catch (error) {
+    post({
+      type: 'error',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : 'Local inference failed'
+    });
+  }
+};